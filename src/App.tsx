@@ -1,17 +1,74 @@
 import { useEffect, useRef, useState } from "react";
 import { WebGPUContext } from "./core/webgpu-context";
+import type { ISceneHandle } from "./core/scene";
+import type { IGpuError } from "./core/gpu-diagnostics";
+import type { IProfilerSummary } from "./core/frame-profiler";
+import { AssetLoadError, type IAssetProgress } from "./core/asset-manager";
 import renderWatercolorScene from "./scenes/watercolor";
 import renderScene from "./scenes/obj_model"; // Assuming this is your 'none' effect scene
+import renderToonScene from "./scenes/toon";
+import renderHatchingScene from "./scenes/hatching";
+import renderOilPaintScene, { type OilPaintSource } from "./scenes/oil_paint";
+import { MAX_SECTORS, MIN_SECTORS } from "./utils/oilPaintFilter";
+import { SCENE_LAYOUTS, type SceneLayout } from "./utils/sceneLayouts";
+
+const PROFILER_REFRESH_MS = 500;
+const MODEL_EXTENSIONS = ["obj", "gltf", "glb"];
+// Roles scenes look up with AssetManager.userAsset()
+const USER_ASSET_ROLES = ["model", "diffuse", "paper", "ramp", "image"];
+
+type Effect = "none" | "watercolor" | "toon" | "hatching" | "oilPaint";
+type ImageTarget = "diffuse" | "paper" | "ramp" | "image";
+
+const LAYOUT_NAMES: Record<SceneLayout, string> = {
+    single: "Single model",
+    table: "Table with props",
+    instanced: "1,000 instances",
+};
+
+const formatMs = (ms?: number) => ms === undefined ? "-" : ms.toFixed(2);
+
+const fileExtension = (fileName: string) => fileName.split(".").pop()?.toLowerCase() ?? "";
+
+// Asset failures are reported by the context already
+const sceneError = (error: unknown): IGpuError | undefined => error instanceof AssetLoadError ? undefined : { kind: "scene", message: error instanceof Error ? error.message : String(error) };
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(a.href);
+}
 
 export const App: React.FC = () => {
     const [recording, setRecording] = useState(false);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const webGPUContextRef = useRef<WebGPUContext | null | undefined>(null);
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-    const [webGpuSupported, setWebGpuSupported] = useState(true);
-    const [selectedEffect, setSelectedEffect] = useState<"none" | "watercolor">("none"); // New state for effect selection
+    const [errors, setErrors] = useState<IGpuError[]>([]);
+    const [profiling, setProfiling] = useState(false);
+    const [profile, setProfile] = useState<IProfilerSummary | null>(null);
+    const [assetProgress, setAssetProgress] = useState<IAssetProgress | null>(null);
+    const [imageTarget, setImageTarget] = useState<ImageTarget>("diffuse");
+    const [dragging, setDragging] = useState(false);
+    const [selectedEffect, setSelectedEffect] = useState<Effect>("none"); // New state for effect selection
+    const [layout, setLayout] = useState<SceneLayout>("single");
+    const [toonBands, setToonBands] = useState(3);
+    const [outlineWidth, setOutlineWidth] = useState(2);
+    const [inkLines, setInkLines] = useState(false);
+    const [hatchDensity, setHatchDensity] = useState(4);
+    const [hatchAngle, setHatchAngle] = useState(45);
+    const [bleeding, setBleeding] = useState(0.8);
+    const [edgeDarkening, setEdgeDarkening] = useState(1);
+    const [turbulence, setTurbulence] = useState(0.5);
+    const [granulation, setGranulation] = useState(0.5);
+    const [oilSource, setOilSource] = useState<OilPaintSource>("scene");
+    const [oilRadius, setOilRadius] = useState(6);
+    const [oilSharpness, setOilSharpness] = useState(8);
+    const [oilSectors, setOilSectors] = useState(8);
 
-    const render = async () => {
+    const render = async (): Promise<ISceneHandle | undefined> => {
         const primitiveState: GPUPrimitiveState = {
             topology: 'triangle-list' as GPUPrimitiveTopology,
             frontFace: 'ccw' as GPUFrontFace,
@@ -24,37 +81,91 @@ export const App: React.FC = () => {
                 depthWriteEnabled: true,
                 depthCompare: 'less' as GPUCompareFunction,
                 format: 'depth24plus-stencil8' as GPUTextureFormat,
-            }
+            },
+            msaa: 4,
         });
 
         if (webGpuContext.error) {
-            console.error(webGpuContext.error);
-            setWebGpuSupported(false);
-            return;
+            setErrors([{ kind: "unsupported", message: webGpuContext.error }]);
+            return undefined;
         }
 
+        // The context is a singleton, so only subscribe the first time we see it
+        if (webGpuContext.instance && webGPUContextRef.current !== webGpuContext.instance) {
+            webGpuContext.instance.onError(error => setErrors(previous => [...previous, error]));
+            webGpuContext.instance.assets.onProgress(setAssetProgress);
+        }
         webGPUContextRef.current = webGpuContext.instance;
 
-        // Call specific scene renderer based on selectedEffect
+        // Call specific scene renderer based on selectedEffect. Scenes run through the context are rebuilt if the device is lost
         if (webGpuContext.instance) {
             if (selectedEffect === "watercolor") {
-                await renderWatercolorScene(webGpuContext.instance);
+                return webGpuContext.instance.runScene(context => renderWatercolorScene(context, layout, { bleeding, edgeDarkening, turbulence, granulation }, inkLines ? {} : undefined));
+            } else if (selectedEffect === "hatching") {
+                return webGpuContext.instance.runScene(context => renderHatchingScene(context, layout, { density: hatchDensity, angle: hatchAngle }, inkLines ? {} : undefined));
+            } else if (selectedEffect === "oilPaint") {
+                return webGpuContext.instance.runScene(context => renderOilPaintScene(context, layout, { radius: oilRadius, sharpness: oilSharpness, sectors: oilSectors }, oilSource));
+            } else if (selectedEffect === "toon") {
+                return webGpuContext.instance.runScene(context => renderToonScene(context, layout, { bands: toonBands, outlineWidth }));
             } else { // 'none' or any other default
-                await renderScene(webGpuContext.instance);
+                return webGpuContext.instance.runScene(context => renderScene(context, layout, inkLines ? {} : undefined));
             }
         }
+        return undefined;
     }
 
-    // Rerender when selectedEffect changes
+    // Rerender when selectedEffect, the layout or any effect setting changes
     useEffect(() => {
         if (!navigator.gpu) {
-            setWebGpuSupported(false);
+            setErrors([{ kind: "unsupported", message: "WebGPU not supported" }]);
             return;
         }
+        let cancelled = false;
         if (canvasRef.current) {
-            render();
+            render().then(scene => {
+                // The effect may have changed again while this scene was still loading
+                if (cancelled) {
+                    scene?.dispose();
+                }
+            }).catch(error => {
+                const reported = sceneError(error);
+                if (reported) {
+                    setErrors(previous => [...previous, reported]);
+                }
+            });
         }
-    }, [selectedEffect]); // Add selectedEffect to the dependency array
+
+        // Tear down the running scene before the next one starts
+        return () => {
+            cancelled = true;
+            if (webGPUContextRef.current) {
+                webGPUContextRef.current.disposeScene();
+            }
+        };
+    }, [selectedEffect, layout, toonBands, outlineWidth, inkLines, bleeding, edgeDarkening, turbulence, granulation, hatchDensity, hatchAngle, oilSource, oilRadius, oilSharpness, oilSectors]); // Add selectedEffect to the dependency array
+
+    // Only profile while the overlay is open, so the timestamp queries cost nothing otherwise
+    useEffect(() => {
+        const webGpuContext = webGPUContextRef.current;
+        if (!profiling || !webGpuContext) {
+            return;
+        }
+        webGpuContext.profiler.enabled = true;
+        const interval = setInterval(() => setProfile(webGpuContext.profiler.summary), PROFILER_REFRESH_MS);
+        return () => {
+            clearInterval(interval);
+            webGpuContext.profiler.enabled = false;
+            setProfile(null);
+        };
+    }, [profiling]);
+
+    const exportProfile = () => {
+        if (!webGPUContextRef.current) {
+            return;
+        }
+        const json = JSON.stringify(webGPUContextRef.current.profiler, null, 2);
+        downloadBlob(new Blob([json], { type: "application/json" }), "profile.json");
+    }
 
     const toggleRecording = async () => {
         if (!recording) {
@@ -91,8 +202,81 @@ export const App: React.FC = () => {
         setRecording(prev => !prev);
     }
 
+    const takeScreenshot = async () => {
+        if (!webGPUContextRef.current) {
+            return;
+        }
+        try {
+            const imageData = await webGPUContextRef.current.captureImageData();
+            const canvas = document.createElement("canvas");
+            canvas.width = imageData.width;
+            canvas.height = imageData.height;
+            canvas.getContext("2d")!.putImageData(imageData, 0, 0);
+            canvas.toBlob((blob) => {
+                if (blob === null) return;
+                downloadBlob(blob, "screenshot.png");
+            });
+        } catch (error) {
+            setErrors(previous => [...previous, { kind: "scene", message: `Screenshot failed: ${error instanceof Error ? error.message : error}` }]);
+        }
+    }
+
+    /**
+     * Swaps the scene's model, or its diffuse, paper, toon ramp or painted image, for dropped files. Images dropped along
+     * with a model are taken to be its textures, so they're only registered for the model's materials to find.
+     */
+    const handleDrop = async (event: React.DragEvent<HTMLCanvasElement>) => {
+        event.preventDefault();
+        setDragging(false);
+        const webGpuContext = webGPUContextRef.current;
+        const files = [...event.dataTransfer.files];
+        if (!webGpuContext || files.length === 0) {
+            return;
+        }
+        const assets = webGpuContext.assets;
+        const urls = files.map(file => assets.addFile(file));
+        const modelIndex = files.findIndex(file => MODEL_EXTENSIONS.includes(fileExtension(file.name)));
+        const imageIndex = files.findIndex(file => file.type.startsWith("image/"));
+        if (modelIndex < 0 && imageIndex < 0) {
+            setErrors(previous => [...previous, { kind: "asset", message: `Can't use ${files.map(file => `"${file.name}"`).join(", ")}: drop an .obj, .gltf or .glb model or an image` }]);
+            return;
+        }
+        const role = modelIndex >= 0 ? "model" : imageTarget;
+        const previous = assets.userAsset(role);
+        assets.setUserAsset(role, urls[modelIndex >= 0 ? modelIndex : imageIndex]);
+        try {
+            await webGpuContext.reloadScene();
+        } catch (error) {
+            const reported = sceneError(error);
+            if (reported) {
+                setErrors(errors => [...errors, reported]);
+            }
+            // Go back to what was showing before
+            assets.setUserAsset(role, previous);
+            await webGpuContext.reloadScene().catch(() => {});
+        }
+    }
+
+    const resetAssets = async () => {
+        const webGpuContext = webGPUContextRef.current;
+        if (!webGpuContext) {
+            return;
+        }
+        for (const role of USER_ASSET_ROLES) {
+            webGpuContext.assets.setUserAsset(role, undefined);
+        }
+        try {
+            await webGpuContext.reloadScene();
+        } catch (error) {
+            const reported = sceneError(error);
+            if (reported) {
+                setErrors(errors => [...errors, reported]);
+            }
+        }
+    }
+
     const handleEffectChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
-        setSelectedEffect(event.target.value as "none" | "watercolor");
+        setSelectedEffect(event.target.value as Effect);
     };
 
     return (
@@ -102,15 +286,129 @@ export const App: React.FC = () => {
                 <select id="effect-select" value={selectedEffect} onChange={handleEffectChange}>
                     <option value="none">None</option>
                     <option value="watercolor">Watercolor</option>
+                    <option value="toon">Toon</option>
+                    <option value="hatching">Hatching</option>
+                    <option value="oilPaint">Oil paint</option>
                 </select>
+                <label htmlFor="layout-select"> Layout:</label>
+                <select id="layout-select" value={layout} onChange={event => setLayout(event.target.value as SceneLayout)}>
+                    {SCENE_LAYOUTS.map(name => <option key={name} value={name}>{LAYOUT_NAMES[name]}</option>)}
+                </select>
+                <label htmlFor="image-target-select"> Dropped images replace:</label>
+                <select id="image-target-select" value={imageTarget} onChange={event => setImageTarget(event.target.value as ImageTarget)}>
+                    <option value="diffuse">Diffuse texture</option>
+                    <option value="paper">Paper</option>
+                    <option value="ramp">Toon ramp</option>
+                    <option value="image">Painted image</option>
+                </select>
+                <button onClick={resetAssets}>Reset assets</button>
+                {selectedEffect !== "toon" && selectedEffect !== "oilPaint" && <>
+                    <input id="ink-lines" type="checkbox" checked={inkLines} onChange={event => setInkLines(event.target.checked)} />
+                    <label htmlFor="ink-lines">Ink lines</label>
+                </>}
+                {selectedEffect === "watercolor" && <>
+                    <label htmlFor="bleeding"> Bleeding:</label>
+                    <input id="bleeding" type="number" min={0} max={1} step={0.1} value={bleeding} onChange={event => setBleeding(Math.min(1, Math.max(0, Number(event.target.value))))} />
+                    <label htmlFor="edge-darkening"> Edge darkening:</label>
+                    <input id="edge-darkening" type="number" min={0} max={4} step={0.25} value={edgeDarkening} onChange={event => setEdgeDarkening(Math.max(0, Number(event.target.value)))} />
+                    <label htmlFor="turbulence"> Turbulence:</label>
+                    <input id="turbulence" type="number" min={0} max={1} step={0.1} value={turbulence} onChange={event => setTurbulence(Math.min(1, Math.max(0, Number(event.target.value))))} />
+                    <label htmlFor="granulation" title="Negative values paint dry-brush instead"> Granulation:</label>
+                    <input id="granulation" type="number" min={-1} max={1} step={0.1} value={granulation} onChange={event => setGranulation(Math.min(1, Math.max(-1, Number(event.target.value))))} />
+                </>}
+                {selectedEffect === "hatching" && <>
+                    <label htmlFor="hatch-density"> Stroke density:</label>
+                    <input id="hatch-density" type="number" min={1} max={32} value={hatchDensity} onChange={event => setHatchDensity(Math.max(1, Number(event.target.value)))} />
+                    <label htmlFor="hatch-angle"> Stroke angle (°):</label>
+                    <input id="hatch-angle" type="number" min={0} max={180} step={5} value={hatchAngle} onChange={event => setHatchAngle(Number(event.target.value))} />
+                </>}
+                {selectedEffect === "oilPaint" && <>
+                    <label htmlFor="oil-source"> Paint:</label>
+                    <select id="oil-source" value={oilSource} onChange={event => setOilSource(event.target.value as OilPaintSource)}>
+                        <option value="scene">3D scene</option>
+                        <option value="image">Image</option>
+                    </select>
+                    <label htmlFor="oil-radius"> Radius (px):</label>
+                    <input id="oil-radius" type="number" min={1} max={16} value={oilRadius} onChange={event => setOilRadius(Math.max(1, Number(event.target.value)))} />
+                    <label htmlFor="oil-sharpness"> Sharpness:</label>
+                    <input id="oil-sharpness" type="number" min={1} max={16} value={oilSharpness} onChange={event => setOilSharpness(Math.max(1, Number(event.target.value)))} />
+                    <label htmlFor="oil-sectors"> Sectors:</label>
+                    <input id="oil-sectors" type="number" min={MIN_SECTORS} max={MAX_SECTORS} value={oilSectors} onChange={event => setOilSectors(Math.min(MAX_SECTORS, Math.max(MIN_SECTORS, Math.round(Number(event.target.value)))))} />
+                </>}
+                {selectedEffect === "toon" && <>
+                    <label htmlFor="toon-bands" title="Ignored while a toon ramp is dropped"> Bands:</label>
+                    <input id="toon-bands" type="number" min={1} max={8} value={toonBands} onChange={event => setToonBands(Math.max(1, Number(event.target.value)))} />
+                    <label htmlFor="outline-width"> Outline (px):</label>
+                    <input id="outline-width" type="number" min={0} max={10} step={0.5} value={outlineWidth} onChange={event => setOutlineWidth(Math.max(0, Number(event.target.value)))} />
+                </>}
             </div>
-            <canvas ref={canvasRef} width={640} height={480} style={{flexGrow: 1, flexShrink: 0}}></canvas>
-            <button onClick={() => webGPUContextRef.current!.takeScreenshot = true}>Screenshot</button>
+            <canvas
+                ref={canvasRef}
+                width={640}
+                height={480}
+                title="Drop an .obj, .gltf or .glb model (with its .mtl and textures) or an image"
+                style={{flexGrow: 1, flexShrink: 0, outline: dragging ? "4px dashed #4a90e2" : "none", outlineOffset: "-4px"}}
+                onDragOver={event => {
+                    event.preventDefault();
+                    setDragging(true);
+                }}
+                onDragLeave={() => setDragging(false)}
+                onDrop={handleDrop}
+            ></canvas>
+            {assetProgress && assetProgress.loaded < assetProgress.total && (
+                <div style={{ position: "absolute", top: "2rem", left: 0, padding: "0.5rem", background: "rgba(0, 0, 0, 0.75)", color: "white", fontFamily: "monospace", fontSize: "12px" }}>
+                    Loading assets {assetProgress.loaded}/{assetProgress.total}
+                </div>
+            )}
+            <button onClick={() => webGPUContextRef.current?.frameObject()} title="Fit the camera to the model (F)">Frame object</button>
+            <button onClick={takeScreenshot}>Screenshot</button>
             <button onClick={toggleRecording}>{recording ? "Stop" : "Start"}</button>
-            {!webGpuSupported && (
-                <div style={{ color: "red", marginTop: "1rem" }}>
-                    Your browser does not support WebGPU. Please download a browser from
-                    <a href="https://caniuse.com/webgpu" target="_blank" rel="noopener noreferrer"> this site</a>.
+            <button onClick={() => setProfiling(previous => !previous)}>{profiling ? "Hide profiler" : "Show profiler"}</button>
+            {profiling && (
+                <div style={{ position: "absolute", top: "2rem", right: 0, padding: "0.5rem", background: "rgba(0, 0, 0, 0.75)", color: "white", fontFamily: "monospace", fontSize: "12px" }}>
+                    {profile ? (
+                        <>
+                            <div>{profile.fps} fps, timing: {profile.timingSource === "cpu" ? "CPU only (no timestamp-query)" : "GPU timestamps"}</div>
+                            <div>frame: cpu {formatMs(profile.cpuMs)} ms, gpu {formatMs(profile.gpuMs)} ms, {profile.drawCalls.toFixed(0)} draws</div>
+                            <div>created/frame: {profile.buffersCreated.toFixed(1)} buffers, {profile.texturesCreated.toFixed(1)} textures</div>
+                            <div>live: {profile.liveBuffers} buffers, {profile.liveTextures} textures</div>
+                            <table>
+                                <thead>
+                                    <tr><th align="left">pass</th><th align="right">cpu ms</th><th align="right">gpu ms</th><th align="right">draws</th></tr>
+                                </thead>
+                                <tbody>
+                                    {profile.passes.map(pass => (
+                                        <tr key={pass.name}>
+                                            <td>{pass.name}</td>
+                                            <td align="right">{formatMs(pass.cpuMs)}</td>
+                                            <td align="right">{formatMs(pass.gpuMs)}</td>
+                                            <td align="right">{pass.drawCalls.toFixed(0)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </>
+                    ) : (
+                        <div>Collecting frames...</div>
+                    )}
+                    <button onClick={exportProfile}>Export JSON</button>
+                </div>
+            )}
+            {errors.length > 0 && (
+                <div role="alert" style={{ color: "red", marginTop: "1rem", maxHeight: "30%", overflowY: "auto" }}>
+                    {errors.map((error, index) => (
+                        <div key={index}>
+                            <strong>{error.kind}</strong>: {error.message}
+                            {error.kind === "unsupported" && (
+                                <span>
+                                    {" "}Your browser does not support WebGPU. Please download a browser from
+                                    <a href="https://caniuse.com/webgpu" target="_blank" rel="noopener noreferrer"> this site</a>.
+                                </span>
+                            )}
+                            {error.details && <pre style={{ margin: 0, whiteSpace: "pre-wrap" }}>{error.details.join("\n")}</pre>}
+                        </div>
+                    ))}
+                    <button onClick={() => setErrors([])}>Dismiss</button>
                 </div>
             )}
         </div>
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from "vitest";
+import { MockAssetFetcher } from "../testing/mock-gpu";
+import { AssetLoadError, AssetManager, textLoader, type IAssetLoader, type IAssetProgress } from "./asset-manager";
+
+function createManager(signal?: () => AbortSignal | undefined) {
+    const fetcher = new MockAssetFetcher({ "a.txt": "a", "b.txt": "b" });
+    const fetchText = vi.spyOn(fetcher, "fetchText");
+    return { assets: new AssetManager(fetcher, signal), fetchText };
+}
+
+describe("AssetManager", () => {
+    it("loads each url and type once, sharing concurrent loads", async () => {
+        const { assets, fetchText } = createManager();
+        const lengthLoader: IAssetLoader<number> = { type: "length", load: async (url, manager) => (await manager.fetchText(url)).length };
+
+        const [first, second] = await Promise.all([assets.load(textLoader, "a.txt"), assets.load(textLoader, "a.txt")]);
+        expect([first, second]).toEqual(["a", "a"]);
+        expect(await assets.load(lengthLoader, "a.txt")).toBe(1);
+        expect(fetchText).toHaveBeenCalledTimes(2);
+
+        assets.invalidate("a.txt");
+        await assets.load(textLoader, "a.txt");
+        expect(fetchText).toHaveBeenCalledTimes(3);
+    });
+
+    it("reports failed loads once and retries them next time", async () => {
+        const { assets, fetchText } = createManager();
+        const errors: AssetLoadError[] = [];
+        assets.onError(error => errors.push(error));
+        // The nested load's failure is reported, not the outer one's
+        const nestedLoader: IAssetLoader<string> = { type: "nested", load: (url, manager) => manager.load(textLoader, url) };
+
+        await expect(assets.load(nestedLoader, "missing.txt")).rejects.toThrow('Failed to load text "missing.txt": No mock asset "missing.txt"');
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toBeInstanceOf(AssetLoadError);
+        expect(errors[0]).toMatchObject({ type: "text", url: "missing.txt" });
+
+        await expect(assets.load(textLoader, "missing.txt")).rejects.toThrow(AssetLoadError);
+        expect(fetchText).toHaveBeenCalledTimes(2);
+        expect(errors).toHaveLength(2);
+    });
+
+    it("counts progress from the last time it was idle", async () => {
+        const { assets } = createManager();
+        const progress: IAssetProgress[] = [];
+        assets.onProgress(update => progress.push(update));
+
+        await Promise.all([assets.load(textLoader, "a.txt"), assets.load(textLoader, "b.txt")]);
+        await assets.load(textLoader, "missing.txt").catch(() => undefined);
+        expect(progress).toEqual([
+            { loaded: 0, total: 1 },
+            { loaded: 0, total: 2 },
+            { loaded: 1, total: 2 },
+            { loaded: 2, total: 2 },
+            { loaded: 0, total: 1 },
+            { loaded: 1, total: 1 },
+        ]);
+    });
+
+    it("rejects loads with the signal's reason once it aborts, still caching the asset", async () => {
+        const controller = new AbortController();
+        let signal: AbortSignal | undefined = controller.signal;
+        const { assets, fetchText } = createManager(() => signal);
+        let nested: Promise<string> | undefined;
+        const nestedLoader: IAssetLoader<string> = { type: "nested", load: (url, manager) => nested = manager.load(textLoader, url) };
+
+        const loading = assets.load(nestedLoader, "a.txt");
+        controller.abort();
+        await expect(loading).rejects.toBe(controller.signal.reason);
+        // Nested loads aren't tied to the signal, they may be shared with loads that weren't aborted
+        await expect(nested).resolves.toBe("a");
+
+        // E.g. the next scene
+        signal = undefined;
+        expect(await assets.load(nestedLoader, "a.txt")).toBe("a");
+        expect(fetchText).toHaveBeenCalledOnce();
+    });
+
+    it("serves dropped files by name", async () => {
+        const { assets } = createManager();
+        const url = assets.addFile(new File(["dropped"], "Model.mtl"));
+        expect(url).toBe("dropped:/Model.mtl");
+        expect(await assets.load(textLoader, url)).toBe("dropped");
+        expect(await assets.fetchText("dropped:/textures/model.MTL")).toBe("dropped");
+        await expect(assets.fetchText("dropped:/wood.png")).rejects.toThrow("\"wood.png\" wasn't dropped along with the file referencing it");
+    });
+
+    it("keeps user assets per role", () => {
+        const { assets } = createManager();
+        assets.setUserAsset("model", "dropped:/teapot.obj");
+        expect(assets.userAsset("model")).toBe("dropped:/teapot.obj");
+        assets.setUserAsset("model", undefined);
+        expect(assets.userAsset("model")).toBeUndefined();
+    });
+});
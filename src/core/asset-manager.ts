@@ -0,0 +1,273 @@
+import type { IAssetFetcher } from "./platform";
+
+/**
+ * Turns a URL into an asset of one type, fetching through the manager so nested assets (e.g. an OBJ's MTL
+ * libraries) are cached and counted too.
+ */
+export interface IAssetLoader<T> {
+    /** Part of the cache key, so the same URL can be cached as different types. Named in error messages. */
+    type: string;
+    /** Tells loaders of one type apart whose options change the result. */
+    variant?: string;
+    load(url: string, assets: IAssetLoaderContext): Promise<T>;
+}
+
+/**
+ * The AssetManager as loaders see it. Their nested loads aren't tied to the scene that started the load, since
+ * the result is cached for every scene.
+ */
+export interface IAssetLoaderContext extends IAssetFetcher {
+    load<T>(loader: IAssetLoader<T>, url: string): Promise<T>;
+}
+
+/** The signal of whoever is loading right now, e.g. the active scene's. */
+export type AbortSignalProvider = () => AbortSignal | undefined;
+
+export interface IAssetProgress {
+    /** Loads that finished or failed since the manager was last idle. */
+    loaded: number;
+    total: number;
+}
+
+export type AssetProgressListener = (progress: IAssetProgress) => void;
+export type AssetErrorListener = (error: AssetLoadError) => void;
+
+export class AssetLoadError extends Error {
+    public readonly url: string;
+    public readonly type: string;
+
+    constructor(type: string, url: string, cause: unknown) {
+        super(`Failed to load ${type} "${url}": ${cause instanceof Error ? cause.message : cause}`, { cause });
+        this.name = "AssetLoadError";
+        this.url = url;
+        this.type = type;
+    }
+}
+
+interface ICacheEntry {
+    url: string;
+    asset: Promise<unknown>;
+}
+
+// Dropped files have no server path, so they get URLs of their own that relative paths still resolve against
+const DROPPED_FILE_PREFIX = "dropped:/";
+
+export const textLoader: IAssetLoader<string> = {
+    type: "text",
+    load: (url, assets) => assets.fetchText(url),
+};
+
+export const arrayBufferLoader: IAssetLoader<ArrayBuffer> = {
+    type: "binary",
+    load: (url, assets) => assets.fetchArrayBuffer(url),
+};
+
+export const imageLoader: IAssetLoader<ImageBitmap> = {
+    type: "image",
+    load: (url, assets) => assets.fetchImageBitmap(url),
+};
+
+/**
+ * Loads scene assets once per URL and type, and reports progress and failures. Its fetch methods are uncached and
+ * meant for loaders; scenes call load(). Files the user dropped onto the page are served from memory, and can be
+ * picked as the scene's model or textures with setUserAsset().
+ */
+export class AssetManager implements IAssetFetcher {
+    private _fetcher: IAssetFetcher;
+    private _signal?: AbortSignalProvider;
+    private _loaderContext: IAssetLoaderContext;
+    private _cache: Map<string, ICacheEntry>;
+    private _files: Map<string, Blob>;
+    private _userAssets: Map<string, string>;
+    private _progress: IAssetProgress;
+    private _progressListeners: Set<AssetProgressListener>;
+    private _errorListeners: Set<AssetErrorListener>;
+
+    /**
+     * @param signal Called when a load starts. Once the signal it returns is aborted, that load rejects with its
+     * reason instead of resolving, while the asset still gets cached for others.
+     */
+    constructor(fetcher: IAssetFetcher, signal?: AbortSignalProvider) {
+        this._fetcher = fetcher;
+        this._signal = signal;
+        this._loaderContext = {
+            load: (loader, url) => this._load(loader, url),
+            fetchText: url => this.fetchText(url),
+            fetchArrayBuffer: url => this.fetchArrayBuffer(url),
+            fetchImageBitmap: url => this.fetchImageBitmap(url),
+        };
+        this._cache = new Map();
+        this._files = new Map();
+        this._userAssets = new Map();
+        this._progress = { loaded: 0, total: 0 };
+        this._progressListeners = new Set();
+        this._errorListeners = new Set();
+    }
+
+    /**
+     * Loads an asset, or returns the cached one. Concurrent loads of the same asset share one request, and failed
+     * loads aren't cached, so they're retried next time.
+     */
+    public load<T>(loader: IAssetLoader<T>, url: string): Promise<T> {
+        return this._untilAborted(this._load(loader, url));
+    }
+
+    /**
+     * Decodes an image embedded in another asset, e.g. a glTF texture. Rejects like load() once the signal is
+     * aborted.
+     */
+    public decodeImage(image: Blob): Promise<ImageBitmap> {
+        return this._untilAborted(createImageBitmap(image));
+    }
+
+    /**
+     * Drops cached assets, of one URL or all of them.
+     */
+    public invalidate(url?: string) {
+        for (const [key, entry] of this._cache) {
+            if (url === undefined || entry.url === url) {
+                this._cache.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Makes a dropped or picked file loadable and returns its URL. Files are found by name, so an OBJ and the MTL
+     * libraries and textures dropped along with it find each other wherever their paths point.
+     */
+    public addFile(file: File): string {
+        const url = DROPPED_FILE_PREFIX + file.name;
+        this._files.set(file.name.toLowerCase(), file);
+        this.invalidate(url);
+        return url;
+    }
+
+    /**
+     * Picks the asset for a role the scenes ask for with userAsset(), e.g. "model", "diffuse" or "paper".
+     * Pass undefined to go back to the scene's own asset.
+     */
+    public setUserAsset(role: string, url: string | undefined) {
+        if (url === undefined) {
+            this._userAssets.delete(role);
+        } else {
+            this._userAssets.set(role, url);
+        }
+    }
+
+    public userAsset(role: string): string | undefined {
+        return this._userAssets.get(role);
+    }
+
+    /**
+     * Subscribes to load progress. Returns an unsubscribe function.
+     */
+    public onProgress(listener: AssetProgressListener): () => void {
+        this._progressListeners.add(listener);
+        return () => this._progressListeners.delete(listener);
+    }
+
+    /**
+     * Subscribes to failed loads. Returns an unsubscribe function.
+     */
+    public onError(listener: AssetErrorListener): () => void {
+        this._errorListeners.add(listener);
+        return () => this._errorListeners.delete(listener);
+    }
+
+    /**
+     * Reports a problem found in an asset that did load, e.g. a texture that couldn't be decoded or a material
+     * that isn't defined, to the listeners of failed loads.
+     */
+    public reportError(error: AssetLoadError) {
+        for (const listener of this._errorListeners) {
+            listener(error);
+        }
+    }
+
+    public async fetchText(url: string): Promise<string> {
+        const file = this._droppedFile(url);
+        return file ? file.text() : this._fetcher.fetchText(url);
+    }
+
+    public async fetchArrayBuffer(url: string): Promise<ArrayBuffer> {
+        const file = this._droppedFile(url);
+        return file ? file.arrayBuffer() : this._fetcher.fetchArrayBuffer(url);
+    }
+
+    public async fetchImageBitmap(url: string): Promise<ImageBitmap> {
+        const file = this._droppedFile(url);
+        return file ? createImageBitmap(file) : this._fetcher.fetchImageBitmap(url);
+    }
+
+    private _load<T>(loader: IAssetLoader<T>, url: string): Promise<T> {
+        const key = `${loader.type}|${loader.variant ?? ""}|${url}`;
+        const cached = this._cache.get(key);
+        if (cached) {
+            return cached.asset as Promise<T>;
+        }
+
+        this._startLoad();
+        const asset = loader.load(url, this._loaderContext).then(asset => {
+            this._finishLoad();
+            return asset;
+        }, cause => {
+            this._cache.delete(key);
+            this._finishLoad();
+            // Nested loads have reported their own failure already
+            if (cause instanceof AssetLoadError) {
+                throw cause;
+            }
+            const error = new AssetLoadError(loader.type, url, cause);
+            this.reportError(error);
+            throw error;
+        });
+        this._cache.set(key, { url, asset });
+        return asset;
+    }
+
+    private _untilAborted<T>(promise: Promise<T>): Promise<T> {
+        const signal = this._signal?.();
+        if (!signal) {
+            return promise;
+        }
+        return promise.then(value => {
+            signal.throwIfAborted();
+            return value;
+        }, error => {
+            signal.throwIfAborted();
+            throw error;
+        });
+    }
+
+    private _droppedFile(url: string): Blob | undefined {
+        if (!url.startsWith(DROPPED_FILE_PREFIX)) {
+            return undefined;
+        }
+        const name = url.slice(url.lastIndexOf("/") + 1).toLowerCase();
+        const file = this._files.get(name);
+        if (!file) {
+            throw new Error(`"${name}" wasn't dropped along with the file referencing it`);
+        }
+        return file;
+    }
+
+    private _startLoad() {
+        if (this._progress.loaded === this._progress.total) {
+            this._progress = { loaded: 0, total: 0 };
+        }
+        this._progress.total++;
+        this._emitProgress();
+    }
+
+    private _finishLoad() {
+        this._progress.loaded++;
+        this._emitProgress();
+    }
+
+    private _emitProgress() {
+        const progress = { ...this._progress };
+        for (const listener of this._progressListeners) {
+            listener(progress);
+        }
+    }
+}
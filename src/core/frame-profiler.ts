@@ -0,0 +1,356 @@
+import type { IResourceCounts, ResourceTracker } from "./resource-tracker";
+
+export type GpuTimingSource = "timestamp-query" | "cpu";
+
+export interface IPassTiming {
+    name: string;
+    /** CPU time spent encoding the pass. */
+    cpuMs: number;
+    /** GPU execution time, only measured when the device supports timestamp queries. */
+    gpuMs?: number;
+    drawCalls: number;
+}
+
+export interface IFrameTiming {
+    frame: number;
+    /** performance.now() when the frame started encoding. */
+    startTime: number;
+    /** CPU time spent encoding and submitting the frame. */
+    cpuMs: number;
+    /** From the first pass starting to the last one finishing on the GPU. Filled in once the timestamps are read back. */
+    gpuMs?: number;
+    drawCalls: number;
+    /** Buffers and textures created since the previous frame, including by the scene in between frames. */
+    buffersCreated: number;
+    texturesCreated: number;
+    passes: IPassTiming[];
+}
+
+export interface IProfilerSummary {
+    timingSource: GpuTimingSource;
+    /** Frames rendered during the last second. On-demand scenes report 0 while idle. */
+    fps: number;
+    // Averages over the last second of frames, or the last frame if there were none
+    cpuMs: number;
+    gpuMs?: number;
+    drawCalls: number;
+    buffersCreated: number;
+    texturesCreated: number;
+    passes: IPassTiming[];
+    liveBuffers: number;
+    liveTextures: number;
+}
+
+const DRAW_METHODS = new Set<PropertyKey>(["draw", "drawIndexed", "drawIndirect", "drawIndexedIndirect"]);
+
+function average(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function averageDefined(values: (number | undefined)[]): number | undefined {
+    const defined = values.filter(value => value !== undefined);
+    return defined.length > 0 ? average(defined) : undefined;
+}
+
+/**
+ * Per-frame and per-pass timings of render graph frames. GPU times come from timestamp queries written at the
+ * start and end of every pass when the device has the "timestamp-query" feature; otherwise only CPU encode times
+ * are measured. Disabled by default, in which case render graphs encode exactly as they would without it.
+ */
+export class FrameProfiler {
+    private static HISTORY_SIZE = 240;
+    // Two timestamps per pass; passes beyond this in one frame only get CPU timings
+    private static MAX_TIMED_PASSES = 32;
+    // Frames whose timestamps are still being read back when all of these are busy get no GPU timings
+    private static MAX_READBACK_BUFFERS = 3;
+    private static FPS_WINDOW_MS = 1000;
+
+    private _tracker: ResourceTracker;
+    private _enabled: boolean;
+    private _frames: IFrameTiming[];
+    private _frameCount: number;
+    private _createdAtLastFrame: IResourceCounts;
+    private _frame?: IFrameTiming;
+    private _pass?: IPassTiming;
+    private _frameStart: number;
+    private _passStart: number;
+    private _timedPasses: number;
+    private _querySet?: GPUQuerySet;
+    private _resolveBuffer?: GPUBuffer;
+    private _readbackBuffers: Set<GPUBuffer>;
+    private _freeReadbackBuffers: GPUBuffer[];
+    private _pendingReadback?: { buffer: GPUBuffer, frame: IFrameTiming, passCount: number };
+
+    constructor(tracker: ResourceTracker) {
+        this._tracker = tracker;
+        this._enabled = false;
+        this._frames = [];
+        this._frameCount = 0;
+        this._createdAtLastFrame = tracker.created;
+        this._frameStart = 0;
+        this._passStart = 0;
+        this._timedPasses = 0;
+        this._readbackBuffers = new Set();
+        this._freeReadbackBuffers = [];
+    }
+
+    public get enabled(): boolean {
+        return this._enabled;
+    }
+
+    public set enabled(enabled: boolean) {
+        this._enabled = enabled;
+        this._frame = undefined;
+        this._pass = undefined;
+        this._createdAtLastFrame = this._tracker.created;
+    }
+
+    public get timingSource(): GpuTimingSource {
+        return this._tracker.device.features.has("timestamp-query") ? "timestamp-query" : "cpu";
+    }
+
+    /**
+     * Recorded frames, oldest first.
+     */
+    public get frames(): readonly IFrameTiming[] {
+        return this._frames;
+    }
+
+    public get summary(): IProfilerSummary {
+        const now = performance.now();
+        const lastSecond = this._frames.filter(frame => frame.startTime >= now - FrameProfiler.FPS_WINDOW_MS);
+        const frames = lastSecond.length > 0 ? lastSecond : this._frames.slice(-1);
+
+        const passNames = [...new Set(frames.flatMap(frame => frame.passes.map(pass => pass.name)))];
+        const passes = passNames.map(name => {
+            const timings = frames.flatMap(frame => frame.passes.filter(pass => pass.name === name));
+            return {
+                name,
+                cpuMs: average(timings.map(pass => pass.cpuMs)),
+                gpuMs: averageDefined(timings.map(pass => pass.gpuMs)),
+                drawCalls: average(timings.map(pass => pass.drawCalls)),
+            };
+        });
+
+        const live = this._tracker.counts;
+        return {
+            timingSource: this.timingSource,
+            fps: lastSecond.length,
+            cpuMs: frames.length > 0 ? average(frames.map(frame => frame.cpuMs)) : 0,
+            gpuMs: averageDefined(frames.map(frame => frame.gpuMs)),
+            drawCalls: frames.length > 0 ? average(frames.map(frame => frame.drawCalls)) : 0,
+            buffersCreated: frames.length > 0 ? average(frames.map(frame => frame.buffersCreated)) : 0,
+            texturesCreated: frames.length > 0 ? average(frames.map(frame => frame.texturesCreated)) : 0,
+            passes,
+            liveBuffers: live.buffers,
+            liveTextures: live.textures,
+        };
+    }
+
+    /**
+     * Summary plus the recorded frames, for JSON.stringify().
+     */
+    public toJSON() {
+        return { summary: this.summary, frames: this._frames };
+    }
+
+    public clear() {
+        this._frames = [];
+    }
+
+    /**
+     * Switches to the resources of a new device, e.g. after a device loss. Recorded frames are dropped.
+     */
+    public reset(tracker: ResourceTracker) {
+        this.destroy();
+        this._tracker = tracker;
+        this._createdAtLastFrame = tracker.created;
+        this._frames = [];
+    }
+
+    public destroy() {
+        this._querySet?.destroy();
+        this._querySet = undefined;
+        this._resolveBuffer?.destroy();
+        this._resolveBuffer = undefined;
+        for (const buffer of this._readbackBuffers) {
+            buffer.destroy();
+        }
+        this._readbackBuffers.clear();
+        this._freeReadbackBuffers = [];
+        this._pendingReadback = undefined;
+        this._frame = undefined;
+        this._pass = undefined;
+    }
+
+    public beginFrame() {
+        if (!this._enabled) {
+            return;
+        }
+        this._frameStart = performance.now();
+        this._timedPasses = 0;
+        this._frame = {
+            frame: this._frameCount++,
+            startTime: this._frameStart,
+            cpuMs: 0,
+            drawCalls: 0,
+            buffersCreated: 0,
+            texturesCreated: 0,
+            passes: [],
+        };
+    }
+
+    /**
+     * Starts timing a pass. Adds timestamp writes to `descriptor` when the device supports them.
+     */
+    public beginPass(name: string, descriptor: GPURenderPassDescriptor | GPUComputePassDescriptor) {
+        if (!this._frame) {
+            return;
+        }
+        this._pass = { name, cpuMs: 0, drawCalls: 0 };
+        this._frame.passes.push(this._pass);
+        const querySet = this._getQuerySet();
+        if (querySet && this._timedPasses < FrameProfiler.MAX_TIMED_PASSES) {
+            descriptor.timestampWrites = {
+                querySet,
+                beginningOfPassWriteIndex: this._timedPasses * 2,
+                endOfPassWriteIndex: this._timedPasses * 2 + 1,
+            };
+            this._timedPasses++;
+        }
+        this._passStart = performance.now();
+    }
+
+    /**
+     * Wraps a pass encoder so draw calls made through it are counted against the current pass.
+     */
+    public countDraws(passEncoder: GPURenderPassEncoder): GPURenderPassEncoder {
+        const pass = this._pass;
+        if (!pass) {
+            return passEncoder;
+        }
+        return new Proxy(passEncoder, {
+            get: (target, property) => {
+                const value: unknown = Reflect.get(target, property, target);
+                if (typeof value !== "function") {
+                    return value;
+                }
+                // GPU objects reject calls whose `this` is the proxy, so always call through to the real encoder
+                if (DRAW_METHODS.has(property)) {
+                    return (...args: unknown[]) => {
+                        pass.drawCalls++;
+                        return value.apply(target, args);
+                    };
+                }
+                return value.bind(target);
+            },
+        });
+    }
+
+    public endPass() {
+        if (!this._frame || !this._pass) {
+            return;
+        }
+        this._pass.cpuMs = performance.now() - this._passStart;
+        this._frame.drawCalls += this._pass.drawCalls;
+        this._pass = undefined;
+    }
+
+    /**
+     * Resolves this frame's timestamps into a readback buffer. Must be encoded before the command buffer is finished.
+     */
+    public resolveTimestamps(commandEncoder: GPUCommandEncoder) {
+        if (!this._frame || !this._querySet || this._timedPasses === 0) {
+            return;
+        }
+        const buffer = this._getReadbackBuffer();
+        if (!buffer) {
+            return;
+        }
+        const queryCount = this._timedPasses * 2;
+        commandEncoder.resolveQuerySet(this._querySet, 0, queryCount, this._resolveBuffer!, 0);
+        commandEncoder.copyBufferToBuffer(this._resolveBuffer!, 0, buffer, 0, queryCount * 8);
+        this._pendingReadback = { buffer, frame: this._frame, passCount: this._timedPasses };
+    }
+
+    /**
+     * Finishes the frame after its command buffer has been submitted and starts reading back its timestamps.
+     */
+    public endFrame() {
+        const frame = this._frame;
+        if (!frame) {
+            return;
+        }
+        frame.cpuMs = performance.now() - this._frameStart;
+        const created = this._tracker.created;
+        frame.buffersCreated = created.buffers - this._createdAtLastFrame.buffers;
+        frame.texturesCreated = created.textures - this._createdAtLastFrame.textures;
+        this._createdAtLastFrame = created;
+
+        this._frames.push(frame);
+        if (this._frames.length > FrameProfiler.HISTORY_SIZE) {
+            this._frames.shift();
+        }
+        this._frame = undefined;
+
+        if (this._pendingReadback) {
+            this._readTimestamps(this._pendingReadback.buffer, this._pendingReadback.frame, this._pendingReadback.passCount);
+            this._pendingReadback = undefined;
+        }
+    }
+
+    private _getQuerySet(): GPUQuerySet | undefined {
+        if (this.timingSource !== "timestamp-query") {
+            return undefined;
+        }
+        if (!this._querySet) {
+            const device = this._tracker.device;
+            const count = FrameProfiler.MAX_TIMED_PASSES * 2;
+            // Created on the device directly so profiling resources don't count towards the scene's resources
+            this._querySet = device.createQuerySet({ label: "profiler timestamps", type: "timestamp", count });
+            this._resolveBuffer = device.createBuffer({
+                label: "profiler timestamp resolve",
+                size: count * 8,
+                usage: GPUBufferUsage.QUERY_RESOLVE | GPUBufferUsage.COPY_SRC,
+            });
+        }
+        return this._querySet;
+    }
+
+    private _getReadbackBuffer(): GPUBuffer | undefined {
+        const free = this._freeReadbackBuffers.pop();
+        if (free) {
+            return free;
+        }
+        if (this._readbackBuffers.size >= FrameProfiler.MAX_READBACK_BUFFERS) {
+            return undefined;
+        }
+        const buffer = this._tracker.device.createBuffer({
+            label: "profiler timestamp readback",
+            size: FrameProfiler.MAX_TIMED_PASSES * 2 * 8,
+            usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+        });
+        this._readbackBuffers.add(buffer);
+        return buffer;
+    }
+
+    private async _readTimestamps(buffer: GPUBuffer, frame: IFrameTiming, passCount: number) {
+        try {
+            await buffer.mapAsync(GPUMapMode.READ);
+        } catch {
+            // The buffer was destroyed by reset() or the device was lost while mapping
+            return;
+        }
+        if (!this._readbackBuffers.has(buffer)) {
+            return;
+        }
+        const timestamps = new BigInt64Array(buffer.getMappedRange(), 0, passCount * 2);
+        const timedPasses = frame.passes.slice(0, passCount);
+        timedPasses.forEach((pass, index) => {
+            pass.gpuMs = Number(timestamps[index * 2 + 1] - timestamps[index * 2]) / 1e6;
+        });
+        frame.gpuMs = Number(timestamps[passCount * 2 - 1] - timestamps[0]) / 1e6;
+        buffer.unmap();
+        this._freeReadbackBuffers.push(buffer);
+    }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { KeyedCache, objectKey } from "./gpu-cache";
+
+describe("KeyedCache", () => {
+    it("creates each key once and counts hits and misses", () => {
+        const cache = new KeyedCache<string>();
+        let created = 0;
+        const create = () => `value ${created++}`;
+
+        expect(cache.getOrCreate("a", create)).toBe("value 0");
+        expect(cache.getOrCreate("a", create)).toBe("value 0");
+        expect(cache.getOrCreate("b", create)).toBe("value 1");
+        expect(cache.stats).toEqual({ hits: 1, misses: 2, size: 2 });
+    });
+
+    it("drops the least recently used entry beyond maxEntries", () => {
+        const cache = new KeyedCache<string>(2);
+        cache.getOrCreate("a", () => "a");
+        cache.getOrCreate("b", () => "b");
+        // Using "a" makes "b" the least recently used
+        cache.getOrCreate("a", () => "a again");
+        cache.getOrCreate("c", () => "c");
+
+        expect(cache.getOrCreate("a", () => "a again")).toBe("a");
+        expect(cache.getOrCreate("b", () => "b again")).toBe("b again");
+        expect(cache.stats.size).toBe(2);
+    });
+
+    it("forgets entries and counters when cleared", () => {
+        const cache = new KeyedCache<string>();
+        cache.getOrCreate("a", () => "a");
+        cache.clear();
+
+        expect(cache.stats).toEqual({ hits: 0, misses: 0, size: 0 });
+        expect(cache.getOrCreate("a", () => "a again")).toBe("a again");
+    });
+});
+
+describe("objectKey", () => {
+    it("gives each object its own stable id", () => {
+        const first = {};
+        const second = {};
+        expect(objectKey(first)).toBe(objectKey(first));
+        expect(objectKey(first)).not.toBe(objectKey(second));
+    });
+});
@@ -0,0 +1,67 @@
+export interface ICacheStats {
+    hits: number;
+    misses: number;
+    size: number;
+}
+
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 0;
+
+/**
+ * Stable per-object id, used to build cache keys out of GPU objects that can't be serialized.
+ */
+export function objectKey(object: object): number {
+    let id = objectIds.get(object);
+    if (id === undefined) {
+        id = nextObjectId++;
+        objectIds.set(object, id);
+    }
+    return id;
+}
+
+/**
+ * String-keyed cache with hit/miss counters. When maxEntries is set the least recently used entry is dropped.
+ */
+export class KeyedCache<T> {
+    private _entries: Map<string, T>;
+    private _maxEntries?: number;
+    private _hits: number;
+    private _misses: number;
+
+    constructor(maxEntries?: number) {
+        this._entries = new Map();
+        this._maxEntries = maxEntries;
+        this._hits = 0;
+        this._misses = 0;
+    }
+
+    public get stats(): ICacheStats {
+        return { hits: this._hits, misses: this._misses, size: this._entries.size };
+    }
+
+    public getOrCreate(key: string, create: () => T): T {
+        const cached = this._entries.get(key);
+        if (cached !== undefined) {
+            this._hits++;
+            if (this._maxEntries !== undefined) {
+                this._entries.delete(key);
+                this._entries.set(key, cached);
+            }
+            return cached;
+        }
+
+        this._misses++;
+        const value = create();
+        this._entries.set(key, value);
+        if (this._maxEntries !== undefined && this._entries.size > this._maxEntries) {
+            this._entries.delete(this._entries.keys().next().value!);
+        }
+        return value;
+    }
+
+    public clear() {
+        this._entries.clear();
+        this._hits = 0;
+        this._misses = 0;
+    }
+}
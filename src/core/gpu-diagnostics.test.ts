@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { shaderFileName } from "./gpu-diagnostics";
+import { instancedShader } from "../utils/instancedRenderer";
+import objModelWgsl from "../shaders/obj_model.wgsl?raw";
+
+describe("shaderFileName", () => {
+    it.each([
+        ["a shader file", objModelWgsl, "src/shaders/obj_model.wgsl"],
+        ["a shader file with snippets appended", instancedShader(objModelWgsl), "src/shaders/obj_model.wgsl"],
+        ["a generated shader", "@compute @workgroup_size(1) fn main() {}", "inline shader"],
+    ])("names %s", (_, source, fileName) => {
+        expect(shaderFileName(source)).toBe(fileName);
+    });
+});
@@ -0,0 +1,41 @@
+export type GpuErrorKind = "unsupported" | "compilation" | "validation" | "out-of-memory" | "internal" | "device-lost" | "scene" | "asset";
+
+export interface IGpuError {
+    kind: GpuErrorKind;
+    message: string;
+    /** One line per diagnostic, e.g. "src/shaders/obj_model.wgsl:12:5: error: unresolved identifier 'foo'". */
+    details?: string[];
+}
+
+export type GpuErrorListener = (error: IGpuError) => void;
+
+// Every shader is imported with ?raw, so sources can be mapped back to their file without threading names through
+const shaderSources = import.meta.glob("../shaders/**/*.wgsl", { query: "?raw", import: "default", eager: true }) as Record<string, string>;
+const shaderFiles = new Map(Object.entries(shaderSources).map(([path, source]) => [source, path.replace(/^\.\.\//, "src/")]));
+
+/**
+ * Repo-relative path of a shader in src/shaders, also with snippets appended, e.g. by instancedShader(), or
+ * "inline shader" for generated sources.
+ */
+export function shaderFileName(source: string): string {
+    const exact = shaderFiles.get(source);
+    if (exact) {
+        return exact;
+    }
+    for (const [fileSource, fileName] of shaderFiles) {
+        if (source.startsWith(fileSource)) {
+            return fileName;
+        }
+    }
+    return "inline shader";
+}
+
+export function formatCompilationMessages(fileName: string, messages: readonly GPUCompilationMessage[]): string[] {
+    return messages.map(message => `${fileName}:${message.lineNum}:${message.linePos}: ${message.type}: ${message.message}`);
+}
+
+export function gpuErrorKind(error: GPUError): GpuErrorKind {
+    if (error instanceof GPUOutOfMemoryError) return "out-of-memory";
+    if (error instanceof GPUInternalError) return "internal";
+    return "validation";
+}
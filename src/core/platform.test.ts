@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { resolveRelativePath } from "./platform";
+
+const URL = "assets/models/crate/crate.mtl";
+
+describe("resolveRelativePath", () => {
+    it.each([
+        ["wood.png", "assets/models/crate/wood.png"],
+        ["./textures/../wood.png", "assets/models/crate/wood.png"],
+        ["..\\..\\wood.png", "assets/wood.png"],
+        ["/wood.png", "/wood.png"],
+        ["https://example.com/wood.png", "https://example.com/wood.png"],
+    ])("resolves %s", (path, expected) => {
+        expect(resolveRelativePath(path, URL)).toBe(expected);
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * Browser services the core depends on, behind interfaces so a headless backend (see src/testing/mock-gpu.ts)
+ * can stand in for them.
+ */
+export interface IFrameScheduler {
+    requestFrame(callback: () => void): number;
+    cancelFrame(handle: number): void;
+}
+
+export interface IAssetFetcher {
+    fetchText(url: string): Promise<string>;
+    fetchArrayBuffer(url: string): Promise<ArrayBuffer>;
+    fetchImageBitmap(url: string): Promise<ImageBitmap>;
+}
+
+export type DeviceProvider = () => Promise<GPUDevice>;
+
+export class AnimationFrameScheduler implements IFrameScheduler {
+    public requestFrame(callback: () => void): number {
+        return requestAnimationFrame(callback);
+    }
+
+    public cancelFrame(handle: number) {
+        cancelAnimationFrame(handle);
+    }
+}
+
+export class HttpAssetFetcher implements IAssetFetcher {
+    public async fetchText(url: string): Promise<string> {
+        return (await this._fetch(url)).text();
+    }
+
+    public async fetchArrayBuffer(url: string): Promise<ArrayBuffer> {
+        return (await this._fetch(url)).arrayBuffer();
+    }
+
+    public async fetchImageBitmap(url: string): Promise<ImageBitmap> {
+        return createImageBitmap(await (await this._fetch(url)).blob());
+    }
+
+    private async _fetch(url: string): Promise<Response> {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch "${url}": ${response.status} ${response.statusText}`);
+        }
+        return response;
+    }
+}
+
+/**
+ * Resolves a path found in an asset (e.g. a texture named by an MTL file) against the URL of that asset.
+ */
+export function resolveRelativePath(path: string, relativeTo: string): string {
+    // Exporters on Windows write backslashes
+    path = path.replace(/\\/g, "/");
+    if (path.startsWith("/") || /^[a-z][a-z0-9+.-]*:/i.test(path)) {
+        return path;
+    }
+    const directory = relativeTo.slice(0, relativeTo.lastIndexOf("/") + 1);
+    const segments: string[] = [];
+    for (const segment of (directory + path).split("/")) {
+        if (segment === ".." && segments.length > 0 && segments[segments.length - 1] !== "..") {
+            segments.pop();
+        } else if (segment !== ".") {
+            segments.push(segment);
+        }
+    }
+    return segments.join("/");
+}
+
+/**
+ * Requests a device from the browser's default adapter, with whichever of `optionalFeatures` the adapter has.
+ */
+export async function requestBrowserDevice(descriptor: GPUDeviceDescriptor = {}, optionalFeatures: GPUFeatureName[] = []): Promise<GPUDevice> {
+    if (!navigator.gpu) {
+        throw new Error("WebGPU not supported");
+    }
+    const adapter = await navigator.gpu.requestAdapter();
+    if (!adapter) {
+        throw new Error("Failed to get WebGPU adapter");
+    }
+    const requiredFeatures = [...(descriptor.requiredFeatures ?? []), ...optionalFeatures.filter(feature => adapter.features.has(feature))];
+    const device = await adapter.requestDevice({ ...descriptor, requiredFeatures });
+    if (!device) {
+        throw new Error("Failed to get WebGPU device");
+    }
+    return device;
+}
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createMockContext, type IMockContext } from "../testing/mock-context";
+import { RenderGraph } from "./render-graph";
+
+describe("RenderGraph", () => {
+    let mock: IMockContext;
+
+    beforeEach(async () => {
+        mock = await createMockContext({ msaa: 4 });
+        mock.webGpuContext.createScene();
+    });
+
+    afterEach(() => {
+        mock.webGpuContext.destroy();
+    });
+
+    it("orders passes by their dependencies rather than the order they were added in", () => {
+        const renderGraph = mock.webGpuContext.createRenderGraph()
+            .createTexture("color", { format: "rgba16float" })
+            .addPass({ name: "present", inputs: ["color"], colorAttachments: [{ texture: RenderGraph.BACKBUFFER }], execute: () => {} })
+            .addPass({ name: "scene", colorAttachments: [{ texture: "color" }], execute: () => {} });
+        renderGraph.execute();
+
+        expect(renderGraph.passOrder).toEqual(["scene", "present"]);
+        expect(mock.backend.recorder.lastSubmission!.passes.map(pass => pass.label)).toEqual(["scene", "present"]);
+    });
+
+    it("runs compute passes in dependency order and gives their outputs storage usage", () => {
+        const renderGraph = mock.webGpuContext.createRenderGraph()
+            .createTexture("color", { format: "rgba8unorm" })
+            .createTexture("filtered", { format: "rgba16float" })
+            .addPass({ name: "scene", colorAttachments: [{ texture: "color" }], execute: () => {} })
+            .addComputePass({
+                name: "filter",
+                inputs: ["color"],
+                storageOutputs: ["filtered"],
+                execute: passEncoder => passEncoder.dispatchWorkgroups(8, 8),
+            })
+            .addPass({ name: "present", inputs: ["filtered"], colorAttachments: [{ texture: RenderGraph.BACKBUFFER }], execute: () => {} });
+        renderGraph.execute();
+
+        const passes = mock.backend.recorder.lastSubmission!.passes;
+        expect(passes.map(pass => `${pass.type}:${pass.label}`)).toEqual(["render:scene", "compute:filter", "render:present"]);
+        const filter = passes[1];
+        expect(filter.type === "compute" && filter.dispatches.map(dispatch => dispatch.workgroups)).toEqual([[8, 8, 1]]);
+        const filtered = mock.backend.recorder.liveTextures.find(texture => texture.format === "rgba16float")!;
+        expect(filtered.usage & GPUTextureUsage.STORAGE_BINDING).toBeTruthy();
+    });
+
+    it("renders multisampled passes into MSAA targets that resolve into the graph's textures", () => {
+        mock.webGpuContext.createRenderGraph()
+            .createTexture("depth", { format: "depth24plus-stencil8" })
+            .addPass({
+                name: "scene",
+                colorAttachments: [{ texture: RenderGraph.BACKBUFFER }],
+                depthStencilAttachment: { texture: "depth" },
+                multisampled: true,
+                execute: () => {},
+            })
+            .execute();
+
+        const [pass] = mock.backend.recorder.lastSubmission!.passes;
+        expect(pass).toMatchObject({ type: "render", colorFormats: ["bgra8unorm"], resolveFormats: ["bgra8unorm"], depthFormat: "depth24plus-stencil8", sampleCount: 4 });
+    });
+
+    it("rejects passes using undeclared textures", () => {
+        const renderGraph = mock.webGpuContext.createRenderGraph();
+        expect(() => renderGraph.addPass({ name: "scene", colorAttachments: [{ texture: "color" }], execute: () => {} }))
+            .toThrow(`Render graph pass "scene" uses undeclared texture "color"`);
+    });
+});
@@ -0,0 +1,554 @@
+import type { ResourceTracker } from "./resource-tracker";
+import type { FrameProfiler } from "./frame-profiler";
+
+export type RenderGraphTextureSize = "canvas" | { width: number, height: number };
+
+export interface IRenderGraphTextureDesc {
+    format: GPUTextureFormat;
+    size?: RenderGraphTextureSize;
+}
+
+export interface IRenderGraphColorAttachment {
+    texture: string;
+    // Attachments without a clear value load the previous contents
+    clearValue?: GPUColor;
+}
+
+export interface IRenderGraphDepthAttachment {
+    texture: string;
+    depthClearValue?: number;
+}
+
+export interface IRenderGraphPass {
+    name: string;
+    inputs?: string[];
+    colorAttachments: IRenderGraphColorAttachment[];
+    depthStencilAttachment?: IRenderGraphDepthAttachment;
+    /**
+     * Render at the graph's sample count. Color attachments are drawn into persistent multisampled textures and
+     * resolved into the named textures, and the depth attachment is allocated multisampled. Pipelines must be
+     * created with resources.sampleCount.
+     */
+    multisampled?: boolean;
+    execute: (passEncoder: GPURenderPassEncoder, resources: RenderGraphResources) => void;
+}
+
+export interface IRenderGraphComputePass {
+    name: string;
+    inputs?: string[];
+    /** Textures the pass writes through storage texture bindings. They're allocated with STORAGE_BINDING usage. */
+    storageOutputs: string[];
+    execute: (passEncoder: GPUComputePassEncoder, resources: RenderGraphResources) => void;
+}
+
+type RenderGraphPass = IRenderGraphPass | IRenderGraphComputePass;
+
+function isComputePass(pass: RenderGraphPass): pass is IRenderGraphComputePass {
+    return "storageOutputs" in pass;
+}
+
+interface IRenderGraphTexture {
+    name: string;
+    desc?: IRenderGraphTextureDesc;
+    source?: () => GPUTexture;
+}
+
+interface IPhysicalTexture {
+    key: string;
+    texture: GPUTexture;
+}
+
+interface IMultisampleTarget {
+    texture: GPUTexture;
+    view: GPUTextureView;
+}
+
+interface IColorAttachmentPlan {
+    // Resolve into the named texture. Skipped when the next pass to touch it is a multisampled pass loading it.
+    resolve: boolean;
+    // Keep the multisampled contents for a later multisampled pass that loads them.
+    store: boolean;
+}
+
+interface ICompiledRenderGraph {
+    order: RenderGraphPass[];
+    canvasWidth: number;
+    canvasHeight: number;
+    colorPlans: Map<IRenderGraphPass, IColorAttachmentPlan[]>;
+    // Depth attachments whose contents nothing reads or loads afterwards
+    discardDepth: Set<IRenderGraphPass>;
+}
+
+export class RenderGraphResources {
+    private _textures: Map<string, GPUTexture>;
+    private _views: Map<string, GPUTextureView>;
+    private _sampleCount: number;
+
+    constructor() {
+        this._textures = new Map();
+        this._views = new Map();
+        this._sampleCount = 1;
+    }
+
+    /**
+     * Sample count of the pass being executed, for createPipeline().
+     */
+    public get sampleCount(): number {
+        return this._sampleCount;
+    }
+
+    public beginPass(sampleCount: number) {
+        this._sampleCount = sampleCount;
+    }
+
+    public getTexture(name: string): GPUTexture {
+        const texture = this._textures.get(name);
+        if (!texture) {
+            throw new Error(`Render graph texture "${name}" is not allocated`);
+        }
+        return texture;
+    }
+
+    public getView(name: string, descriptor?: GPUTextureViewDescriptor): GPUTextureView {
+        const key = descriptor ? `${name}:${JSON.stringify(descriptor)}` : name;
+        let view = this._views.get(key);
+        if (!view) {
+            view = this.getTexture(name).createView(descriptor);
+            this._views.set(key, view);
+        }
+        return view;
+    }
+
+    public bind(name: string, texture: GPUTexture) {
+        if (this._textures.get(name) === texture) {
+            return;
+        }
+        this._textures.set(name, texture);
+        for (const key of [...this._views.keys()]) {
+            if (key === name || key.startsWith(`${name}:`)) {
+                this._views.delete(key);
+            }
+        }
+    }
+}
+
+/**
+ * Declarative frame description. Passes name the textures they read and write, the graph orders them,
+ * drops passes that never reach an imported texture, allocates transient textures (aliasing the ones whose
+ * lifetimes don't overlap) and records the whole frame into a single command encoder.
+ */
+export class RenderGraph {
+    public static BACKBUFFER = "backbuffer";
+
+    private _tracker: ResourceTracker;
+    private _getCanvasSize: () => { width: number, height: number };
+    private _sampleCount: number;
+    private _textures: Map<string, IRenderGraphTexture>;
+    private _passes: RenderGraphPass[];
+    private _pool: IPhysicalTexture[];
+    private _multisampleTargets: Map<string, IMultisampleTarget>;
+    private _resources: RenderGraphResources;
+    private _compiled?: ICompiledRenderGraph;
+    private _profiler?: FrameProfiler;
+
+    constructor(tracker: ResourceTracker, getCanvasSize: () => { width: number, height: number }, sampleCount: number = 1, profiler?: FrameProfiler) {
+        this._tracker = tracker;
+        this._getCanvasSize = getCanvasSize;
+        this._sampleCount = sampleCount;
+        this._profiler = profiler;
+        this._textures = new Map();
+        this._passes = [];
+        this._pool = [];
+        this._multisampleTargets = new Map();
+        this._resources = new RenderGraphResources();
+    }
+
+    /**
+     * Sample count used by passes that set `multisampled`.
+     */
+    public get sampleCount(): number {
+        return this._sampleCount;
+    }
+
+    public get passOrder(): string[] {
+        return this._compiled ? this._compiled.order.map(pass => pass.name) : [];
+    }
+
+    public createTexture(name: string, desc: IRenderGraphTextureDesc): this {
+        this._addTexture({ name, desc });
+        return this;
+    }
+
+    public importTexture(name: string, source: () => GPUTexture): this {
+        this._addTexture({ name, source });
+        return this;
+    }
+
+    public addPass(pass: IRenderGraphPass): this {
+        this._addPass(pass);
+        return this;
+    }
+
+    /**
+     * Adds a compute pass, which reads its inputs like a render pass and writes its storage outputs through
+     * texture_storage_2d bindings. Storage outputs can't be multisampled.
+     */
+    public addComputePass(pass: IRenderGraphComputePass): this {
+        this._addPass(pass);
+        return this;
+    }
+
+    public compile() {
+        const order = this._sortPasses();
+        const sampleCounts = this._resolveSampleCounts(order);
+        const { width, height } = this._getCanvasSize();
+        this._compiled = { order, canvasWidth: width, canvasHeight: height, ...this._planAttachments(order) };
+        this._allocate(order, sampleCounts, width, height);
+    }
+
+    /**
+     * Reallocates canvas-sized textures for the current canvas size. Graphs that haven't been compiled yet
+     * allocate on their first execute() instead.
+     */
+    public resize() {
+        if (this._compiled) {
+            this.compile();
+        }
+    }
+
+    public execute() {
+        const { width, height } = this._getCanvasSize();
+        if (!this._compiled || this._compiled.canvasWidth !== width || this._compiled.canvasHeight !== height) {
+            this.compile();
+        }
+
+        for (const texture of this._textures.values()) {
+            if (texture.source) {
+                this._resources.bind(texture.name, texture.source());
+            }
+        }
+
+        const profiler = this._profiler?.enabled ? this._profiler : undefined;
+        profiler?.beginFrame();
+        const device = this._tracker.device;
+        const commandEncoder = device.createCommandEncoder();
+        for (const pass of this._compiled!.order) {
+            if (isComputePass(pass)) {
+                const descriptor: GPUComputePassDescriptor = { label: pass.name };
+                profiler?.beginPass(pass.name, descriptor);
+                const passEncoder = commandEncoder.beginComputePass(descriptor);
+                this._resources.beginPass(1);
+                pass.execute(passEncoder, this._resources);
+                passEncoder.end();
+                profiler?.endPass();
+                continue;
+            }
+            const descriptor = this._createRenderPassDescriptor(pass);
+            profiler?.beginPass(pass.name, descriptor);
+            const passEncoder = commandEncoder.beginRenderPass(descriptor);
+            this._resources.beginPass(this._passSampleCount(pass));
+            pass.execute(profiler ? profiler.countDraws(passEncoder) : passEncoder, this._resources);
+            passEncoder.end();
+            profiler?.endPass();
+        }
+        profiler?.resolveTimestamps(commandEncoder);
+        device.queue.submit([commandEncoder.finish()]);
+        profiler?.endFrame();
+    }
+
+    public destroy() {
+        for (const physical of this._pool) {
+            this._tracker.destroy(physical.texture);
+        }
+        this._pool = [];
+        for (const target of this._multisampleTargets.values()) {
+            this._tracker.destroy(target.texture);
+        }
+        this._multisampleTargets.clear();
+        this._compiled = undefined;
+    }
+
+    private _addTexture(texture: IRenderGraphTexture) {
+        if (this._textures.has(texture.name)) {
+            throw new Error(`Render graph already has a texture named "${texture.name}"`);
+        }
+        this._textures.set(texture.name, texture);
+        this._compiled = undefined;
+    }
+
+    private _addPass(pass: RenderGraphPass) {
+        if (this._passes.some(p => p.name === pass.name)) {
+            throw new Error(`Render graph already has a pass named "${pass.name}"`);
+        }
+        for (const name of [...(pass.inputs ?? []), ...this._writes(pass)]) {
+            if (!this._textures.has(name)) {
+                throw new Error(`Render graph pass "${pass.name}" uses undeclared texture "${name}"`);
+            }
+        }
+        this._passes.push(pass);
+        this._compiled = undefined;
+    }
+
+    private _writes(pass: RenderGraphPass): string[] {
+        if (isComputePass(pass)) {
+            return [...pass.storageOutputs];
+        }
+        const writes = pass.colorAttachments.map(attachment => attachment.texture);
+        if (pass.depthStencilAttachment) {
+            writes.push(pass.depthStencilAttachment.texture);
+        }
+        return writes;
+    }
+
+    private _passSampleCount(pass: RenderGraphPass): number {
+        return !isComputePass(pass) && pass.multisampled ? this._sampleCount : 1;
+    }
+
+    /**
+     * Transient depth textures take the sample count of the passes that render into them. Color attachments are
+     * always single-sampled since multisampled passes resolve into them, and so are storage outputs.
+     */
+    private _resolveSampleCounts(order: RenderGraphPass[]): Map<string, number> {
+        const sampleCounts = new Map<string, number>();
+        const users = new Map<string, string>();
+        const recordUse = (name: string, sampleCount: number, pass: RenderGraphPass) => {
+            const previous = sampleCounts.get(name);
+            if (previous !== undefined && previous !== sampleCount) {
+                throw new Error(`Render graph texture "${name}" is used with ${previous} sample(s) by pass "${users.get(name)}" and ${sampleCount} by pass "${pass.name}"`);
+            }
+            sampleCounts.set(name, sampleCount);
+            users.set(name, pass.name);
+        };
+        for (const pass of order) {
+            if (isComputePass(pass)) {
+                for (const name of [...(pass.inputs ?? []), ...pass.storageOutputs]) {
+                    recordUse(name, 1, pass);
+                }
+                continue;
+            }
+            for (const name of [...(pass.inputs ?? []), ...pass.colorAttachments.map(attachment => attachment.texture)]) {
+                recordUse(name, 1, pass);
+            }
+            if (pass.depthStencilAttachment) {
+                const name = pass.depthStencilAttachment.texture;
+                if (this._passSampleCount(pass) > 1 && this._textures.get(name)!.source) {
+                    throw new Error(`Multisampled pass "${pass.name}" can't render into imported depth texture "${name}"`);
+                }
+                recordUse(name, this._passSampleCount(pass), pass);
+            }
+        }
+        return sampleCounts;
+    }
+
+    private _planAttachments(order: RenderGraphPass[]): Pick<ICompiledRenderGraph, "colorPlans" | "discardDepth"> {
+        const colorPlans = new Map<IRenderGraphPass, IColorAttachmentPlan[]>();
+        const discardDepth = new Set<IRenderGraphPass>();
+        order.forEach((pass, index) => {
+            if (isComputePass(pass)) {
+                return;
+            }
+            const later = order.slice(index + 1);
+            const touches = (other: RenderGraphPass, name: string) =>
+                (other.inputs ?? []).includes(name) || this._writes(other).includes(name);
+            const loadsMultisampled = (other: RenderGraphPass, name: string) => !isComputePass(other)
+                && other.multisampled === true && other.colorAttachments.some(attachment => attachment.texture === name && !attachment.clearValue);
+
+            if (this._passSampleCount(pass) > 1) {
+                colorPlans.set(pass, pass.colorAttachments.map(attachment => {
+                    const next = later.find(other => touches(other, attachment.texture));
+                    const resolve = !next || !loadsMultisampled(next, attachment.texture) || (next.inputs ?? []).includes(attachment.texture);
+                    const store = later.some(other => loadsMultisampled(other, attachment.texture));
+                    return { resolve, store };
+                }));
+            }
+
+            const depth = pass.depthStencilAttachment?.texture;
+            if (depth && !this._textures.get(depth)!.source && !later.some(other => touches(other, depth))) {
+                discardDepth.add(pass);
+            }
+        });
+        return { colorPlans, discardDepth };
+    }
+
+    /**
+     * Persistent multisampled stand-in for a color attachment, recreated when the resolve target changes size or format.
+     */
+    private _getMultisampleTarget(name: string): IMultisampleTarget {
+        const resolveTarget = this._resources.getTexture(name);
+        let target = this._multisampleTargets.get(name);
+        if (target && (target.texture.width !== resolveTarget.width || target.texture.height !== resolveTarget.height
+            || target.texture.format !== resolveTarget.format || target.texture.sampleCount !== this._sampleCount)) {
+            this._tracker.destroy(target.texture);
+            target = undefined;
+        }
+        if (!target) {
+            const texture = this._tracker.createTexture({
+                label: `${name} (${this._sampleCount}x MSAA)`,
+                size: { width: resolveTarget.width, height: resolveTarget.height },
+                format: resolveTarget.format,
+                sampleCount: this._sampleCount,
+                usage: GPUTextureUsage.RENDER_ATTACHMENT,
+            });
+            target = { texture, view: texture.createView() };
+            this._multisampleTargets.set(name, target);
+        }
+        return target;
+    }
+
+    // Readers depend on every writer of a texture, and writers of the same texture keep their declaration order.
+    private _sortPasses(): RenderGraphPass[] {
+        const dependencies = new Map<RenderGraphPass, Set<RenderGraphPass>>();
+        const writers = new Map<string, RenderGraphPass[]>();
+        for (const pass of this._passes) {
+            dependencies.set(pass, new Set());
+            for (const name of this._writes(pass)) {
+                const textureWriters = writers.get(name) ?? [];
+                for (const previous of textureWriters) {
+                    dependencies.get(pass)!.add(previous);
+                }
+                textureWriters.push(pass);
+                writers.set(name, textureWriters);
+            }
+        }
+        for (const pass of this._passes) {
+            for (const name of pass.inputs ?? []) {
+                for (const writer of writers.get(name) ?? []) {
+                    if (writer !== pass) {
+                        dependencies.get(pass)!.add(writer);
+                    }
+                }
+            }
+        }
+
+        // Only passes that eventually write an imported texture contribute to the frame
+        const live = new Set<RenderGraphPass>();
+        const stack = this._passes.filter(pass => this._writes(pass).some(name => this._textures.get(name)!.source));
+        while (stack.length > 0) {
+            const pass = stack.pop()!;
+            if (live.has(pass)) {
+                continue;
+            }
+            live.add(pass);
+            stack.push(...dependencies.get(pass)!);
+        }
+
+        const order: RenderGraphPass[] = [];
+        const remaining = this._passes.filter(pass => live.has(pass));
+        while (remaining.length > 0) {
+            const index = remaining.findIndex(pass => [...dependencies.get(pass)!].every(dep => order.includes(dep)));
+            if (index < 0) {
+                throw new Error(`Render graph has a dependency cycle involving pass "${remaining[0].name}"`);
+            }
+            order.push(remaining[index]);
+            remaining.splice(index, 1);
+        }
+        return order;
+    }
+
+    private _allocate(order: RenderGraphPass[], sampleCounts: Map<string, number>, canvasWidth: number, canvasHeight: number) {
+        const firstUse = new Map<string, number>();
+        const lastUse = new Map<string, number>();
+        const storage = new Set(order.flatMap(pass => isComputePass(pass) ? pass.storageOutputs : []));
+        order.forEach((pass, index) => {
+            for (const name of [...(pass.inputs ?? []), ...this._writes(pass)]) {
+                if (this._textures.get(name)!.source) {
+                    continue;
+                }
+                if (!firstUse.has(name)) {
+                    firstUse.set(name, index);
+                }
+                lastUse.set(name, index);
+            }
+        });
+
+        const free = [...this._pool];
+        const used: IPhysicalTexture[] = [];
+        for (let index = 0; index < order.length; index++) {
+            for (const [name, first] of firstUse) {
+                if (first !== index) {
+                    continue;
+                }
+                const desc = this._textures.get(name)!.desc!;
+                const size = desc.size === undefined || desc.size === "canvas" ? { width: canvasWidth, height: canvasHeight } : desc.size;
+                const sampleCount = sampleCounts.get(name) ?? 1;
+                const usage = GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING | (storage.has(name) ? GPUTextureUsage.STORAGE_BINDING : 0);
+                const key = `${desc.format}|${size.width}x${size.height}|${sampleCount}|${usage}`;
+
+                const freeIndex = free.findIndex(physical => physical.key === key);
+                let physical: IPhysicalTexture;
+                if (freeIndex >= 0) {
+                    physical = free.splice(freeIndex, 1)[0];
+                } else {
+                    physical = {
+                        key,
+                        texture: this._tracker.createTexture({
+                            label: name,
+                            size,
+                            format: desc.format,
+                            sampleCount,
+                            usage,
+                        }),
+                    };
+                }
+                used.push(physical);
+                this._resources.bind(name, physical.texture);
+            }
+            for (const [name, last] of lastUse) {
+                if (last !== index) {
+                    continue;
+                }
+                const physical = used.find(p => p.texture === this._resources.getTexture(name))!;
+                free.push(physical);
+            }
+        }
+
+        // Textures from a previous allocation that nothing maps to anymore (e.g. after a resize)
+        const retained = new Set(used);
+        for (const physical of this._pool) {
+            if (!retained.has(physical)) {
+                this._tracker.destroy(physical.texture);
+            }
+        }
+        this._pool = [...retained];
+    }
+
+    private _createRenderPassDescriptor(pass: IRenderGraphPass): GPURenderPassDescriptor {
+        const colorPlans = this._compiled!.colorPlans.get(pass);
+        const colorAttachments: GPURenderPassColorAttachment[] = pass.colorAttachments.map((attachment, index) => {
+            const colorAttachment: GPURenderPassColorAttachment = {
+                view: this._resources.getView(attachment.texture),
+                clearValue: attachment.clearValue,
+                loadOp: attachment.clearValue ? "clear" : "load",
+                storeOp: "store",
+            };
+            if (colorPlans) {
+                const { resolve, store } = colorPlans[index];
+                colorAttachment.view = this._getMultisampleTarget(attachment.texture).view;
+                colorAttachment.resolveTarget = resolve ? this._resources.getView(attachment.texture) : undefined;
+                colorAttachment.storeOp = store ? "store" : "discard";
+            }
+            return colorAttachment;
+        });
+
+        const renderPassDescriptor: GPURenderPassDescriptor = { label: pass.name, colorAttachments };
+
+        if (pass.depthStencilAttachment) {
+            const { texture, depthClearValue } = pass.depthStencilAttachment;
+            const storeOp: GPUStoreOp = this._compiled!.discardDepth.has(pass) ? "discard" : "store";
+            const depthStencilAttachment: GPURenderPassDepthStencilAttachment = {
+                view: this._resources.getView(texture),
+                depthClearValue: depthClearValue ?? 1,
+                depthLoadOp: depthClearValue === undefined ? "load" : "clear",
+                depthStoreOp: storeOp,
+            };
+            if (this._resources.getTexture(texture).format.includes("stencil")) {
+                depthStencilAttachment.stencilClearValue = 0;
+                depthStencilAttachment.stencilLoadOp = depthClearValue === undefined ? "load" : "clear";
+                depthStencilAttachment.stencilStoreOp = storeOp;
+            }
+            renderPassDescriptor.depthStencilAttachment = depthStencilAttachment;
+        }
+
+        return renderPassDescriptor;
+    }
+}
@@ -0,0 +1,73 @@
+export interface IResourceCounts {
+    buffers: number;
+    textures: number;
+}
+
+type TrackedResource = GPUBuffer | GPUTexture;
+
+/**
+ * Creates buffers and textures and counts the ones that are still alive. While a scope is open every new
+ * resource is also added to it, so the owner of the scope (the active scene) can destroy them all at once.
+ */
+export class ResourceTracker {
+    private _device: GPUDevice;
+    private _buffers: Set<GPUBuffer>;
+    private _textures: Set<GPUTexture>;
+    private _created: IResourceCounts;
+    private _scope?: Set<TrackedResource>;
+
+    constructor(device: GPUDevice) {
+        this._device = device;
+        this._buffers = new Set();
+        this._textures = new Set();
+        this._created = { buffers: 0, textures: 0 };
+    }
+
+    public get device(): GPUDevice {
+        return this._device;
+    }
+
+    public get counts(): IResourceCounts {
+        return { buffers: this._buffers.size, textures: this._textures.size };
+    }
+
+    /**
+     * Buffers and textures created by this tracker so far, including destroyed ones.
+     */
+    public get created(): IResourceCounts {
+        return { ...this._created };
+    }
+
+    public createBuffer(descriptor: GPUBufferDescriptor): GPUBuffer {
+        const buffer = this._device.createBuffer(descriptor);
+        this._buffers.add(buffer);
+        this._created.buffers++;
+        this._scope?.add(buffer);
+        return buffer;
+    }
+
+    public createTexture(descriptor: GPUTextureDescriptor): GPUTexture {
+        const texture = this._device.createTexture(descriptor);
+        this._textures.add(texture);
+        this._created.textures++;
+        this._scope?.add(texture);
+        return texture;
+    }
+
+    public destroy(resource: TrackedResource) {
+        resource.destroy();
+        this._buffers.delete(resource as GPUBuffer);
+        this._textures.delete(resource as GPUTexture);
+        this._scope?.delete(resource);
+    }
+
+    public openScope(scope: Set<TrackedResource>) {
+        this._scope = scope;
+    }
+
+    public closeScope(scope: Set<TrackedResource>) {
+        if (this._scope === scope) {
+            this._scope = undefined;
+        }
+    }
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockContext, type IMockContext } from "../testing/mock-context";
+import renderWatercolorScene from "../scenes/watercolor";
+
+describe("Scene", () => {
+    let mock: IMockContext;
+
+    beforeEach(async () => {
+        mock = await createMockContext();
+    });
+
+    afterEach(() => {
+        mock.webGpuContext.destroy();
+    });
+
+    it("destroys the resources created while it was active when disposed", async () => {
+        const { backend, webGpuContext } = mock;
+        const before = webGpuContext.resourceCounts;
+        const scene = await webGpuContext.runScene(renderWatercolorScene);
+        await backend.frameScheduler.step(2);
+        expect(webGpuContext.resourceCounts.buffers).toBeGreaterThan(before.buffers);
+
+        scene.dispose();
+        expect(webGpuContext.resourceCounts).toEqual(before);
+        expect(backend.recorder.liveBuffers).toHaveLength(before.buffers);
+    });
+
+    it("stops rendering when disposed", async () => {
+        const { backend, webGpuContext } = mock;
+        const scene = await webGpuContext.runScene(renderWatercolorScene);
+        await backend.frameScheduler.step();
+        scene.dispose();
+        backend.recorder.clearSubmissions();
+
+        await backend.frameScheduler.step(2);
+        expect(backend.recorder.submissions).toHaveLength(0);
+    });
+
+    it("runs dispose handlers in reverse order, and right away once disposed", () => {
+        const scene = mock.webGpuContext.createScene();
+        const calls: string[] = [];
+        scene.onDispose(() => calls.push("first"));
+        scene.onDispose(() => calls.push("second"));
+        scene.dispose();
+        expect(calls).toEqual(["second", "first"]);
+
+        const late = vi.fn();
+        scene.onDispose(late);
+        expect(late).toHaveBeenCalledOnce();
+    });
+
+    it("releases what a scene finished loading after it was replaced", async () => {
+        const { backend, webGpuContext } = mock;
+        const loading = webGpuContext.runScene(renderWatercolorScene);
+        // Replaces the loading scene, e.g. the user picked another effect
+        const next = webGpuContext.createScene();
+        const counts = webGpuContext.resourceCounts;
+
+        const replaced = await loading;
+        await backend.frameScheduler.step(2);
+        expect(webGpuContext.resourceCounts).toEqual(counts);
+        expect(backend.recorder.submissions).toHaveLength(0);
+
+        replaced.dispose();
+        next.dispose();
+    });
+});
@@ -0,0 +1,197 @@
+import type { IResourceCounts, ResourceTracker } from "./resource-tracker";
+import type { IFrameScheduler } from "./platform";
+
+export type SceneResizeListener = (width: number, height: number) => void;
+
+export interface ISceneHandle {
+    stop(): void;
+    dispose(): void;
+    /** Points the camera at the scene's object, if the scene has one. */
+    frameObject(): void;
+}
+
+/**
+ * Owns everything a running scene needs torn down: its frame loop, its input handlers and the GPU resources
+ * created while it was the active scene.
+ */
+export class Scene implements ISceneHandle {
+    private _tracker: ResourceTracker;
+    private _frameScheduler: IFrameScheduler;
+    private _resources: Set<GPUBuffer | GPUTexture>;
+    private _baseline: IResourceCounts;
+    private _disposers: (() => void)[];
+    private _resizeListeners: SceneResizeListener[];
+    private _frameObjectListeners: (() => void)[];
+    private _frame?: () => void | Promise<void>;
+    private _continuous: boolean;
+    private _frameRequest?: number;
+    private _frameInFlight: boolean;
+    private _framePending: boolean;
+    private _stopped: boolean;
+    private _disposed: boolean;
+    private _abortController: AbortController;
+
+    constructor(tracker: ResourceTracker, frameScheduler: IFrameScheduler) {
+        this._tracker = tracker;
+        this._frameScheduler = frameScheduler;
+        this._resources = new Set();
+        this._baseline = tracker.counts;
+        this._disposers = [];
+        this._resizeListeners = [];
+        this._frameObjectListeners = [];
+        this._continuous = false;
+        this._frameInFlight = false;
+        this._framePending = false;
+        this._stopped = false;
+        this._disposed = false;
+        this._abortController = new AbortController();
+        this._tracker.openScope(this._resources);
+    }
+
+    public get disposed(): boolean {
+        return this._disposed;
+    }
+
+    /**
+     * Aborted when the scene is disposed. Asset loads started while the scene is active reject with its reason
+     * then, so a factory that is still loading when its scene is replaced stops at its next await.
+     */
+    public get signal(): AbortSignal {
+        return this._abortController.signal;
+    }
+
+    /**
+     * Renders `frame` once per animation frame until the scene is stopped.
+     */
+    public startFrameLoop(frame: () => void | Promise<void>) {
+        this._frame = frame;
+        this._continuous = true;
+        this.requestFrame();
+    }
+
+    /**
+     * Renders `frame` whenever requestFrame() is called, e.g. for scenes that only change on input.
+     */
+    public setFrame(frame: () => void | Promise<void>) {
+        this._frame = frame;
+        this._continuous = false;
+        this.requestFrame();
+    }
+
+    public requestFrame() {
+        if (this._stopped || !this._frame || this._frameRequest !== undefined) {
+            return;
+        }
+        if (this._frameInFlight) {
+            // Rendered as soon as the current frame finishes, so a request made mid-frame isn't lost
+            this._framePending = true;
+            return;
+        }
+        this._frameRequest = this._frameScheduler.requestFrame(this._tick);
+    }
+
+    /**
+     * Renders one frame right away, outside the animation frame schedule, e.g. into an offscreen target.
+     */
+    public async renderFrame() {
+        if (this._disposed || !this._frame) {
+            return;
+        }
+        await this._frame();
+    }
+
+    /**
+     * Runs `disposer` when the scene is disposed, or right away if it already is, e.g. when a scene that was
+     * still loading has been replaced.
+     */
+    public onDispose(disposer: () => void) {
+        if (this._disposed) {
+            disposer();
+            return;
+        }
+        this._disposers.push(disposer);
+    }
+
+    /**
+     * Called with the new backbuffer size in device pixels whenever the canvas is resized, e.g. to update the
+     * projection. A frame is requested afterwards, so on-demand scenes redraw at the new size too.
+     */
+    public onResize(listener: SceneResizeListener) {
+        this._resizeListeners.push(listener);
+    }
+
+    /**
+     * Invoked by WebGPUContext after the canvas has been resized and reconfigured.
+     */
+    public resize(width: number, height: number) {
+        if (this._disposed) {
+            return;
+        }
+        for (const listener of this._resizeListeners) {
+            listener(width, height);
+        }
+        this.requestFrame();
+    }
+
+    /**
+     * Called when the user asks to frame the object, e.g. to fit the camera to the model's bounds. A frame is
+     * requested afterwards.
+     */
+    public onFrameObject(listener: () => void) {
+        this._frameObjectListeners.push(listener);
+    }
+
+    public frameObject() {
+        if (this._disposed) {
+            return;
+        }
+        for (const listener of this._frameObjectListeners) {
+            listener();
+        }
+        this.requestFrame();
+    }
+
+    public stop() {
+        this._stopped = true;
+        if (this._frameRequest !== undefined) {
+            this._frameScheduler.cancelFrame(this._frameRequest);
+            this._frameRequest = undefined;
+        }
+    }
+
+    public dispose() {
+        if (this._disposed) {
+            return;
+        }
+        this.stop();
+        this._disposed = true;
+        this._abortController.abort();
+        this._tracker.closeScope(this._resources);
+
+        for (const disposer of this._disposers.reverse()) {
+            disposer();
+        }
+        for (const resource of [...this._resources]) {
+            this._tracker.destroy(resource);
+        }
+
+        const counts = this._tracker.counts;
+        if (counts.buffers > this._baseline.buffers || counts.textures > this._baseline.textures) {
+            console.warn(`Scene leaked ${counts.buffers - this._baseline.buffers} buffers and ${counts.textures - this._baseline.textures} textures`);
+        }
+    }
+
+    private _tick = async () => {
+        this._frameRequest = undefined;
+        this._frameInFlight = true;
+        try {
+            await this._frame!();
+        } finally {
+            this._frameInFlight = false;
+        }
+        if (this._continuous || this._framePending) {
+            this._framePending = false;
+            this.requestFrame();
+        }
+    }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { paddedBytesPerRow, unpadRows } from "./texture-readback";
+
+describe("texture readback", () => {
+    it.each([
+        [4, 256],
+        [256, 256],
+        [257, 512],
+        [640 * 4, 2560],
+    ])("pads rows of %i bytes to %i", (rowBytes, bytesPerRow) => {
+        expect(paddedBytesPerRow(rowBytes)).toBe(bytesPerRow);
+    });
+
+    it("drops the padding at the end of every row", () => {
+        // Two rows of 3 texels (12 bytes) in a buffer with a row pitch of 256
+        const padded = new Uint8Array(512).fill(255);
+        padded.set([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], 0);
+        padded.set([13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24], 256);
+
+        expect(Array.from(unpadRows(padded, 12, 256, 2))).toEqual(Array.from({ length: 24 }, (_, i) => i + 1));
+    });
+});
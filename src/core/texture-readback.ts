@@ -0,0 +1,37 @@
+import { alignTo } from "./uniform-struct";
+
+// copyTextureToBuffer needs every row to start at a multiple of this many bytes
+const ROW_ALIGNMENT = 256;
+
+export const BYTES_PER_TEXEL: Partial<Record<GPUTextureFormat, number>> = {
+    "r8unorm": 1,
+    "rg8unorm": 2,
+    "rgba8unorm": 4,
+    "rgba8unorm-srgb": 4,
+    "bgra8unorm": 4,
+    "bgra8unorm-srgb": 4,
+    "r16float": 2,
+    "rg16float": 4,
+    "rgba16float": 8,
+    "r32float": 4,
+    "rg32float": 8,
+    "rgba32float": 16,
+};
+
+/**
+ * Row pitch of a buffer that a texture with rows of `rowBytes` can be copied into.
+ */
+export function paddedBytesPerRow(rowBytes: number): number {
+    return alignTo(rowBytes, ROW_ALIGNMENT);
+}
+
+/**
+ * Packs `rows` rows of `rowBytes` that are `bytesPerRow` apart in `padded` tightly, row by row.
+ */
+export function unpadRows(padded: Uint8Array, rowBytes: number, bytesPerRow: number, rows: number): Uint8Array {
+    const pixels = new Uint8Array(rowBytes * rows);
+    for (let row = 0; row < rows; row++) {
+        pixels.set(padded.subarray(row * bytesPerRow, row * bytesPerRow + rowBytes), row * rowBytes);
+    }
+    return pixels;
+}
@@ -0,0 +1,76 @@
+import type { ResourceTracker } from "./resource-tracker";
+import { alignTo } from "./uniform-struct";
+
+export interface IUniformAllocation {
+    buffer: GPUBuffer;
+    offset: number;
+    size: number;
+}
+
+/**
+ * Per-frame uniform storage. Allocations are sub-ranges of a small set of persistent buffers, bound with
+ * dynamic offsets and filled through queue.writeBuffer. beginFrame() rewinds to the first buffer, so the same
+ * buffers are reused every frame instead of allocating new ones.
+ */
+export class UniformAllocator {
+    private static CHUNK_SIZE = 64 * 1024;
+
+    private _tracker: ResourceTracker;
+    private _alignment: number;
+    private _chunks: GPUBuffer[];
+    private _chunkIndex: number;
+    private _offset: number;
+
+    constructor(tracker: ResourceTracker) {
+        this._tracker = tracker;
+        this._alignment = tracker.device.limits.minUniformBufferOffsetAlignment;
+        this._chunks = [];
+        this._chunkIndex = 0;
+        this._offset = 0;
+    }
+
+    public get bufferCount(): number {
+        return this._chunks.length;
+    }
+
+    public beginFrame() {
+        this._chunkIndex = 0;
+        this._offset = 0;
+    }
+
+    public allocate(data: ArrayBuffer | ArrayBufferView): IUniformAllocation {
+        const size = data.byteLength;
+        if (size > UniformAllocator.CHUNK_SIZE) {
+            throw new Error(`Uniform allocation of ${size} bytes exceeds the ${UniformAllocator.CHUNK_SIZE} byte chunk size`);
+        }
+
+        if (this._offset + size > UniformAllocator.CHUNK_SIZE) {
+            this._chunkIndex++;
+            this._offset = 0;
+        }
+        if (this._chunkIndex === this._chunks.length) {
+            this._chunks.push(this._tracker.createBuffer({
+                label: `uniform chunk ${this._chunkIndex}`,
+                size: UniformAllocator.CHUNK_SIZE,
+                usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+            }));
+        }
+
+        const allocation = { buffer: this._chunks[this._chunkIndex], offset: this._offset, size };
+        if (ArrayBuffer.isView(data)) {
+            this._tracker.device.queue.writeBuffer(allocation.buffer, allocation.offset, data.buffer, data.byteOffset, size);
+        } else {
+            this._tracker.device.queue.writeBuffer(allocation.buffer, allocation.offset, data);
+        }
+        this._offset = alignTo(this._offset + size, this._alignment);
+        return allocation;
+    }
+
+    public destroy() {
+        for (const chunk of this._chunks) {
+            this._tracker.destroy(chunk);
+        }
+        this._chunks = [];
+        this.beginFrame();
+    }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { UniformStructLayout, type WgslUniformType } from "./uniform-struct";
+
+const LAYOUTS: { fields: Record<string, WgslUniformType>, offsets: number[], size: number }[] = [
+    { fields: { a: "f32", b: "vec3f" }, offsets: [0, 16], size: 32 },
+    { fields: { a: "vec3f", b: "f32" }, offsets: [0, 12], size: 16 },
+    { fields: { a: "f32", b: "vec2f", c: "f32" }, offsets: [0, 8, 16], size: 32 },
+    { fields: { a: "mat4x4f", b: "mat3x3f", c: "u32" }, offsets: [0, 64, 112], size: 128 },
+];
+
+describe("UniformStructLayout", () => {
+    it.each(LAYOUTS)("lays out $fields with WGSL alignment and padding", ({ fields, offsets, size }) => {
+        const layout = new UniformStructLayout(fields);
+        expect(Object.keys(fields).map(name => layout.offsetOf(name))).toEqual(offsets);
+        expect(layout.size).toBe(size);
+    });
+
+    it("rejects unknown fields", () => {
+        expect(() => new UniformStructLayout({ a: "f32" }).offsetOf("b")).toThrow(`Uniform struct has no field named "b"`);
+    });
+});
+
+describe("UniformStructWriter", () => {
+    it("writes each field at its offset with its scalar type", () => {
+        const writer = new UniformStructLayout({ scale: "f32", color: "vec3f", count: "u32", offset: "i32" }).createWriter()
+            .set("scale", 0.5)
+            .set("color", [1, 2, 3])
+            .set("count", 7)
+            .set("offset", -2);
+        const data = writer.data;
+
+        expect(new Float32Array(data, 0, 1)[0]).toBe(0.5);
+        expect(Array.from(new Float32Array(data, 16, 3))).toEqual([1, 2, 3]);
+        expect(new Uint32Array(data, 28, 1)[0]).toBe(7);
+        expect(new Int32Array(data, 32, 1)[0]).toBe(-2);
+    });
+
+    it("pads each mat3x3f column to 16 bytes, taking the upper-left 3x3 of a mat4", () => {
+        const mat4 = [1, 2, 3, 0, 4, 5, 6, 0, 7, 8, 9, 0, 0, 0, 0, 1];
+        const data = new UniformStructLayout({ normal: "mat3x3f" }).createWriter().set("normal", mat4).data;
+        expect(Array.from(new Float32Array(data))).toEqual([1, 2, 3, 0, 4, 5, 6, 0, 7, 8, 9, 0]);
+    });
+});
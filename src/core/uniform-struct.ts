@@ -0,0 +1,119 @@
+export type WgslUniformType = "f32" | "i32" | "u32" | "vec2f" | "vec3f" | "vec4f" | "mat3x3f" | "mat4x4f";
+
+interface IWgslTypeLayout {
+    align: number;
+    size: number;
+    scalar: "f32" | "i32" | "u32";
+}
+
+// Alignment and size of each type in the uniform address space (WGSL spec, "Memory Layout")
+const TYPE_LAYOUTS: Record<WgslUniformType, IWgslTypeLayout> = {
+    f32: { align: 4, size: 4, scalar: "f32" },
+    i32: { align: 4, size: 4, scalar: "i32" },
+    u32: { align: 4, size: 4, scalar: "u32" },
+    vec2f: { align: 8, size: 8, scalar: "f32" },
+    vec3f: { align: 16, size: 12, scalar: "f32" },
+    vec4f: { align: 16, size: 16, scalar: "f32" },
+    mat3x3f: { align: 16, size: 48, scalar: "f32" },
+    mat4x4f: { align: 16, size: 64, scalar: "f32" },
+};
+
+export function alignTo(value: number, alignment: number): number {
+    return Math.ceil(value / alignment) * alignment;
+}
+
+export interface IUniformField {
+    name: string;
+    type: WgslUniformType;
+    offset: number;
+}
+
+/**
+ * Byte layout of a WGSL struct in the uniform address space. Fields are laid out in declaration order,
+ * so the object passed in must list them in the same order as the shader.
+ */
+export class UniformStructLayout {
+    private _fields: Map<string, IUniformField>;
+    private _size: number;
+
+    constructor(fields: Record<string, WgslUniformType>) {
+        this._fields = new Map();
+        let offset = 0;
+        let structAlign = 16;
+        for (const [name, type] of Object.entries(fields)) {
+            const layout = TYPE_LAYOUTS[type];
+            offset = alignTo(offset, layout.align);
+            this._fields.set(name, { name, type, offset });
+            offset += layout.size;
+            structAlign = Math.max(structAlign, layout.align);
+        }
+        this._size = alignTo(offset, structAlign);
+    }
+
+    public get size(): number {
+        return this._size;
+    }
+
+    public offsetOf(name: string): number {
+        return this.getField(name).offset;
+    }
+
+    public createWriter(): UniformStructWriter {
+        return new UniformStructWriter(this);
+    }
+
+    public getField(name: string): IUniformField {
+        const field = this._fields.get(name);
+        if (!field) {
+            throw new Error(`Uniform struct has no field named "${name}"`);
+        }
+        return field;
+    }
+}
+
+export class UniformStructWriter {
+    private _layout: UniformStructLayout;
+    private _data: ArrayBuffer;
+    private _f32: Float32Array;
+    private _i32: Int32Array;
+    private _u32: Uint32Array;
+
+    constructor(layout: UniformStructLayout) {
+        this._layout = layout;
+        this._data = new ArrayBuffer(layout.size);
+        this._f32 = new Float32Array(this._data);
+        this._i32 = new Int32Array(this._data);
+        this._u32 = new Uint32Array(this._data);
+    }
+
+    public get data(): ArrayBuffer {
+        return this._data;
+    }
+
+    /**
+     * mat3x3f fields accept either a column-major mat3 or a mat4, whose upper-left 3x3 is used.
+     * Each column is written to its own 16-byte slot.
+     */
+    public set(name: string, value: number | ArrayLike<number>): this {
+        const field = this._layout.getField(name);
+        const index = field.offset / 4;
+        const values = typeof value === "number" ? [value] : value;
+
+        if (field.type === "mat3x3f") {
+            const stride = values.length === 16 ? 4 : 3;
+            for (let column = 0; column < 3; column++) {
+                for (let row = 0; row < 3; row++) {
+                    this._f32[index + column * 4 + row] = values[column * stride + row];
+                }
+            }
+            return this;
+        }
+
+        const view = TYPE_LAYOUTS[field.type].scalar === "f32" ? this._f32 : TYPE_LAYOUTS[field.type].scalar === "i32" ? this._i32 : this._u32;
+        const count = TYPE_LAYOUTS[field.type].size / 4;
+        for (let i = 0; i < count; i++) {
+            view[index + i] = values[i];
+        }
+        return this;
+    }
+}
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockContext, type IMockContext } from "../testing/mock-context";
+import { mipLevelCount, type WebGPUContext } from "./webgpu-context";
+import type { IGpuError } from "./gpu-diagnostics";
+
+describe("mipLevelCount", () => {
+    it.each([
+        [1, 1, 1],
+        [2, 1, 2],
+        [256, 256, 9],
+        [640, 480, 10],
+        [1, 1000, 10],
+        [0, 0, 1],
+    ])("is %d x %d: %d", (width, height, expected) => {
+        expect(mipLevelCount(width, height)).toBe(expected);
+    });
+});
+
+describe("WebGPUContext textures", () => {
+    let mock: IMockContext;
+
+    beforeEach(async () => {
+        mock = await createMockContext({ images: { "paper.png": { width: 8, height: 4 } } });
+        mock.webGpuContext.createScene();
+    });
+
+    afterEach(() => {
+        mock.webGpuContext.destroy();
+    });
+
+    it("renders each mip level of an image from the one above it", async () => {
+        const image = await mock.backend.assets.fetchImageBitmap("paper.png");
+        const texture = mock.webGpuContext.createTextureFromImage(image, { mipmaps: true });
+
+        expect(texture.mipLevelCount).toBe(4);
+        expect(mock.backend.recorder.lastSubmission!.passes.map(pass => pass.label)).toEqual([
+            "generateMipmaps level 1",
+            "generateMipmaps level 2",
+            "generateMipmaps level 3",
+        ]);
+    });
+
+    it("leaves textures without mipmaps at one level", async () => {
+        const image = await mock.backend.assets.fetchImageBitmap("paper.png");
+        expect(mock.webGpuContext.createTextureFromImage(image).mipLevelCount).toBe(1);
+        expect(mock.backend.recorder.submissions).toHaveLength(0);
+    });
+});
+
+describe("WebGPUContext shader diagnostics", () => {
+    let mock: IMockContext;
+
+    beforeEach(async () => {
+        mock = await createMockContext();
+    });
+
+    afterEach(() => {
+        mock.webGpuContext.destroy();
+        vi.restoreAllMocks();
+    });
+
+    async function compile(webGpuContext: WebGPUContext, messages: Partial<GPUCompilationMessage>[]) {
+        const device = webGpuContext.device;
+        const createShaderModule = device.createShaderModule.bind(device);
+        vi.spyOn(device, "createShaderModule").mockImplementation(descriptor => Object.assign(createShaderModule(descriptor), {
+            getCompilationInfo: async () => ({ messages }) as unknown as GPUCompilationInfo,
+        }));
+        webGpuContext.createShaderModule("@compute @workgroup_size(1) fn main() {}");
+        // Compilation info arrives asynchronously
+        await new Promise(resolve => setTimeout(resolve));
+    }
+
+    it.each([
+        ["without error listeners", false, 1],
+        ["with an error listener", true, 0],
+    ])("logs compile warnings %s", async (_, listening, logged) => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+        if (listening) {
+            mock.webGpuContext.onError(() => undefined);
+        }
+        await compile(mock.webGpuContext, [{ type: "warning", lineNum: 3, linePos: 5, message: "unused variable" }]);
+        expect(warn).toHaveBeenCalledTimes(logged);
+    });
+
+    it("reports compile errors to the listeners instead of the console", async () => {
+        const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+        const errors: IGpuError[] = [];
+        mock.webGpuContext.onError(reported => errors.push(reported));
+        await compile(mock.webGpuContext, [{ type: "error", lineNum: 1, linePos: 9, message: "expected '('" }]);
+
+        expect(errors).toEqual([{ kind: "compilation", message: "Failed to compile inline shader", details: ["inline shader:1:9: error: expected '('"] }]);
+        expect(error).not.toHaveBeenCalled();
+    });
+});
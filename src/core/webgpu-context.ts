@@ -1,179 +1,658 @@
-import * as glMatrix from "gl-matrix";
-import { ObjDataExtractor } from "../utils/objDataExtractor";
-import { VideoLoader } from "../utils/videoLoader";
-import { Arcball } from "../utils/arcball";
-import { Controls } from "../utils/controls";
+import { RenderGraph } from "./render-graph";
+import { UniformAllocator } from "./uniform-allocator";
+import { ResourceTracker, type IResourceCounts } from "./resource-tracker";
+import { Scene, type ISceneHandle } from "./scene";
+import { KeyedCache, objectKey, type ICacheStats } from "./gpu-cache";
+import { WgslReflection } from "./wgsl-reflection";
+import { BYTES_PER_TEXEL, paddedBytesPerRow, unpadRows } from "./texture-readback";
+import { FrameProfiler } from "./frame-profiler";
+import { AssetManager, imageLoader } from "./asset-manager";
+import { AnimationFrameScheduler, HttpAssetFetcher, requestBrowserDevice, type DeviceProvider, type IAssetFetcher, type IFrameScheduler } from "./platform";
+import mipmapWgsl from "../shaders/mipmap.wgsl?raw";
+import { formatCompilationMessages, gpuErrorKind, shaderFileName, type GpuErrorListener, type IGpuError } from "./gpu-diagnostics";
 
 interface WebGpuContextInitResult {
 	instance?: WebGPUContext;
 	error?: string;
 }
 
-interface IBindGroupInput {
-  type: "buffer" | "texture" | "sampler";
-  visibility: number;
-  readonly?: boolean;
-  buffer?: GPUBuffer;
-  texture?: GPUTexture;
-  textureView?: GPUTextureView; // ADDED: Allow passing a pre-created view
-  sampler?: GPUSampler;
-  textureSampleType?: GPUTextureSampleType;
+export interface IBufferResource {
+    buffer: GPUBuffer;
+    offset?: number;
+    size?: number;
+    /** Bind at offset 0 and pass `offset` through IShaderBindGroup.dynamicOffsets instead. */
+    hasDynamicOffset?: boolean;
 }
 
-interface IGPUVertexBuffer {
+export interface ITextureResource {
+    texture?: GPUTexture;
+    view?: GPUTextureView;
+    /** Overrides the sample type reflected from the shader, e.g. "unfilterable-float" for a sampled rgba32float. */
+    sampleType?: GPUTextureSampleType;
+}
+
+export type BindGroupResource = GPUBuffer | GPUTexture | GPUTextureView | GPUSampler | GPUExternalTexture | IBufferResource | ITextureResource;
+
+export interface IOffscreenRenderOptions {
+    /** Defaults to the canvas size. */
+    width?: number;
+    height?: number;
+    /** Defaults to the canvas format. */
+    format?: GPUTextureFormat;
+}
+
+export interface ITextureOptions {
+    /**
+     * Allocates a full mip chain, see mipLevelCount(). createTextureFromImage() fills it; other textures need a
+     * generateMipmaps() call after their first level is written.
+     */
+    mipmaps?: boolean;
+    /** Allocates this many mip levels instead, for textures whose levels are all written by hand. */
+    mipLevelCount?: number;
+    /** Array layers, for texture_2d_array bindings. */
+    layers?: number;
+}
+
+export type SamplerPreset = "linear-repeat" | "linear-clamp" | "nearest-repeat" | "nearest-clamp" | "anisotropic-repeat" | "anisotropic-clamp";
+
+const samplerPreset = (filter: GPUFilterMode, addressMode: GPUAddressMode, maxAnisotropy: number = 1): GPUSamplerDescriptor => ({
+    addressModeU: addressMode,
+    addressModeV: addressMode,
+    magFilter: filter,
+    minFilter: filter,
+    mipmapFilter: filter,
+    maxAnisotropy,
+});
+
+const SAMPLER_PRESETS: Record<SamplerPreset, GPUSamplerDescriptor> = {
+    "linear-repeat": samplerPreset("linear", "repeat"),
+    "linear-clamp": samplerPreset("linear", "clamp-to-edge"),
+    "nearest-repeat": samplerPreset("nearest", "repeat"),
+    "nearest-clamp": samplerPreset("nearest", "clamp-to-edge"),
+    // Implementations clamp maxAnisotropy to what they support; anisotropic filtering requires linear filters
+    "anisotropic-repeat": samplerPreset("linear", "repeat", 16),
+    "anisotropic-clamp": samplerPreset("linear", "clamp-to-edge", 16),
+};
+
+/**
+ * Number of mip levels down to 1x1 for a texture of this size.
+ */
+export function mipLevelCount(width: number, height: number): number {
+    return Math.floor(Math.log2(Math.max(width, height, 1))) + 1;
+}
+
+export type SceneFactory = (webGpuContext: WebGPUContext) => Promise<ISceneHandle>;
+
+export interface IGPUVertexBuffer {
 	buffer: GPUBuffer;
 	layout: GPUVertexBufferLayout;
 }
 
-interface IUniformBindGroup {
+export interface IGPUIndexBuffer {
+	buffer: GPUBuffer;
+	format: GPUIndexFormat;
+	count: number;
+}
+
+export interface IUniformBindGroup {
 	bindGroupLayout: GPUBindGroupLayout;
 	bindGroup: GPUBindGroup;
 }
 
-interface IWebGPUContextOptions {
+export interface IShaderBindGroup extends IUniformBindGroup {
+    /** Offsets of the dynamic-offset buffers in @binding order, for setBindGroup(). */
+    dynamicOffsets: number[];
+}
+
+/**
+ * WebGPU interface name of an object, e.g. "GPUTextureView". GPU objects are opaque, so this is the only way to
+ * tell a texture view from a sampler at runtime.
+ */
+function gpuObjectType(value: unknown): string {
+    return Object.prototype.toString.call(value).slice(8, -1);
+}
+
+export interface IWebGPUContextOptions {
     canvas: HTMLCanvasElement;
     primitiveState: GPUPrimitiveState;
     depthStencilState?: GPUDepthStencilState;
+    /** Sample count for render graph passes that opt in with `multisampled`. */
     msaa?: number;
+    /** Called for the initial device and again after a device loss. Defaults to the browser's default adapter. */
+    requestDevice?: DeviceProvider;
+    /** Defaults to canvas.getContext("webgpu"). */
+    context?: GPUCanvasContext;
+    /** Defaults to navigator.gpu.getPreferredCanvasFormat(). */
+    canvasFormat?: GPUTextureFormat;
+    /** Defaults to requestAnimationFrame. */
+    frameScheduler?: IFrameScheduler;
+    /** Defaults to fetch(). */
+    assetFetcher?: IAssetFetcher;
 }
 
 export class WebGPUContext {
 	private static VERTEX_ENTRY_POINT = "vs_main";
 	private static FRAGMENT_ENTRY_POINT = "fs_main";
-	private static _instance: WebGPUContext;
+	private static COMPUTE_ENTRY_POINT = "cs_main";
+	private static BIND_GROUP_CACHE_SIZE = 256;
+	private static RESIZE_DEBOUNCE_MS = 100;
+	// The watercolor MRT passes write three rgba32float targets, above the default 32 bytes per sample
+	private static DEVICE_DESCRIPTOR: GPUDeviceDescriptor = {
+		requiredLimits: {
+			maxColorAttachmentBytesPerSample: 128,
+		},
+	};
+	// Enabled when the adapter has them, for the profiler's GPU pass timings
+	private static OPTIONAL_FEATURES: GPUFeatureName[] = ["timestamp-query"];
+	private static _instance?: WebGPUContext;
 	private _context: GPUCanvasContext;
 	private _device: GPUDevice;
 	private _canvas: HTMLCanvasElement;
     private _primitiveState: GPUPrimitiveState;
     private _depthStencilState?: GPUDepthStencilState;
     private _msaa?: number;
-    private _takeScreenshot: boolean;
+    private _canvasFormat: GPUTextureFormat;
+    private _requestDevice: DeviceProvider;
+    private _frameScheduler: IFrameScheduler;
+    private _assets: AssetManager;
+    private _shaderModuleCache: KeyedCache<GPUShaderModule>;
+    private _reflectionCache: KeyedCache<WgslReflection>;
+    private _pipelineLayoutCache: KeyedCache<GPUPipelineLayout>;
+    private _pipelineCache: KeyedCache<GPURenderPipeline>;
+    private _computePipelineCache: KeyedCache<GPUComputePipeline>;
+    private _samplerCache: KeyedCache<GPUSampler>;
+    private _bindGroupLayoutCache: KeyedCache<GPUBindGroupLayout>;
+    private _bindGroupCache: KeyedCache<GPUBindGroup>;
+    private _defaultViews: WeakMap<GPUTexture, GPUTextureView>;
+    private _uniformAllocator: UniformAllocator;
+    private _resourceTracker: ResourceTracker;
+    private _profiler: FrameProfiler;
+    private _activeScene?: Scene;
+    private _offscreenTarget?: GPUTexture;
+    private _sceneFactory?: SceneFactory;
+    private _errorListeners: Set<GpuErrorListener>;
+    private _resizeObserver?: ResizeObserver;
+    private _resizeTimeout?: number;
 
 	public static async create(options: IWebGPUContextOptions): Promise<WebGpuContextInitResult> {
 		if (WebGPUContext._instance) {
 			return { instance: WebGPUContext._instance };
 		}
 
-		if (!navigator.gpu) {
-			return { error: "WebGPU not supported" };
-		}
-
-		const adapter = await navigator.gpu.requestAdapter();
-		if (!adapter) {
-			return { error: "Failed to get WebGPU adapter" };
-		}
-        
-        // FIX #2: Request a higher limit for color attachments
-		const device = await adapter.requestDevice({
-            requiredLimits: {
-                maxColorAttachmentBytesPerSample: 128,
-            }
-        });
-		if (!device) {
-			return { error: "Failed to get WebGPU device" };
+		const requestDevice = options.requestDevice ?? (() => requestBrowserDevice(WebGPUContext.DEVICE_DESCRIPTOR, WebGPUContext.OPTIONAL_FEATURES));
+		let device: GPUDevice;
+		try {
+			device = await requestDevice();
+		} catch (error) {
+			return { error: error instanceof Error ? error.message : "Failed to get WebGPU device" };
 		}
 
-		const context = options.canvas.getContext("webgpu");
+		const context = options.context ?? options.canvas.getContext("webgpu");
 		if (!context) {
 			return { error: "Failed to get WebGPU context" };
 		}
 
-		const canvasConfig: GPUCanvasConfiguration = {
-			device: device,
-			format: navigator.gpu.getPreferredCanvasFormat() as GPUTextureFormat,
-			usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.COPY_SRC,
-			alphaMode: "opaque",
-		}
-
-		context.configure(canvasConfig);
-    
-        WebGPUContext._instance = new WebGPUContext(context, device, options.canvas, options.primitiveState, options.depthStencilState, options.msaa);
+        WebGPUContext._instance = new WebGPUContext(options, context, device, requestDevice);
 		return { instance: WebGPUContext._instance };
   	}
 
-    private constructor(context: GPUCanvasContext, device: GPUDevice, canvas: HTMLCanvasElement, 
-        primitiveState: GPUPrimitiveState, depthStencilState?: GPUDepthStencilState, msaa?: number) {
+    private constructor(options: IWebGPUContextOptions, context: GPUCanvasContext, device: GPUDevice, requestDevice: DeviceProvider) {
+        const canvas = options.canvas;
         this._context = context;
         this._device = device;
         this._canvas = canvas;
-        this._primitiveState = primitiveState;
-        this._depthStencilState = depthStencilState;
-        this._msaa = msaa;
-        this._takeScreenshot = false; 
+        this._primitiveState = options.primitiveState;
+        this._depthStencilState = options.depthStencilState;
+        this._msaa = options.msaa;
+        this._canvasFormat = options.canvasFormat ?? navigator.gpu.getPreferredCanvasFormat() as GPUTextureFormat;
+        this._requestDevice = requestDevice;
+        this._frameScheduler = options.frameScheduler ?? new AnimationFrameScheduler();
+        this._assets = new AssetManager(options.assetFetcher ?? new HttpAssetFetcher(), () => this._activeScene?.signal);
+        this._shaderModuleCache = new KeyedCache();
+        this._reflectionCache = new KeyedCache();
+        this._pipelineLayoutCache = new KeyedCache();
+        this._pipelineCache = new KeyedCache();
+        this._computePipelineCache = new KeyedCache();
+        this._samplerCache = new KeyedCache();
+        this._bindGroupLayoutCache = new KeyedCache();
+        // Bind groups reference per-frame resources (render graph textures, uniform buffers), so only keep the recent ones
+        this._bindGroupCache = new KeyedCache(WebGPUContext.BIND_GROUP_CACHE_SIZE);
+        this._defaultViews = new WeakMap();
+        this._resourceTracker = new ResourceTracker(device);
+        this._uniformAllocator = new UniformAllocator(this._resourceTracker);
+        this._profiler = new FrameProfiler(this._resourceTracker);
+        this._errorListeners = new Set();
+        this._assets.onError(error => this._reportError({ kind: "asset", message: error.message }));
+        this._watchDevice();
+
+        // Size the backbuffer before the first frame, then keep it in sync with the canvas' layout size
+        this._configureContext();
+        const devicePixelRatio = globalThis.devicePixelRatio || 1;
+        this._resizeCanvas(canvas.clientWidth * devicePixelRatio, canvas.clientHeight * devicePixelRatio);
+        // Headless backends have no layout, so their canvas keeps whatever size it was given
+        if (typeof ResizeObserver !== "undefined") {
+            this._resizeObserver = new ResizeObserver(this._onCanvasResize);
+            try {
+                this._resizeObserver.observe(canvas, { box: "device-pixel-content-box" });
+            } catch {
+                this._resizeObserver.observe(canvas);
+            }
+        }
     }
 
-    public set takeScreenshot(value: boolean) {
-        this._takeScreenshot = value;
+    /**
+     * Disposes the active scene, stops watching the canvas and destroys the device. The next create() call
+     * builds a fresh context.
+     */
+    public destroy() {
+        this.disposeScene();
+        this._resizeObserver?.disconnect();
+        clearTimeout(this._resizeTimeout);
+        this._profiler.destroy();
+        this._device.destroy();
+        if (WebGPUContext._instance === this) {
+            WebGPUContext._instance = undefined;
+        }
     }
 
-    private _createRenderTarget(colorAttachmentTextures: GPUTexture[], clearValues: ({r: number, g: number, b: number, a: number})[], 
-        msaa?: number, depthTexture?: GPUTexture): GPURenderPassDescriptor { 
-        
-        const colorAttachments: GPURenderPassColorAttachment[] = [];
-        for (let i = 0; i < colorAttachmentTextures.length; i++) {
-            const textureView = colorAttachmentTextures[i].createView();
-            let colorAttachment: GPURenderPassColorAttachment;
-            if (msaa) {
-                const msaaTexture = this._device.createTexture({
-                    size: { width: this._canvas.width, height: this._canvas.height },
-                    sampleCount: msaa,
-                    format: navigator.gpu.getPreferredCanvasFormat() as GPUTextureFormat,
-                    usage: GPUTextureUsage.RENDER_ATTACHMENT,
-                });
-
-                colorAttachment = {
-                    view: msaaTexture.createView(),
-                    resolveTarget: textureView,
-                    clearValue: clearValues[i],
-                    loadOp: "clear",
-                    storeOp: "store",
-                }
-            } else {
-                colorAttachment = {
-                    view: textureView,
-                    clearValue: clearValues[i],
-                    loadOp: "clear",
-                    storeOp: "store",
-                }
+    /**
+     * Loads and caches scene assets, e.g. models and textures. Failed loads are reported to onError() listeners.
+     */
+    public get assets(): AssetManager {
+        return this._assets;
+    }
+
+    /**
+     * Live buffers and textures created through this context.
+     */
+    public get resourceCounts(): IResourceCounts {
+        return this._resourceTracker.counts;
+    }
+
+    /**
+     * Frame and render pass timings of every render graph created through this context. Disabled by default.
+     */
+    public get profiler(): FrameProfiler {
+        return this._profiler;
+    }
+
+    /**
+     * Subscribes to shader compilation errors, validation errors and device loss. Returns an unsubscribe function.
+     * Errors are only logged to the console while there are no listeners.
+     */
+    public onError(listener: GpuErrorListener): () => void {
+        this._errorListeners.add(listener);
+        return () => this._errorListeners.delete(listener);
+    }
+
+    /**
+     * Runs a scene and remembers how to build it, so it can be rebuilt on a new device if the current one is lost.
+     */
+    public async runScene(factory: SceneFactory): Promise<ISceneHandle> {
+        this._sceneFactory = factory;
+        return this._buildScene(factory);
+    }
+
+    /**
+     * Rebuilds the active scene, e.g. after the user picked another model with AssetManager.setUserAsset().
+     */
+    public async reloadScene(): Promise<ISceneHandle | undefined> {
+        return this._sceneFactory && this._buildScene(this._sceneFactory);
+    }
+
+    /**
+     * Disposes the active scene and forgets its factory, so nothing is rebuilt after a device loss.
+     */
+    public disposeScene() {
+        this._sceneFactory = undefined;
+        this._activeScene?.dispose();
+        this._activeScene = undefined;
+    }
+
+    /**
+     * Points the active scene's camera at its object, see Scene.onFrameObject().
+     */
+    public frameObject() {
+        this._activeScene?.frameObject();
+    }
+
+    /**
+     * Starts a new scene, disposing the previous one. GPU resources created through this context until the next
+     * createScene() call belong to the returned scene and are destroyed with it.
+     */
+    public createScene(): Scene {
+        this._activeScene?.dispose();
+        const scene = new Scene(this._resourceTracker, this._frameScheduler);
+        // Uniform chunks are created on demand by whichever scene is active, so they go away with it
+        scene.onDispose(() => this._uniformAllocator.destroy());
+        this._activeScene = scene;
+        return scene;
+    }
+
+    /**
+     * Per-frame uniform storage. Call beginFrame() once per frame before allocating.
+     */
+    public get uniforms(): UniformAllocator {
+        return this._uniformAllocator;
+    }
+
+    /**
+     * Hit/miss counters for every GPU object cache, keyed by cache name.
+     */
+    public get cacheStats(): Record<string, ICacheStats> {
+        return {
+            shaderModules: this._shaderModuleCache.stats,
+            shaderReflections: this._reflectionCache.stats,
+            pipelineLayouts: this._pipelineLayoutCache.stats,
+            renderPipelines: this._pipelineCache.stats,
+            computePipelines: this._computePipelineCache.stats,
+            samplers: this._samplerCache.stats,
+            bindGroupLayouts: this._bindGroupLayoutCache.stats,
+            bindGroups: this._bindGroupCache.stats,
+        };
+    }
+
+    public get device(): GPUDevice {
+        return this._device;
+    }
+
+    public get canvas(): HTMLCanvasElement {
+        return this._canvas;
+    }
+
+    /**
+     * Format of RenderGraph.BACKBUFFER: the preferred canvas format, or the target's format inside renderToTexture().
+     */
+    public get canvasFormat(): GPUTextureFormat {
+        return this._offscreenTarget?.format ?? this._canvasFormat;
+    }
+
+    /**
+     * Hands `error` to the onError() listeners, or logs it if nobody listens, so it's never reported twice.
+     */
+    private _reportError(error: IGpuError) {
+        if (this._errorListeners.size === 0) {
+            console.error(error.message, ...(error.details ?? []));
+        }
+        for (const listener of this._errorListeners) {
+            listener(error);
+        }
+    }
+
+    /**
+     * Runs `create` inside a validation error scope and reports anything it raises under `message`.
+     */
+    private _withErrorScope<T>(message: string, create: () => T): T {
+        this._device.pushErrorScope("validation");
+        const result = create();
+        this._device.popErrorScope().then(error => {
+            if (error) {
+                this._reportError({ kind: "validation", message, details: [error.message] });
             }
-            colorAttachments.push(colorAttachment);
+        });
+        return result;
+    }
+
+    private _watchDevice() {
+        const device = this._device;
+        device.onuncapturederror = (event) => {
+            this._reportError({ kind: gpuErrorKind(event.error), message: event.error.message });
+        };
+        device.lost.then(info => {
+            // "destroyed" is an intentional device.destroy(), and a newer device may already have replaced this one
+            if (info.reason !== "destroyed" && device === this._device) {
+                this._recoverDevice(info);
+            }
+        });
+    }
+
+    /**
+     * Requests a new device, drops everything created on the lost one and rebuilds the active scene.
+     */
+    private async _recoverDevice(info: GPUDeviceLostInfo) {
+        this._reportError({ kind: "device-lost", message: `GPU device lost: ${info.message || "unknown reason"}. Recreating the device and scene.` });
+        this._activeScene?.dispose();
+        this._activeScene = undefined;
+
+        let device: GPUDevice;
+        try {
+            device = await this._requestDevice();
+        } catch (error) {
+            this._reportError({ kind: "device-lost", message: `Failed to recreate the GPU device: ${error instanceof Error ? error.message : error}` });
+            return;
+        }
+
+        this._device = device;
+        this._resourceTracker = new ResourceTracker(device);
+        this._uniformAllocator = new UniformAllocator(this._resourceTracker);
+        this._profiler.reset(this._resourceTracker);
+        this._defaultViews = new WeakMap();
+        for (const cache of [this._shaderModuleCache, this._reflectionCache, this._pipelineLayoutCache, this._pipelineCache,
+            this._computePipelineCache, this._samplerCache, this._bindGroupLayoutCache, this._bindGroupCache]) {
+            cache.clear();
+        }
+        this._configureContext();
+        this._watchDevice();
+
+        if (this._sceneFactory) {
+            try {
+                await this._buildScene(this._sceneFactory);
+            } catch (error) {
+                this._reportError({ kind: "scene", message: `Failed to recreate the scene: ${error instanceof Error ? error.message : error}` });
+            }
+        }
+    }
+
+    /**
+     * Runs a scene factory. A scene replaced while its factory is still loading gets its loads aborted (see
+     * Scene.signal), which stops the factory; the disposed scene is returned then.
+     */
+    private async _buildScene(factory: SceneFactory): Promise<ISceneHandle> {
+        const building = factory(this);
+        // Factories create their scene before their first await
+        const scene = this._activeScene;
+        try {
+            return await building;
+        } catch (error) {
+            if (scene?.signal.aborted && error === scene.signal.reason) {
+                return scene;
+            }
+            throw error;
         }
+    }
+
+    private _onCanvasResize = (entries: ResizeObserverEntry[]) => {
+        const entry = entries[entries.length - 1];
+        let width: number;
+        let height: number;
+        if (entry.devicePixelContentBoxSize) {
+            // Exact device pixels, so fractional DPR zoom levels don't blur the backbuffer
+            width = entry.devicePixelContentBoxSize[0].inlineSize;
+            height = entry.devicePixelContentBoxSize[0].blockSize;
+        } else {
+            const devicePixelRatio = window.devicePixelRatio || 1;
+            width = entry.contentBoxSize[0].inlineSize * devicePixelRatio;
+            height = entry.contentBoxSize[0].blockSize * devicePixelRatio;
+        }
+
+        // Dragging a window edge fires this every frame; only reallocate once the size settles
+        clearTimeout(this._resizeTimeout);
+        this._resizeTimeout = setTimeout(() => this._resizeCanvas(width, height), WebGPUContext.RESIZE_DEBOUNCE_MS);
+    }
+
+    /**
+     * Sets the canvas backing store size, reconfigures the context and notifies the active scene, whose render
+     * graphs then reallocate their canvas-sized textures.
+     */
+    private _resizeCanvas(width: number, height: number) {
+        const maxSize = this._device.limits.maxTextureDimension2D;
+        width = Math.min(Math.max(1, Math.round(width)), maxSize);
+        height = Math.min(Math.max(1, Math.round(height)), maxSize);
+        if (width === this._canvas.width && height === this._canvas.height) {
+            return;
+        }
+
+        this._canvas.width = width;
+        this._canvas.height = height;
+        this._configureContext();
+        this._activeScene?.resize(width, height);
+    }
+
+    private _configureContext() {
+        this._context.configure({
+            device: this._device,
+            format: this._canvasFormat,
+            usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.COPY_SRC,
+            alphaMode: "opaque",
+        });
+    }
+
+    /**
+     * Creates an empty render graph with the canvas imported as RenderGraph.BACKBUFFER. Passes that set
+     * `multisampled` render with the `msaa` sample count this context was created with.
+     */
+    public createRenderGraph(): RenderGraph {
+        const renderGraph = new RenderGraph(this._resourceTracker, () => this._offscreenTarget ?? this._canvas, this._msaa, this._profiler);
+        renderGraph.importTexture(RenderGraph.BACKBUFFER, () => this._offscreenTarget ?? this._context.getCurrentTexture());
+        this._activeScene?.onResize(() => renderGraph.resize());
+        this._activeScene?.onDispose(() => renderGraph.destroy());
+        return renderGraph;
+    }
+
+    /**
+     * Renders one frame of the active scene into a new texture instead of the canvas. Scenes are notified of the
+     * target size like a canvas resize, so projections match its aspect ratio. The texture belongs to the active
+     * scene; release it with destroyResource() once it has been read.
+     */
+    public async renderToTexture(options: IOffscreenRenderOptions = {}): Promise<GPUTexture> {
+        const scene = this._activeScene;
+        if (!scene) {
+            throw new Error("No active scene to render");
+        }
+
+        const width = options.width ?? this._canvas.width;
+        const height = options.height ?? this._canvas.height;
+        const texture = this._resourceTracker.createTexture({
+            label: "offscreen render target",
+            size: { width, height },
+            format: options.format ?? this.canvasFormat,
+            usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_SRC,
+        });
+
+        const resized = width !== this._canvas.width || height !== this._canvas.height;
+        this._offscreenTarget = texture;
+        try {
+            if (resized) {
+                scene.resize(width, height);
+            }
+            await scene.renderFrame();
+        } finally {
+            this._offscreenTarget = undefined;
+            if (resized) {
+                scene.resize(this._canvas.width, this._canvas.height);
+            }
+        }
+        return texture;
+    }
+
+    /**
+     * Copies a texture into a mapped buffer and returns its texels tightly packed, row by row.
+     */
+    public async readTexturePixels(texture: GPUTexture): Promise<Uint8Array> {
+        const bytesPerTexel = BYTES_PER_TEXEL[texture.format];
+        if (!bytesPerTexel) {
+            throw new Error(`Reading back "${texture.format}" textures is not supported`);
+        }
+
+        const rowBytes = texture.width * bytesPerTexel;
+        const bytesPerRow = paddedBytesPerRow(rowBytes);
+        const buffer = this._resourceTracker.createBuffer({
+            label: "readback",
+            size: bytesPerRow * texture.height,
+            usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+        });
+
+        try {
+            const commandEncoder = this._device.createCommandEncoder();
+            commandEncoder.copyTextureToBuffer({ texture }, { buffer, bytesPerRow, rowsPerImage: texture.height }, { width: texture.width, height: texture.height });
+            this._device.queue.submit([commandEncoder.finish()]);
 
-        const renderPassDescriptor: GPURenderPassDescriptor = {
-            colorAttachments: colorAttachments
+            await buffer.mapAsync(GPUMapMode.READ);
+            const pixels = unpadRows(new Uint8Array(buffer.getMappedRange()), rowBytes, bytesPerRow, texture.height);
+            buffer.unmap();
+            return pixels;
+        } finally {
+            this._resourceTracker.destroy(buffer);
         }
+    }
 
-        if (depthTexture) {
-            renderPassDescriptor.depthStencilAttachment = {
-                view: depthTexture.createView(),
-                depthClearValue: 1,
-                depthLoadOp: 'clear',
-                depthStoreOp: 'store',
-                // FIX #3: Explicitly define stencil operations
-                stencilClearValue: 0,
-                stencilLoadOp: 'clear',
-                stencilStoreOp: 'store',
+    /**
+     * Reads an 8-bit RGBA or BGRA texture back as ImageData (always RGBA).
+     */
+    public async readImageData(texture: GPUTexture): Promise<ImageData> {
+        const format = texture.format;
+        if (!["rgba8unorm", "rgba8unorm-srgb", "bgra8unorm", "bgra8unorm-srgb"].includes(format)) {
+            throw new Error(`Can't convert "${format}" textures to ImageData`);
+        }
+
+        const pixels = await this.readTexturePixels(texture);
+        if (format.startsWith("bgra")) {
+            for (let i = 0; i < pixels.length; i += 4) {
+                const blue = pixels[i];
+                pixels[i] = pixels[i + 2];
+                pixels[i + 2] = blue;
             }
         }
+        return new ImageData(new Uint8ClampedArray(pixels.buffer), texture.width, texture.height);
+    }
+
+    /**
+     * Renders the active scene offscreen and reads it back, e.g. for screenshots and thumbnails.
+     */
+    public async captureImageData(options: IOffscreenRenderOptions = {}): Promise<ImageData> {
+        const texture = await this.renderToTexture(options);
+        try {
+            return await this.readImageData(texture);
+        } finally {
+            this._resourceTracker.destroy(texture);
+        }
+    }
 
-        return renderPassDescriptor;
+    public destroyResource(resource: GPUBuffer | GPUTexture) {
+        this._resourceTracker.destroy(resource);
     }
 
+    /**
+     * Cached per URL, see AssetManager.
+     */
+    public async loadImageBitmap(url: string): Promise<ImageBitmap> {
+        return this._assets.load(imageLoader, url);
+    }
+
+    /**
+     * Uninitialized buffer, e.g. for data written with queue.writeBuffer() every frame.
+     */
+    public createBuffer(size: number, usage: GPUBufferUsageFlags, label?: string): GPUBuffer {
+        return this._resourceTracker.createBuffer({ label, size, usage });
+    }
 
-    private _createGPUBuffer(data: Float32Array | Uint16Array | ArrayBuffer, usage: GPUBufferUsageFlags): GPUBuffer {
+    public createGPUBuffer(data: Float32Array | Uint16Array | Uint32Array | ArrayBuffer, usage: GPUBufferUsageFlags): GPUBuffer {
 		const bufferDesc: GPUBufferDescriptor = {
 			size: data.byteLength,
 			usage: usage,
 			mappedAtCreation: true
 		}
 
-		const buffer = this._device.createBuffer(bufferDesc);
+		const buffer = this._resourceTracker.createBuffer(bufferDesc);
 		if (data instanceof Float32Array) {
 			const writeArray = new Float32Array(buffer.getMappedRange());
 			writeArray.set(data);
 		} else if (data instanceof Uint16Array) {
 			const writeArray = new Uint16Array(buffer.getMappedRange());
 			writeArray.set(data);
+		} else if (data instanceof Uint32Array) {
+			const writeArray = new Uint32Array(buffer.getMappedRange());
+			writeArray.set(data);
 		} else if (data instanceof ArrayBuffer) {
             const writeArray = new Uint8Array(buffer.getMappedRange());
             writeArray.set(new Uint8Array(data));
@@ -184,7 +663,20 @@ export class WebGPUContext {
 		return buffer;
     }
 
-    private _createSingleAttributeVertexBuffer(vertexAttributeData: Float32Array, attributeDesc: GPUVertexAttribute, 
+    /**
+     * Index buffer whose format follows the array type. Pass `format` to setIndexBuffer() and `count` to drawIndexed().
+     */
+    public createIndexBuffer(indices: Uint16Array | Uint32Array): IGPUIndexBuffer {
+        // Mapped buffer sizes must be a multiple of 4, which an odd number of uint16 indices isn't
+        const data = indices.byteLength % 4 === 0 ? indices : Uint16Array.from({ length: indices.length + 1 }, (_, i) => indices[i] ?? 0);
+        return {
+            buffer: this.createGPUBuffer(data, GPUBufferUsage.INDEX),
+            format: indices instanceof Uint32Array ? "uint32" : "uint16",
+            count: indices.length,
+        };
+    }
+
+    public createSingleAttributeVertexBuffer(vertexAttributeData: Float32Array, attributeDesc: GPUVertexAttribute, 
         arrayStride: number): IGPUVertexBuffer {
 		const layout: GPUVertexBufferLayout = {
 			arrayStride,
@@ -192,63 +684,138 @@ export class WebGPUContext {
 			attributes: [attributeDesc],
 		}
 
-		const buffer = this._createGPUBuffer(vertexAttributeData, GPUBufferUsage.VERTEX);
+		const buffer = this.createGPUBuffer(vertexAttributeData, GPUBufferUsage.VERTEX);
 
 		return { buffer, layout };
     }
 
-	private _createUniformBindGroup(bindGroupInputs: IBindGroupInput[]): IUniformBindGroup {
-		const layoutEntries: GPUBindGroupLayoutEntry[] = [];
-		const bindGroupEntries: GPUBindGroupEntry[] = [];
-		for (let i = 0; i < bindGroupInputs.length; i++) {
-			const input = bindGroupInputs[i];
-			switch (input.type) {
-				case "buffer":
-                    const layoutEntry: GPUBindGroupLayoutEntry = { 
-                        binding: i, 
-                        visibility: input.visibility, 
-                        buffer: { type: input.readonly ? "read-only-storage" : "uniform" }
-                    };
-                    layoutEntries.push(layoutEntry);
-                    bindGroupEntries.push({ binding: i, resource: { buffer: input.buffer! } });
+    /**
+     * Parsed @group/@binding declarations of a shader, cached by source.
+     */
+    public reflectShader(source: string): WgslReflection {
+        return this._reflectionCache.getOrCreate(source, () => new WgslReflection(source));
+    }
+
+    /**
+     * Builds a bind group for one @group of a shader, binding resources by variable name. The layout comes from
+     * the shader's declarations, so resources only need to say what they are:
+     * - buffers: a GPUBuffer or IBufferResource (set hasDynamicOffset for per-frame uniform allocations)
+     * - textures: a GPUTexture, GPUTextureView or ITextureResource to override the sample type
+     * - samplers and external textures as-is
+     */
+    public createBindGroup(shaderSource: string, resources: Record<string, BindGroupResource>, group: number = 0): IShaderBindGroup {
+        const bindings = this.reflectShader(shaderSource).getGroup(group);
+        if (bindings.length === 0) {
+            throw new Error(`Shader has no bindings in @group(${group})`);
+        }
+        for (const name of Object.keys(resources)) {
+            if (!bindings.some(binding => binding.name === name)) {
+                throw new Error(`"${name}" is not a binding in @group(${group}); expected one of ${bindings.map(binding => `"${binding.name}"`).join(", ")}`);
+            }
+        }
+
+        const layoutEntries: GPUBindGroupLayoutEntry[] = [];
+        const bindGroupEntries: GPUBindGroupEntry[] = [];
+        const dynamicOffsets: number[] = [];
+        for (const binding of bindings) {
+            const resource = resources[binding.name];
+            if (resource === undefined) {
+                throw new Error(`Missing resource for binding "${binding.name}" (@group(${group}) @binding(${binding.binding}) ${binding.declaration})`);
+            }
+            const mismatch = (expected: string) => new Error(
+                `Binding "${binding.name}" (${binding.declaration}) expects ${expected}, got ${gpuObjectType(resource)}`);
+
+            switch (binding.kind) {
+                case "buffer": {
+                    const bufferResource = gpuObjectType(resource) === "GPUBuffer" ? { buffer: resource as GPUBuffer } : resource as IBufferResource;
+                    if (gpuObjectType(bufferResource.buffer) !== "GPUBuffer") {
+                        throw mismatch("a GPUBuffer");
+                    }
+                    const hasDynamicOffset = bufferResource.hasDynamicOffset ?? false;
+                    layoutEntries.push({ ...binding.layout, buffer: { ...binding.layout.buffer, hasDynamicOffset } });
+                    bindGroupEntries.push({
+                        binding: binding.binding,
+                        resource: { buffer: bufferResource.buffer, offset: hasDynamicOffset ? 0 : bufferResource.offset, size: bufferResource.size },
+                    });
+                    if (hasDynamicOffset) {
+                        dynamicOffsets.push(bufferResource.offset ?? 0);
+                    }
                     break;
-				case "texture":
-                    const textureLayoutEntry: GPUBindGroupLayoutEntry = {
-                        binding: i,
-                        visibility: input.visibility,
-                        texture: { sampleType: input.textureSampleType || "float" }
-                    };
-					layoutEntries.push(textureLayoutEntry);
-                    // Use pre-created view if it exists, otherwise create a default one
-					bindGroupEntries.push({ binding: i, resource: input.textureView || input.texture!.createView() });
-					break;
-				case "sampler":
-					layoutEntries.push({ binding: i, visibility: input.visibility, sampler: {} });
-					bindGroupEntries.push({ binding: i, resource: input.sampler! });
-					break;
-			}
-		}
-		const uniformBindGroupLayout = this._device.createBindGroupLayout({
-			entries: layoutEntries
-		});
+                }
+                case "texture":
+                case "storageTexture": {
+                    const type = gpuObjectType(resource);
+                    const textureResource: ITextureResource = type === "GPUTexture" ? { texture: resource as GPUTexture }
+                        : type === "GPUTextureView" ? { view: resource as GPUTextureView }
+                        : resource as ITextureResource;
+                    if (!textureResource.view && gpuObjectType(textureResource.texture) !== "GPUTexture") {
+                        throw mismatch("a GPUTexture or GPUTextureView");
+                    }
+                    layoutEntries.push(textureResource.sampleType && binding.layout.texture
+                        ? { ...binding.layout, texture: { ...binding.layout.texture, sampleType: textureResource.sampleType } }
+                        : binding.layout);
+                    bindGroupEntries.push({ binding: binding.binding, resource: textureResource.view ?? this._getDefaultView(textureResource.texture!) });
+                    break;
+                }
+                case "sampler":
+                    if (gpuObjectType(resource) !== "GPUSampler") {
+                        throw mismatch("a GPUSampler");
+                    }
+                    layoutEntries.push(binding.layout);
+                    bindGroupEntries.push({ binding: binding.binding, resource: resource as GPUSampler });
+                    break;
+                case "externalTexture":
+                    if (gpuObjectType(resource) !== "GPUExternalTexture") {
+                        throw mismatch("a GPUExternalTexture");
+                    }
+                    layoutEntries.push(binding.layout);
+                    bindGroupEntries.push({ binding: binding.binding, resource: resource as GPUExternalTexture });
+                    break;
+            }
+        }
 
-		const uniformBindGroup = this._device.createBindGroup({
-			layout: uniformBindGroupLayout,
-			entries: bindGroupEntries
-		});
+        const bindGroupLayout = this._bindGroupLayoutCache.getOrCreate(JSON.stringify(layoutEntries), () => this._device.createBindGroupLayout({
+            entries: layoutEntries
+        }));
 
-		return { bindGroupLayout: uniformBindGroupLayout, bindGroup: uniformBindGroup };
-	}
+        const resourceKeys = bindGroupEntries.map(entry => {
+            const resource = entry.resource as GPUBufferBinding | GPUSampler | GPUTextureView;
+            return "buffer" in resource ? `${objectKey(resource.buffer)}:${resource.offset ?? 0}:${resource.size}` : objectKey(resource);
+        });
+        const bindGroup = this._bindGroupCache.getOrCreate(`${objectKey(bindGroupLayout)}|${resourceKeys.join(",")}`, () => this._device.createBindGroup({
+            layout: bindGroupLayout,
+            entries: bindGroupEntries
+        }));
 
-	private _createShaderModule(source: string) {
-		const shaderModule = this._device.createShaderModule({ code: source });
-		return shaderModule;
+        return { bindGroupLayout, bindGroup, dynamicOffsets };
+    }
+
+	public createShaderModule(source: string) {
+		return this._shaderModuleCache.getOrCreate(source, () => {
+			const fileName = shaderFileName(source);
+			const shaderModule = this._device.createShaderModule({ label: fileName, code: source });
+			shaderModule.getCompilationInfo().then(info => {
+				const errors = info.messages.filter(message => message.type === "error");
+				const warnings = info.messages.filter(message => message.type !== "error");
+				if (warnings.length > 0 && this._errorListeners.size === 0) {
+					console.warn(formatCompilationMessages(fileName, warnings).join("\n"));
+				}
+				if (errors.length > 0) {
+					this._reportError({ kind: "compilation", message: `Failed to compile ${fileName}`, details: formatCompilationMessages(fileName, errors) });
+				}
+			});
+			return shaderModule;
+		});
 	}
 
-    private _createPipeline(shaderModule: GPUShaderModule, vertexBuffers: GPUVertexBufferLayout[], 
-        uniformBindGroups: GPUBindGroupLayout[], colorFormats: (GPUTextureFormat | undefined)[], blend?: GPUBlendState, depthFormat?: GPUTextureFormat): GPURenderPipeline {
-        const pipelineLayoutDescriptor: GPUPipelineLayoutDescriptor = {bindGroupLayouts: uniformBindGroups};
-        const layout = this._device.createPipelineLayout(pipelineLayoutDescriptor);
+    /**
+     * @param primitiveState Overrides the context's primitive state for this pipeline, e.g. to cull front faces.
+     */
+    public createPipeline(shaderModule: GPUShaderModule, vertexBuffers: GPUVertexBufferLayout[], 
+        uniformBindGroups: GPUBindGroupLayout[], colorFormats: (GPUTextureFormat | undefined)[], blend?: GPUBlendState, depthFormat?: GPUTextureFormat,
+        sampleCount: number = 1, primitiveState?: Partial<GPUPrimitiveState>): GPURenderPipeline {
+        const layoutKey = uniformBindGroups.map(objectKey).join(",");
+        const layout = this._pipelineLayoutCache.getOrCreate(layoutKey, () => this._device.createPipelineLayout({ bindGroupLayouts: uniformBindGroups }));
         
         const colorStates: (GPUColorTargetState | null)[] = [];
         for (const format of colorFormats) {
@@ -265,8 +832,26 @@ export class WebGPUContext {
             colorStates.push(colorState);
         }
 
-
-        const pipelineDescriptor: GPURenderPipelineDescriptor = {
+        const depthStencil: GPUDepthStencilState | undefined = depthFormat ? {
+            depthWriteEnabled: true,
+            depthCompare: "less",
+            ...this._depthStencilState,
+            format: depthFormat,
+        } : undefined;
+        const multisample: GPUMultisampleState | undefined = sampleCount > 1 ? { count: sampleCount } : undefined;
+        const primitive: GPUPrimitiveState = { ...this._primitiveState, ...primitiveState };
+
+        const pipelineKey = JSON.stringify({
+            module: objectKey(shaderModule),
+            layout: layoutKey,
+            vertexBuffers,
+            colorStates,
+            depthStencil,
+            multisample,
+            primitive,
+        });
+        return this._pipelineCache.getOrCreate(pipelineKey, () => this._withErrorScope(`Failed to create the render pipeline for ${shaderModule.label}`, () => this._device.createRenderPipeline({
+            label: shaderModule.label,
             layout: layout,
             vertex: {
                 module: shaderModule,
@@ -278,47 +863,92 @@ export class WebGPUContext {
                 entryPoint: WebGPUContext.FRAGMENT_ENTRY_POINT,
                 targets: colorStates,
             },
-            primitive: this._primitiveState,
-            depthStencil: depthFormat ? {
-                format: depthFormat,
-                depthWriteEnabled: true,
-                depthCompare: "less"
-            } : undefined,
-            multisample: this._msaa ? { count: this._msaa} : undefined
-        }
-        const pipeline = this._device.createRenderPipeline(pipelineDescriptor);
-        console.log(this._depthStencilState);
-        return pipeline;
+            primitive,
+            depthStencil,
+            multisample,
+        })));
+    }
+
+    /**
+     * Compute pipeline for the shader's `cs_main` entry point, cached like render pipelines.
+     */
+    public createComputePipeline(shaderModule: GPUShaderModule, uniformBindGroups: GPUBindGroupLayout[]): GPUComputePipeline {
+        const layoutKey = uniformBindGroups.map(objectKey).join(",");
+        const layout = this._pipelineLayoutCache.getOrCreate(layoutKey, () => this._device.createPipelineLayout({ bindGroupLayouts: uniformBindGroups }));
+        const pipelineKey = `${objectKey(shaderModule)}|${layoutKey}`;
+        return this._computePipelineCache.getOrCreate(pipelineKey, () => this._withErrorScope(`Failed to create the compute pipeline for ${shaderModule.label}`, () => this._device.createComputePipeline({
+            label: shaderModule.label,
+            layout: layout,
+            compute: {
+                module: shaderModule,
+                entryPoint: WebGPUContext.COMPUTE_ENTRY_POINT,
+            },
+        })));
     }
 
 
-    private _createTexture(width: number, height: number, format: GPUTextureFormat = "rgba8unorm"): GPUTexture { 
+    public createTexture(width: number, height: number, format: GPUTextureFormat = "rgba8unorm", options: ITextureOptions = {}): GPUTexture { 
         const textureDescriptor: GPUTextureDescriptor = {
-            size: { width, height },
+            size: { width, height, depthOrArrayLayers: options.layers ?? 1 },
             format: format,
             usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT,
+            mipLevelCount: options.mipLevelCount ?? (options.mipmaps ? mipLevelCount(width, height) : 1),
         }
 
-        const texture = this._device.createTexture(textureDescriptor);
+        const texture = this._resourceTracker.createTexture(textureDescriptor);
         return texture;
     }
 
 
-    private _createTextureFromImage(imageBitmap: ImageBitmap): GPUTexture {
+    public createTextureFromImage(imageBitmap: ImageBitmap, options: ITextureOptions = {}): GPUTexture {
         const textureDescriptor: GPUTextureDescriptor = {
             size: { width: imageBitmap.width, height: imageBitmap.height },
             format: "rgba8unorm",
             usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT,
+            mipLevelCount: options.mipmaps ? mipLevelCount(imageBitmap.width, imageBitmap.height) : 1,
         }
 
-        const texture = this._device.createTexture(textureDescriptor);
+        const texture = this._resourceTracker.createTexture(textureDescriptor);
 
         this._device.queue.copyExternalImageToTexture({ source: imageBitmap }, {texture}, textureDescriptor.size);
+        this.generateMipmaps(texture);
 
         return texture;
     }
 
-    private _createDepthTexture(): GPUTexture {
+    /**
+     * Fills mip levels 1 and up by rendering each level, bilinearly downsampled, into the next. The texture needs
+     * RENDER_ATTACHMENT usage and a filterable, renderable format.
+     */
+    public generateMipmaps(texture: GPUTexture) {
+        if (texture.mipLevelCount < 2) {
+            return;
+        }
+        const shaderModule = this.createShaderModule(mipmapWgsl);
+        const sampler = this.createSampler("linear-clamp");
+        const encoder = this._device.createCommandEncoder({ label: "generateMipmaps" });
+        for (let level = 1; level < texture.mipLevelCount; level++) {
+            const { bindGroupLayout, bindGroup } = this.createBindGroup(mipmapWgsl, {
+                source: texture.createView({ baseMipLevel: level - 1, mipLevelCount: 1 }),
+                s_source: sampler,
+            });
+            const passEncoder = encoder.beginRenderPass({
+                label: `generateMipmaps level ${level}`,
+                colorAttachments: [{
+                    view: texture.createView({ baseMipLevel: level, mipLevelCount: 1 }),
+                    loadOp: "clear",
+                    storeOp: "store",
+                }],
+            });
+            passEncoder.setPipeline(this.createPipeline(shaderModule, [], [bindGroupLayout], [texture.format]));
+            passEncoder.setBindGroup(0, bindGroup);
+            passEncoder.draw(3);
+            passEncoder.end();
+        }
+        this._device.queue.submit([encoder.finish()]);
+    }
+
+    public createDepthTexture(): GPUTexture {
         const depthTextureDesc: GPUTextureDescriptor = {
             size: { width: this._canvas.width, height: this._canvas.height },
             dimension: '2d',
@@ -326,741 +956,24 @@ export class WebGPUContext {
             usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING
         };
 
-        const depthTexture = this._device.createTexture(depthTextureDesc);
+        const depthTexture = this._resourceTracker.createTexture(depthTextureDesc);
         return depthTexture;
     }
 
-	private _createSampler(): GPUSampler {
-		const samplerDescriptor: GPUSamplerDescriptor = {
-			addressModeU: "repeat",
-			addressModeV: "repeat",
-			magFilter: "linear",
-			minFilter: "linear",
-			mipmapFilter: "linear",
-		}
-
-		const sampler = this._device.createSampler(samplerDescriptor);
-		return sampler;
-	}
-
-	public render_vertex_color_offset(shaderCode: string, vertexCount: number, instanceCount: number, vertices: Float32Array, colors: Float32Array, offset: Float32Array) {
-
-		const { buffer: positionBuffer, layout: positionBufferLayout } = this._createSingleAttributeVertexBuffer(vertices, { format: "float32x3", offset: 0, shaderLocation: 0 }, 3 * Float32Array.BYTES_PER_ELEMENT);
-		const { buffer: colorBuffer, layout: colorBufferLayout } = this._createSingleAttributeVertexBuffer(colors, { format: "float32x3", offset: 0, shaderLocation: 1 }, 3 * Float32Array.BYTES_PER_ELEMENT);
-
-		const offsetBindGroupInput: IBindGroupInput = {
-			type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-			buffer: this._createGPUBuffer(offset, GPUBufferUsage.UNIFORM),
-		}
-		const { bindGroupLayout: uniformBindGroupLayout, bindGroup: uniformBindGroup } = this._createUniformBindGroup([offsetBindGroupInput]);
-
-		const commandEncoder = this._device.createCommandEncoder();
-
-		const passEncoder = commandEncoder.beginRenderPass(this._createRenderTarget([this._context.getCurrentTexture()], [{r: 1.0, g: 0.0, b: 0.0, a: 1.0}], this._msaa));
-		passEncoder.setViewport(0, 0, this._canvas.width, this._canvas.height, 0, 1);
-		passEncoder.setPipeline(this._createPipeline(this._createShaderModule(shaderCode), [positionBufferLayout, colorBufferLayout], [uniformBindGroupLayout], ["bgra8unorm"]));
-		passEncoder.setVertexBuffer(0, positionBuffer);
-		passEncoder.setVertexBuffer(1, colorBuffer);
-		passEncoder.setBindGroup(0, uniformBindGroup);
-		passEncoder.draw(vertexCount, instanceCount);
-		passEncoder.end();
-
-		this._device.queue.submit([commandEncoder.finish()]);
+	/**
+	 * Cached per descriptor, so scenes can ask for a preset wherever they need it.
+	 */
+	public createSampler(preset: SamplerPreset | GPUSamplerDescriptor = "linear-repeat"): GPUSampler {
+		const samplerDescriptor = typeof preset === "string" ? SAMPLER_PRESETS[preset] : preset;
+		return this._samplerCache.getOrCreate(JSON.stringify(samplerDescriptor), () => this._device.createSampler(samplerDescriptor));
 	}
 
-	public async render_textured_shape(shaderCode: string, vertexCount: number, instanceCount: number, vertices: Float32Array, texCoords: Float32Array,
-		transformationMatrix: Float32Array, projectionMatrix: Float32Array, imgUri: string) {
-		const response = await fetch(imgUri);
-		const blob = await response.blob();
-		const imageBitmap = await createImageBitmap(blob);
-
-		// CREATE UNIFORMS
-		const transformationMatrixBuffer = this._createGPUBuffer(transformationMatrix, GPUBufferUsage.UNIFORM);
-		const projectionMatrixBuffer = this._createGPUBuffer(projectionMatrix, GPUBufferUsage.UNIFORM);
-		const texture = this._createTextureFromImage(imageBitmap);
-		const sampler = this._createSampler();
-
-        const transformationMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: transformationMatrixBuffer,
-        }
-        const projectionMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: projectionMatrixBuffer,
-        }
-        const textureBindGroupInput: IBindGroupInput = {
-            type: "texture",
-            visibility: GPUShaderStage.FRAGMENT,
-            texture: texture,
-        }
-        const samplerBindGroupInput: IBindGroupInput = {
-            type: "sampler",
-            visibility: GPUShaderStage.FRAGMENT,
-            sampler: sampler,
+    private _getDefaultView(texture: GPUTexture): GPUTextureView {
+        let view = this._defaultViews.get(texture);
+        if (!view) {
+            view = texture.createView();
+            this._defaultViews.set(texture, view);
         }
-		const { bindGroupLayout: uniformBindGroupLayout, bindGroup: uniformBindGroup } = this._createUniformBindGroup([transformationMatrixBindGroupInput, projectionMatrixBindGroupInput, textureBindGroupInput, samplerBindGroupInput]);
-
-		// CREATE VERTEX BUFFERS
-		const { buffer: positionBuffer, layout: positionBufferLayout } = this._createSingleAttributeVertexBuffer(vertices, { format: "float32x3", offset: 0, shaderLocation: 0 }, 3 * Float32Array.BYTES_PER_ELEMENT);
-		const { buffer: texCoordBuffer, layout: texCoordBufferLayout } = this._createSingleAttributeVertexBuffer(texCoords, { format: "float32x2", offset: 0, shaderLocation: 1 }, 2 * Float32Array.BYTES_PER_ELEMENT);
-
-		// CREATE COMMAND ENCODER
-		const commandEncoder = this._device.createCommandEncoder();
-
-		const passEncoder = commandEncoder.beginRenderPass(this._createRenderTarget([this._context.getCurrentTexture()], [{r: 1.0, g: 0.0, b: 0.0, a: 1.0}], this._msaa));
-		passEncoder.setViewport(0, 0, this._canvas.width, this._canvas.height, 0, 1);
-		passEncoder.setPipeline(this._createPipeline(this._createShaderModule(shaderCode), [positionBufferLayout, texCoordBufferLayout], [uniformBindGroupLayout], ["bgra8unorm"]));
-		passEncoder.setVertexBuffer(0, positionBuffer);
-		passEncoder.setVertexBuffer(1, texCoordBuffer);
-		passEncoder.setBindGroup(0, uniformBindGroup);
-		passEncoder.draw(vertexCount, instanceCount);
-		passEncoder.end();
-
-		this._device.queue.submit([commandEncoder.finish()]);
-	}
-
-
-	public render_depth_testing(shaderCode: string, vertexCount: number, instanceCount: number, vertices: Float32Array, transformationMatrix: Float32Array, projectionMatrix: Float32Array) {
-		const depthTexture = this._createDepthTexture();
-
-		const transformationMatrixBuffer = this._createGPUBuffer(transformationMatrix, GPUBufferUsage.UNIFORM);
-		const projectionMatrixBuffer = this._createGPUBuffer(projectionMatrix, GPUBufferUsage.UNIFORM);
-
-        const transformationMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: transformationMatrixBuffer,
-        }
-        const projectionMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: projectionMatrixBuffer,
-        }
-	
-		const { bindGroupLayout: uniformBindGroupLayout, bindGroup: uniformBindGroup } = this._createUniformBindGroup([transformationMatrixBindGroupInput, projectionMatrixBindGroupInput]);
-
-		const { buffer: positionBuffer, layout: positionBufferLayout } = this._createSingleAttributeVertexBuffer(vertices, { format: "float32x3", offset: 0, shaderLocation: 0 }, 3 * Float32Array.BYTES_PER_ELEMENT);
-
-		const commandEncoder = this._device.createCommandEncoder();
-
-		const passEncoder = commandEncoder.beginRenderPass(this._createRenderTarget([this._context.getCurrentTexture()], [{r: 1.0, g: 0.0, b: 0.0, a: 1.0}], this._msaa, depthTexture));
-		passEncoder.setViewport(0, 0, this._canvas.width, this._canvas.height, 0, 1);
-		passEncoder.setPipeline(this._createPipeline(this._createShaderModule(shaderCode), [positionBufferLayout], [uniformBindGroupLayout], ["bgra8unorm"]));
-		passEncoder.setVertexBuffer(0, positionBuffer);
-		passEncoder.setBindGroup(0, uniformBindGroup);
-		passEncoder.draw(vertexCount, instanceCount);
-		passEncoder.end();
-
-		this._device.queue.submit([commandEncoder.finish()]);
-	}
-
-    public async render_obj_model(shaderCode: string, objFilePath: string, transformationMatrix: Float32Array, projectionMatrix: Float32Array, normalMatrix: Float32Array, 
-        lightDirection: Float32Array, viewDirection: Float32Array) {
-        const objResponse = await fetch(objFilePath);
-        const objBlob = await objResponse.blob();
-        const objText = await objBlob.text();
-        const objDataExtractor = new ObjDataExtractor(objText);
-
-        let depthTexture = this._createDepthTexture();
-
-        const transformationMatrixBuffer = this._createGPUBuffer(transformationMatrix, GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST);
-        const projectionMatrixBuffer = this._createGPUBuffer(projectionMatrix, GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST);
-        const normalMatrixBuffer = this._createGPUBuffer(normalMatrix, GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST);
-        const lightDirectionBuffer = this._createGPUBuffer(lightDirection, GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST);
-        const viewDirectionBuffer = this._createGPUBuffer(viewDirection, GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST);
-
-        const transformationMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: transformationMatrixBuffer,
-        }
-        const projectionMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: projectionMatrixBuffer,
-        }
-        const normalMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: normalMatrixBuffer,
-        }
-        const lightDirectionBindGroupInput: IBindGroupInput = { 
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: lightDirectionBuffer,
-        }
-        const viewDirectionBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: viewDirectionBuffer,
-        }
-    
-        const { bindGroupLayout: uniformBindGroupLayout, bindGroup: uniformBindGroup } = this._createUniformBindGroup([transformationMatrixBindGroupInput, projectionMatrixBindGroupInput, normalMatrixBindGroupInput, lightDirectionBindGroupInput, viewDirectionBindGroupInput]);
-
-        const { buffer: positionBuffer, layout: positionBufferLayout } = this._createSingleAttributeVertexBuffer(objDataExtractor.vertexPositions, { format: "float32x3", offset: 0, shaderLocation: 0 }, 3 * Float32Array.BYTES_PER_ELEMENT);
-        const { buffer: normalBuffer, layout: normalBufferLayout } = this._createSingleAttributeVertexBuffer(objDataExtractor.normals, { format: "float32x3", offset: 0, shaderLocation: 1 }, 3 * Float32Array.BYTES_PER_ELEMENT);
-        const indexBuffer = this._createGPUBuffer(objDataExtractor.indices, GPUBufferUsage.INDEX);
-
-        const arcBall = new Arcball(5.0);
-
-        const render = () => {
-            const devicePixelRatio = window.devicePixelRatio || 1;
-            const currentCanvasWidth = this._canvas.clientWidth * devicePixelRatio;
-            const currentCanvasHeight = this._canvas.clientHeight * devicePixelRatio;
-
-            let projectionMatrixUpdateBuffer = null;
-            if (currentCanvasWidth != this._canvas.width || currentCanvasHeight != this._canvas.height) { 
-                this._canvas.width = currentCanvasWidth;
-                this._canvas.height = currentCanvasHeight;
-
-                // Re-configure the context to match the new canvas size. This is CRITICAL to canvas resize working
-                this._context.configure({
-                    device: this._device,
-                    format: navigator.gpu.getPreferredCanvasFormat() as GPUTextureFormat,
-                    usage: GPUTextureUsage.RENDER_ATTACHMENT,
-                    alphaMode: "opaque",
-                });
-
-                depthTexture.destroy();
-                depthTexture = this._createDepthTexture();
-
-                const updateProjectionMatrix = glMatrix.mat4.perspective(glMatrix.mat4.create(), 1.4, this._canvas.width / this._canvas.height, 0.1, 1000.0);
-                projectionMatrixUpdateBuffer = this._createGPUBuffer(Float32Array.from(updateProjectionMatrix), GPUBufferUsage.COPY_SRC);
-            }
-
-            const modelViewMatrix = arcBall.getMatrices();
-            const modelViewMatrixUpdateBuffer = this._createGPUBuffer(Float32Array.from(modelViewMatrix), GPUBufferUsage.COPY_SRC);
-
-            const modelViewMatrixInverse = glMatrix.mat4.invert(glMatrix.mat4.create(), modelViewMatrix);
-            const normalMatrix = glMatrix.mat4.transpose(glMatrix.mat4.create(), modelViewMatrixInverse);
-            const normalMatrixUpdateBuffer = this._createGPUBuffer(Float32Array.from(normalMatrix), GPUBufferUsage.COPY_SRC);
-
-            const viewDirection = glMatrix.vec3.fromValues(-arcBall.forward[0], -arcBall.forward[1], -arcBall.forward[2]);
-            const viewDirectionUpdateBuffer = this._createGPUBuffer(Float32Array.from(viewDirection), GPUBufferUsage.COPY_SRC);
-
-            const commandEncoder = this._device.createCommandEncoder();
-            if (projectionMatrixUpdateBuffer != null) {
-                commandEncoder.copyBufferToBuffer(projectionMatrixUpdateBuffer, 0, projectionMatrixBuffer, 0, 16 * Float32Array.BYTES_PER_ELEMENT);
-            }
-
-            commandEncoder.copyBufferToBuffer(modelViewMatrixUpdateBuffer, 0, transformationMatrixBuffer, 0, 16 * Float32Array.BYTES_PER_ELEMENT);
-            commandEncoder.copyBufferToBuffer(normalMatrixUpdateBuffer, 0, normalMatrixBuffer, 0, 16 * Float32Array.BYTES_PER_ELEMENT);
-            commandEncoder.copyBufferToBuffer(viewDirectionUpdateBuffer, 0, viewDirectionBuffer, 0, 3 * Float32Array.BYTES_PER_ELEMENT);
-            commandEncoder.copyBufferToBuffer(viewDirectionUpdateBuffer, 0, lightDirectionBuffer, 0, 3 * Float32Array.BYTES_PER_ELEMENT);
-
-            const passEncoder = commandEncoder.beginRenderPass(this._createRenderTarget([this._context.getCurrentTexture()], [{r: 1.0, g: 0.0, b: 0.0, a: 1.0}], this._msaa, depthTexture));
-            passEncoder.setViewport(0, 0, this._canvas.width, this._canvas.height, 0, 1);
-            passEncoder.setPipeline(this._createPipeline(this._createShaderModule(shaderCode), [positionBufferLayout, normalBufferLayout], [uniformBindGroupLayout], ["bgra8unorm"], undefined, 'depth24plus-stencil8'));
-            passEncoder.setVertexBuffer(0, positionBuffer);
-            passEncoder.setVertexBuffer(1, normalBuffer);
-            passEncoder.setIndexBuffer(indexBuffer, "uint16");
-            passEncoder.setBindGroup(0, uniformBindGroup);
-            passEncoder.drawIndexed(objDataExtractor.indices.length, 1, 0, 0, 0);
-            passEncoder.end();
-        
-            this._device.queue.submit([commandEncoder.finish()]);
-
-            requestAnimationFrame(render);
-        }
-    
-        new Controls(this._canvas, arcBall, render);
-        requestAnimationFrame(render);
-    }
-
-    public async render_gaussian_blur(shaderCodeOne: string, shaderCodeTwo: string, vertexCount: number, instanceCount: number, vertices: Float32Array, texCoords: Float32Array,
-        transformationMatrix: Float32Array, projectionMatrix: Float32Array, imgUri: string) {
-        const response = await fetch(imgUri);
-        const blob = await response.blob();
-        const imageBitmap = await createImageBitmap(blob);
-
-        // CREATE UNIFORMS
-        const transformationMatrixBuffer = this._createGPUBuffer(transformationMatrix, GPUBufferUsage.UNIFORM);
-        const projectionMatrixBuffer = this._createGPUBuffer(projectionMatrix, GPUBufferUsage.UNIFORM);
-        const texture = this._createTextureFromImage(imageBitmap);
-        const sampler = this._createSampler();
-        const passOneTexture = this._createTexture(texture.width, texture.height);
-
-        const imgSizeBuffer = this._createGPUBuffer(new Float32Array([imageBitmap.width, imageBitmap.height]), GPUBufferUsage.UNIFORM);
-        let kValues = [];
-    
-        const kernelSize = 8.0;
-        const sigma = 8.0;
-        let intensity = 0.0;
-        
-        for (let y = - kernelSize; y <= kernelSize; y += 1.0) {
-            let gaussian_value = 1.0 / Math.sqrt(2.0 * Math.PI * sigma * sigma) * Math.exp(-y * y / (2.0 * sigma * sigma));
-            intensity += gaussian_value;
-            kValues.push(gaussian_value);
-        }
-        const kernelBuffer = this._createGPUBuffer(new Float32Array(kValues), GPUBufferUsage.STORAGE);
-        const kernelSizeBuffer = this._createGPUBuffer(new Float32Array([kernelSize]), GPUBufferUsage.UNIFORM);
-
-        const transformationMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: transformationMatrixBuffer,
-        }
-        const projectionMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: projectionMatrixBuffer,
-        }
-        const imageSizeBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.FRAGMENT,
-            buffer: imgSizeBuffer,
-        }
-        const textureBindGroupInput: IBindGroupInput = {
-            type: "texture",
-            visibility: GPUShaderStage.FRAGMENT,
-            texture: texture,
-        }
-        const samplerBindGroupInput: IBindGroupInput = {
-            type: "sampler",
-            visibility: GPUShaderStage.FRAGMENT,
-            sampler: sampler,
-        }
-        const kernelBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.FRAGMENT,
-            readonly: true,
-            buffer: kernelBuffer,
-        }
-        const kernelSizeBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.FRAGMENT,
-            buffer: kernelSizeBuffer,
-        }
-        const passOneTextureBindGroupInput: IBindGroupInput = {
-            type: "texture",
-            visibility: GPUShaderStage.FRAGMENT,
-            texture: passOneTexture,
-        }
-
-
-        const { bindGroupLayout: uniformBindGroupLayoutPassOne, bindGroup: uniformBindGroupPassOne } = this._createUniformBindGroup([imageSizeBindGroupInput, textureBindGroupInput, samplerBindGroupInput, kernelBindGroupInput, kernelSizeBindGroupInput]);
-        const { bindGroupLayout: uniformBindGroupLayoutPassTwo, bindGroup: uniformBindGroupPassTwo } = this._createUniformBindGroup([transformationMatrixBindGroupInput, projectionMatrixBindGroupInput, imageSizeBindGroupInput, passOneTextureBindGroupInput, samplerBindGroupInput, kernelBindGroupInput, kernelSizeBindGroupInput]);
-
-        // CREATE VERTEX BUFFERS
-        const { buffer: positionBuffer, layout: positionBufferLayout } = this._createSingleAttributeVertexBuffer(vertices, { format: "float32x3", offset: 0, shaderLocation: 0 }, 3 * Float32Array.BYTES_PER_ELEMENT);
-        const { buffer: texCoordBufferOne, layout: texCoordBufferLayoutOne } = this._createSingleAttributeVertexBuffer(texCoords, { format: "float32x2", offset: 0, shaderLocation: 0 }, 2 * Float32Array.BYTES_PER_ELEMENT);
-        const { buffer: texCoordBufferTwo, layout: texCoordBufferLayoutTwo } = this._createSingleAttributeVertexBuffer(texCoords, { format: "float32x2", offset: 0, shaderLocation: 1 }, 2 * Float32Array.BYTES_PER_ELEMENT);
-
-        // CREATE COMMAND ENCODER
-        const commandEncoder = this._device.createCommandEncoder();
-
-        const passEncoder = commandEncoder.beginRenderPass(this._createRenderTarget([passOneTexture], [{r: 0.0, g: 0.0, b: 0.0, a: 0.0}]));
-        passEncoder.setViewport(0, 0, texture.width, texture.height, 0, 1);
-        passEncoder.setPipeline(this._createPipeline(this._createShaderModule(shaderCodeOne), [texCoordBufferLayoutOne], [uniformBindGroupLayoutPassOne], ["rgba8unorm"]));
-        passEncoder.setVertexBuffer(0, texCoordBufferOne);
-        passEncoder.setBindGroup(0, uniformBindGroupPassOne);
-        passEncoder.draw(vertexCount, instanceCount);
-        passEncoder.end();
-
-        const passEncoderTwo = commandEncoder.beginRenderPass(this._createRenderTarget([this._context.getCurrentTexture()], [{r: 1.0, g: 0.0, b: 0.0, a: 1.0}]));
-        passEncoderTwo.setViewport(0, 0, this._canvas.width, this._canvas.height, 0, 1);
-        passEncoderTwo.setPipeline(this._createPipeline(this._createShaderModule(shaderCodeTwo), [positionBufferLayout, texCoordBufferLayoutTwo], [uniformBindGroupLayoutPassTwo], ["bgra8unorm"]));
-        passEncoderTwo.setVertexBuffer(0, positionBuffer);
-        passEncoderTwo.setVertexBuffer(1, texCoordBufferTwo);
-        passEncoderTwo.setBindGroup(0, uniformBindGroupPassTwo);
-        passEncoderTwo.draw(vertexCount, instanceCount);
-        passEncoderTwo.end();
-    
-        this._device.queue.submit([commandEncoder.finish()]);
-    }
-
-    public async render_video_texture(shaderCode: string, vertexCount: number, instanceCount: number, vertices: Float32Array, texCoords: Float32Array,
-        transformationMatrix: Float32Array, projectionMatrix: Float32Array, videoUrl: string) 
-    {
-        const videoLoader = await VideoLoader.create(videoUrl);
-        const videoTexture = this._createTexture(videoLoader.videoElement.videoWidth, videoLoader.videoElement.videoHeight);
-        videoLoader.videoElement.ontimeupdate = async (_event: any) => {
-            const imagedData = await createImageBitmap(videoLoader.videoElement);
-            this._device.queue.copyExternalImageToTexture({ source: imagedData }, {texture: videoTexture}, {width: imagedData.width, height: imagedData.height});
-        }
-
-        const transformationMatrixBuffer = this._createGPUBuffer(transformationMatrix, GPUBufferUsage.UNIFORM);
-        const projectionMatrixBuffer = this._createGPUBuffer(projectionMatrix, GPUBufferUsage.UNIFORM);
-        const sampler = this._createSampler();
-
-        const transformationMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: transformationMatrixBuffer,
-        }
-        const projectionMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: projectionMatrixBuffer,
-        }
-        const textureBindGroupInput: IBindGroupInput = {
-            type: "texture",
-            visibility: GPUShaderStage.FRAGMENT,
-            texture: videoTexture,
-        }
-        const samplerBindGroupInput: IBindGroupInput = {
-            type: "sampler",
-            visibility: GPUShaderStage.FRAGMENT,
-            sampler: sampler,
-        }
-        const { bindGroupLayout: uniformBindGroupLayout, bindGroup: uniformBindGroup } = this._createUniformBindGroup([transformationMatrixBindGroupInput, projectionMatrixBindGroupInput, textureBindGroupInput, samplerBindGroupInput]);
-
-        // CREATE VERTEX BUFFERS
-        const { buffer: positionBuffer, layout: positionBufferLayout } = this._createSingleAttributeVertexBuffer(vertices, { format: "float32x3", offset: 0, shaderLocation: 0 }, 3 * Float32Array.BYTES_PER_ELEMENT);
-        const { buffer: texCoordBuffer, layout: texCoordBufferLayout } = this._createSingleAttributeVertexBuffer(texCoords, { format: "float32x2", offset: 0, shaderLocation: 1 }, 2 * Float32Array.BYTES_PER_ELEMENT);
-
-        // CREATE COMMAND ENCODER
-        const render = () => {
-            const commandEncoder = this._device.createCommandEncoder();
-
-            const passEncoder = commandEncoder.beginRenderPass(this._createRenderTarget([this._context.getCurrentTexture()], [{r: 1.0, g: 0.0, b: 0.0, a: 1.0}], this._msaa));
-            passEncoder.setViewport(0, 0, this._canvas.width, this._canvas.height, 0, 1);
-            passEncoder.setPipeline(this._createPipeline(this._createShaderModule(shaderCode), [positionBufferLayout, texCoordBufferLayout], [uniformBindGroupLayout], ["bgra8unorm"]));
-            passEncoder.setVertexBuffer(0, positionBuffer);
-            passEncoder.setVertexBuffer(1, texCoordBuffer);
-            passEncoder.setBindGroup(0, uniformBindGroup);
-            passEncoder.draw(vertexCount, instanceCount);
-            passEncoder.end();
-
-            this._device.queue.submit([commandEncoder.finish()]);
-
-            requestAnimationFrame(render);
-        }
-        
-        requestAnimationFrame(render);
-    }
-
-    public async render_text(shaderCode: string, transformationMatrix: Float32Array, projectionMatrix: Float32Array,
-        text: string, width: number, height: number, alpha: number, fontWeight: string, fontFamily: string, 
-        fillStyle: string, fontSize: number, textLength: number) 
-    {
-        const canvas = new OffscreenCanvas(width, height);
-        const ctx = canvas.getContext("2d")!;
-        ctx.clearRect(0,0, width, height);
-        ctx.globalAlpha = alpha;
-        ctx.font = `${fontWeight} ${fontSize}px ${fontFamily}`;
-        ctx.fillStyle = fillStyle;
-        const textMeasure = ctx.measureText(text);
-
-        ctx.fillText(text, 0, textLength);
-
-        const nearestPowerof2 = 1 << (32 - Math.clz32(Math.ceil(textMeasure.width)));
-        const texture = this._createTexture(nearestPowerof2, fontSize);
-        this._device.queue.copyExternalImageToTexture({ source: canvas, origin: {x: 0, y:0}}, {texture: texture}, {width: nearestPowerof2, height: fontSize});
-
-        const transformationMatrixBuffer = this._createGPUBuffer(transformationMatrix, GPUBufferUsage.UNIFORM);
-        const projectionMatrixBuffer = this._createGPUBuffer(projectionMatrix, GPUBufferUsage.UNIFORM);
-        const sampler = this._createSampler();
-
-        const transformationMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: transformationMatrixBuffer,
-        }
-        const projectionMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: projectionMatrixBuffer,
-        }
-        const textureBindGroupInput: IBindGroupInput = {
-            type: "texture",
-            visibility: GPUShaderStage.FRAGMENT,
-            texture: texture,
-        }
-        const samplerBindGroupInput: IBindGroupInput = {
-            type: "sampler",
-            visibility: GPUShaderStage.FRAGMENT,
-            sampler: sampler,
-        }
-        const { bindGroupLayout: uniformBindGroupLayout, bindGroup: uniformBindGroup } = this._createUniformBindGroup([transformationMatrixBindGroupInput, projectionMatrixBindGroupInput, textureBindGroupInput, samplerBindGroupInput]);
-
-        const positions = new Float32Array([
-            textMeasure.width *0.5, -16.0, 0.0,
-            textMeasure.width*0.5, 16.0, 0.0,
-            -textMeasure.width*0.5, -16.0, 0.0,
-            -textMeasure.width*0.5, 16.0, 0.0
-        ]);
-
-        const w = textMeasure.width / nearestPowerof2;
-        const texCoords = new Float32Array([
-            w,
-            1.0,
-            
-            w,
-            0.0,
-
-            0.0,
-            1.0,
-
-            0.0,
-            0.0
-        ]);
-
-        const { buffer: positionBuffer, layout: positionBufferLayout } = this._createSingleAttributeVertexBuffer(positions, { format: "float32x3", offset: 0, shaderLocation: 0 }, 3 * Float32Array.BYTES_PER_ELEMENT);
-        const { buffer: texCoordBuffer, layout: texCoordBufferLayout } = this._createSingleAttributeVertexBuffer(texCoords, { format: "float32x2", offset: 0, shaderLocation: 1 }, 2 * Float32Array.BYTES_PER_ELEMENT);
-
-        const blend: GPUBlendState = {
-            color: {
-                srcFactor: "one",
-                dstFactor: "one-minus-src",
-                operation: "add",
-            },
-            alpha: {
-                srcFactor: "one",
-                dstFactor: "one-minus-src",
-                operation: "add",
-            }
-        }
-
-        const commandEncoder = this._device.createCommandEncoder();
-
-        const passEncoder = commandEncoder.beginRenderPass(this._createRenderTarget([this._context.getCurrentTexture()], [{r: 1.0, g: 0.0, b: 0.0, a: 1.0}], this._msaa));
-        passEncoder.setViewport(0, 0, this._canvas.width, this._canvas.height, 0, 1);
-        passEncoder.setPipeline(this._createPipeline(this._createShaderModule(shaderCode), [positionBufferLayout, texCoordBufferLayout], [uniformBindGroupLayout], ["bgra8unorm"], blend));
-        passEncoder.setVertexBuffer(0, positionBuffer);
-        passEncoder.setVertexBuffer(1, texCoordBuffer);
-        passEncoder.setBindGroup(0, uniformBindGroup);
-        passEncoder.draw(4, 1);
-        passEncoder.end();
-
-        this._device.queue.submit([commandEncoder.finish()]);
-    }
-
-    public async render_video_image_render_obj(shaderCode: string, objFilePath: string, transformationMatrix: Float32Array, projectionMatrix: Float32Array, normalMatrix: Float32Array) {
-        const objResponse = await fetch(objFilePath);
-        const objBlob = await objResponse.blob();
-        const objText = await objBlob.text();
-        const objDataExtractor = new ObjDataExtractor(objText);
-
-        let depthTexture = this._createDepthTexture();
-
-        const transformationMatrixBuffer = this._createGPUBuffer(transformationMatrix, GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST);
-        const projectionMatrixBuffer = this._createGPUBuffer(projectionMatrix, GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST);
-        const normalMatrixBuffer = this._createGPUBuffer(normalMatrix, GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST);
-
-        const transformationMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: transformationMatrixBuffer,
-        }
-        const projectionMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: projectionMatrixBuffer,
-        }
-        const normalMatrixBindGroupInput: IBindGroupInput = {
-            type: "buffer",
-            visibility: GPUShaderStage.VERTEX,
-            buffer: normalMatrixBuffer,
-        }
-    
-    
-        const { bindGroupLayout: uniformBindGroupLayout, bindGroup: uniformBindGroup } = this._createUniformBindGroup([transformationMatrixBindGroupInput, projectionMatrixBindGroupInput, normalMatrixBindGroupInput]);
-
-        const { buffer: positionBuffer, layout: positionBufferLayout } = this._createSingleAttributeVertexBuffer(objDataExtractor.vertexPositions, { format: "float32x3", offset: 0, shaderLocation: 0 }, 3 * Float32Array.BYTES_PER_ELEMENT);
-        const { buffer: normalBuffer, layout: normalBufferLayout } = this._createSingleAttributeVertexBuffer(objDataExtractor.normals, { format: "float32x3", offset: 0, shaderLocation: 1 }, 3 * Float32Array.BYTES_PER_ELEMENT);
-        const indexBuffer = this._createGPUBuffer(objDataExtractor.indices, GPUBufferUsage.INDEX);
-
-        let angle = 0.0;
-        const render = async () => {
-            angle += 0.1;
-            const modelViewMatrix = glMatrix.mat4.lookAt(glMatrix.mat4.create(),
-                glMatrix.vec3.fromValues(Math.cos(angle) * 5.0, Math.sin(angle) * 5.0, 5), glMatrix.vec3.fromValues(0, 0, 0), glMatrix.vec3.fromValues(0.0, 0.0, 1.0));
-            const modelViewMatrixUniformBufferUpdate = this._createGPUBuffer(new Float32Array(modelViewMatrix), GPUBufferUsage.COPY_SRC);
-            const modelViewMatrixInverse = glMatrix.mat4.invert(glMatrix.mat4.create(), modelViewMatrix);
-            const normalMatrix = glMatrix.mat4.transpose(glMatrix.mat4.create(), modelViewMatrixInverse);
-            const normalMatrixUniformBufferUpdate = this._createGPUBuffer(new Float32Array(normalMatrix), GPUBufferUsage.COPY_SRC);
-
-            const commandEncoder = this._device.createCommandEncoder();
-
-            commandEncoder.copyBufferToBuffer(modelViewMatrixUniformBufferUpdate, 0, transformationMatrixBuffer, 0, 16 * Float32Array.BYTES_PER_ELEMENT);
-            commandEncoder.copyBufferToBuffer(normalMatrixUniformBufferUpdate, 0, normalMatrixBuffer, 0, 16 * Float32Array.BYTES_PER_ELEMENT);
-
-            const passEncoder = commandEncoder.beginRenderPass(this._createRenderTarget([this._context.getCurrentTexture()], [{r: 1.0, g: 0.0, b: 0.0, a: 1.0}], this._msaa, depthTexture));
-            passEncoder.setViewport(0, 0, this._canvas.width, this._canvas.height, 0, 1);
-            passEncoder.setPipeline(this._createPipeline(this._createShaderModule(shaderCode), [positionBufferLayout, normalBufferLayout], [uniformBindGroupLayout], ["bgra8unorm"]));
-            passEncoder.setVertexBuffer(0, positionBuffer);
-            passEncoder.setVertexBuffer(1, normalBuffer);
-            passEncoder.setBindGroup(0, uniformBindGroup);
-            passEncoder.setIndexBuffer(indexBuffer, "uint16");
-            passEncoder.drawIndexed(objDataExtractor.indices.length, 1, 0, 0, 0);
-            passEncoder.end();
-
-            this._device.queue.submit([commandEncoder.finish()]);
-
-            await this._device.queue.onSubmittedWorkDone();
-
-            if (this._takeScreenshot) {
-                this._takeScreenshot = false;
-                this._canvas.toBlob((blob) => {
-                if (blob === null) return;
-                const a = document.createElement("a");
-                a.href = URL.createObjectURL(blob);
-                a.download = "screenshot.png";
-                a.click();
-                });
-            }
-
-            requestAnimationFrame(render);
-        }
-        
-        requestAnimationFrame(render);
-    }
-
-
-
-    public async render_watercolor(
-        shaders: { scene: string, surface: string, mrtBlurH: string, mrtBlurV: string, stylize: string },
-        objFilePath: string,
-        paperTexPath: string,
-        modelTexPath: string,
-    ) {
-        // Load resources
-        const objResponse = await fetch(objFilePath);
-        const objBlob = await objResponse.blob();
-        const objText = await objBlob.text();
-        const objDataExtractor = new ObjDataExtractor(objText);
-
-        const paperTexResponse = await fetch(paperTexPath);
-        const paperTexBlob = await paperTexResponse.blob();
-        const paperTexBitmap = await createImageBitmap(paperTexBlob);
-
-        const modelTexResponse = await fetch(modelTexPath);
-        const modelTexBlob = await modelTexResponse.blob();
-        const modelTexBitmap = await createImageBitmap(modelTexBlob);
-        
-        // Create textures
-        const colorTex = this._createTexture(this._canvas.width, this._canvas.height, "rgba8unorm");
-        const controlTex = this._createTexture(this._canvas.width, this._canvas.height, "rgba32float");
-        const depthTex = this._createDepthTexture();
-        const surfaceTex = this._createTexture(this._canvas.width, this._canvas.height, "rgba8unorm");
-        const blurTempTex = this._createTexture(this._canvas.width, this._canvas.height, "rgba32float");
-        const bleedTempTex = this._createTexture(this._canvas.width, this._canvas.height, "rgba32float");
-        const controlTempTex = this._createTexture(this._canvas.width, this._canvas.height, "rgba32float");
-        const blurredTex = this._createTexture(this._canvas.width, this._canvas.height, "rgba32float");
-        const bleededTex = this._createTexture(this._canvas.width, this._canvas.height, "rgba32float");
-        const finalControlTex = this._createTexture(this._canvas.width, this._canvas.height, "rgba32float");
-        const paperTexture = this._createTextureFromImage(paperTexBitmap);
-        const modelTexture = this._createTextureFromImage(modelTexBitmap);
-        const sampler = this._createSampler();
-
-        const { buffer: positionBuffer, layout: positionBufferLayout } = this._createSingleAttributeVertexBuffer(objDataExtractor.vertexPositions, { format: "float32x3", offset: 0, shaderLocation: 0 }, 12);
-        const { buffer: normalBuffer, layout: normalBufferLayout } = this._createSingleAttributeVertexBuffer(objDataExtractor.normals, { format: "float32x3", offset: 0, shaderLocation: 1 }, 12);
-        const { buffer: texCoordBuffer, layout: texCoordBufferLayout } = this._createSingleAttributeVertexBuffer(objDataExtractor.uvs, { format: "float32x2", offset: 0, shaderLocation: 2 }, 8);
-        const indexBuffer = this._createGPUBuffer(objDataExtractor.indices, GPUBufferUsage.INDEX);
-        
-        const projectionMatrix = glMatrix.mat4.perspective(glMatrix.mat4.create(), 1.4, this._canvas.width / this._canvas.height, 0.1, 1000.0);
-        const arcBall = new Arcball(5.0);
-
-        const depthOnlyView = depthTex.createView({ aspect: 'depth-only' });
-
-        const render = () => {
-            const modelViewMatrix = arcBall.getMatrices();
-            const normalMatrixInput = glMatrix.mat4.transpose(glMatrix.mat4.create(), glMatrix.mat4.invert(glMatrix.mat4.create(), modelViewMatrix));
-            
-            const sceneUniformsArrayBuffer = new ArrayBuffer(192); 
-            const sceneUniformsFloat32View = new Float32Array(sceneUniformsArrayBuffer);
-
-            const objectToClip = glMatrix.mat4.multiply(glMatrix.mat4.create(), projectionMatrix, modelViewMatrix);
-            sceneUniformsFloat32View.set(objectToClip, 0); 
-            sceneUniformsFloat32View.set(modelViewMatrix, 16); 
-            
-            const normalMatrixPadded = new Float32Array(12);
-            normalMatrixPadded.set([normalMatrixInput[0], normalMatrixInput[1], normalMatrixInput[2]], 0);
-            normalMatrixPadded.set([normalMatrixInput[4], normalMatrixInput[5], normalMatrixInput[6]], 4);
-            normalMatrixPadded.set([normalMatrixInput[8], normalMatrixInput[9], normalMatrixInput[10]], 8);
-            sceneUniformsFloat32View.set(normalMatrixPadded, 32); 
-            
-            const viewPos = glMatrix.vec3.fromValues(0, 0, 5); 
-            sceneUniformsFloat32View.set(viewPos, 44); 
-            
-            const sceneUniformsBuffer = this._createGPUBuffer(sceneUniformsArrayBuffer, GPUBufferUsage.UNIFORM);
-
-            const commandEncoder = this._device.createCommandEncoder();
-
-            // Pass 1: Scene
-            {
-                const bindGroup = this._createUniformBindGroup([
-                    { type: "buffer", visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT, buffer: sceneUniformsBuffer },
-                    { type: "texture", visibility: GPUShaderStage.FRAGMENT, texture: modelTexture },
-                    { type: "sampler", visibility: GPUShaderStage.FRAGMENT, sampler: sampler },
-                ]);
-
-                const pipeline = this._createPipeline(this._createShaderModule(shaders.scene), [positionBufferLayout, normalBufferLayout, texCoordBufferLayout], [bindGroup.bindGroupLayout], ["rgba8unorm", "rgba32float"], undefined, "depth24plus-stencil8");
-                const passEncoder = commandEncoder.beginRenderPass(this._createRenderTarget([colorTex, controlTex], [{r: 1.0, g: 1.0, b: 1.0, a: 1.0}, {r: 0.0, g: 0.5, b: 0.0, a: 0.0}], undefined, depthTex));
-                passEncoder.setPipeline(pipeline);
-                passEncoder.setBindGroup(0, bindGroup.bindGroup);
-                passEncoder.setVertexBuffer(0, positionBuffer);
-                passEncoder.setVertexBuffer(1, normalBuffer);
-                passEncoder.setVertexBuffer(2, texCoordBuffer);
-                passEncoder.setIndexBuffer(indexBuffer, "uint16");
-                passEncoder.drawIndexed(objDataExtractor.indices.length);
-                passEncoder.end();
-            }
-
-            // Pass 2: Surface
-            {
-                const bindGroup = this._createUniformBindGroup([
-                    { type: "texture", visibility: GPUShaderStage.FRAGMENT, texture: paperTexture },
-                    { type: "sampler", visibility: GPUShaderStage.FRAGMENT, sampler: sampler },
-                ]);
-                const pipeline = this._createPipeline(this._createShaderModule(shaders.surface), [], [bindGroup.bindGroupLayout], ["rgba8unorm"]);
-                const passEncoder = commandEncoder.beginRenderPass(this._createRenderTarget([surfaceTex], [{r: 0.0, g: 0.0, b: 0.0, a: 0.0}]));
-                passEncoder.setPipeline(pipeline);
-                passEncoder.setBindGroup(0, bindGroup.bindGroup);
-                passEncoder.draw(3);
-                passEncoder.end();
-            }
-            
-            // Pass 3 & 4: Blur
-            const blurPass = (shader: string, inputs: IBindGroupInput[], outputs: GPUTexture[]) => {
-                const bindGroup = this._createUniformBindGroup(inputs);
-                const pipeline = this._createPipeline(this._createShaderModule(shader), [], [bindGroup.bindGroupLayout], ["rgba32float", "rgba32float", "rgba32float"]);
-                const passEncoder = commandEncoder.beginRenderPass(this._createRenderTarget(outputs, [{r: 0.0, g: 0.0, b: 0.0, a: 1.0}, {r: 0.0, g: 0.0, b: 0.0, a: 1.0}, {r: 0.0, g: 0.0, b: 0.0, a: 1.0}]));
-                passEncoder.setPipeline(pipeline);
-                passEncoder.setBindGroup(0, bindGroup.bindGroup);
-                passEncoder.draw(3);
-                passEncoder.end();
-            }
-            blurPass(shaders.mrtBlurH, [
-                { type: "texture", visibility: GPUShaderStage.FRAGMENT, texture: colorTex },
-                { type: "texture", visibility: GPUShaderStage.FRAGMENT, texture: controlTex, textureSampleType: "unfilterable-float" },
-                { type: "texture", visibility: GPUShaderStage.FRAGMENT, textureView: depthOnlyView, textureSampleType: "depth" },
-            ], [blurTempTex, bleedTempTex, controlTempTex]);
-            
-            blurPass(shaders.mrtBlurV, [
-                { type: "texture", visibility: GPUShaderStage.FRAGMENT, texture: blurTempTex, textureSampleType: "unfilterable-float" },
-                { type: "texture", visibility: GPUShaderStage.FRAGMENT, texture: bleedTempTex, textureSampleType: "unfilterable-float" },
-                { type: "texture", visibility: GPUShaderStage.FRAGMENT, texture: controlTempTex, textureSampleType: "unfilterable-float" },
-            ], [blurredTex, bleededTex, finalControlTex]);
-
-
-            // Pass 5: Stylize
-            {
-                 const bindGroup = this._createUniformBindGroup([
-                    { type: "texture", visibility: GPUShaderStage.FRAGMENT, texture: colorTex },
-                    { type: "texture", visibility: GPUShaderStage.FRAGMENT, texture: finalControlTex, textureSampleType: "unfilterable-float" },
-                    { type: "texture", visibility: GPUShaderStage.FRAGMENT, texture: blurredTex, textureSampleType: "unfilterable-float" },
-                    { type: "texture", visibility: GPUShaderStage.FRAGMENT, texture: bleededTex, textureSampleType: "unfilterable-float" },
-                    { type: "texture", visibility: GPUShaderStage.FRAGMENT, texture: surfaceTex },
-                ]);
-                const pipeline = this._createPipeline(this._createShaderModule(shaders.stylize), [], [bindGroup.bindGroupLayout], [navigator.gpu.getPreferredCanvasFormat() as GPUTextureFormat]);
-                const passEncoder = commandEncoder.beginRenderPass(this._createRenderTarget([this._context.getCurrentTexture()], [{r: 1.0, g: 1.0, b: 1.0, a: 1.0}]));
-                passEncoder.setPipeline(pipeline);
-                passEncoder.setBindGroup(0, bindGroup.bindGroup);
-                passEncoder.draw(3);
-                passEncoder.end();
-            }
-
-            this._device.queue.submit([commandEncoder.finish()]);
-            requestAnimationFrame(render);
-        }
-
-        new Controls(this._canvas, arcBall, render);
-        requestAnimationFrame(render);
+        return view;
     }
 }
-
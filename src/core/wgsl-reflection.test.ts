@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from "vitest";
+import { WgslReflection } from "./wgsl-reflection";
+
+vi.stubGlobal("GPUShaderStage", { VERTEX: 0x1, FRAGMENT: 0x2, COMPUTE: 0x4 });
+
+const SHADER = `
+struct Camera {
+    view: mat4x4<f32>,
+};
+
+@group(0) @binding(0) var<uniform> camera: Camera;
+@group(0) @binding(1) var<storage, read> instances: array<mat4x4<f32>>;
+@group(1) @binding(1) var s_diffuse: sampler;
+@group(1) @binding(0) var t_diffuse: texture_2d<f32>;
+@group(1) @binding(2) var t_data: texture_2d<f32>;
+// @group(2) @binding(0) var<uniform> commented_out: Camera;
+
+fn transform(position: vec3<f32>, instance: u32) -> vec4<f32> {
+    return camera.view * instances[instance] * vec4<f32>(position, 1.0);
+}
+
+@vertex
+fn vs_main(@location(0) position: vec3<f32>, @builtin(instance_index) instance: u32) -> @builtin(position) vec4<f32> {
+    return transform(position, instance);
+}
+
+@fragment
+fn fs_main(@builtin(position) position: vec4<f32>) -> @location(0) vec4<f32> {
+    return textureSample(t_diffuse, s_diffuse, position.xy) + textureLoad(t_data, vec2<i32>(position.xy), 0);
+}
+`;
+
+describe("WgslReflection", () => {
+    const reflection = new WgslReflection(SHADER);
+
+    it("finds the entry points and their stages", () => {
+        expect(reflection.entryPoints).toEqual([
+            { name: "vs_main", stage: GPUShaderStage.VERTEX },
+            { name: "fs_main", stage: GPUShaderStage.FRAGMENT },
+        ]);
+    });
+
+    it("builds bind group layout entries ordered by binding, visible to the stages that use them", () => {
+        expect(reflection.getGroup(0).map(binding => binding.layout)).toEqual([
+            { binding: 0, visibility: GPUShaderStage.VERTEX, buffer: { type: "uniform" } },
+            { binding: 1, visibility: GPUShaderStage.VERTEX, buffer: { type: "read-only-storage" } },
+        ]);
+        expect(reflection.getGroup(1).map(binding => binding.layout)).toEqual([
+            { binding: 0, visibility: GPUShaderStage.FRAGMENT, texture: { sampleType: "float", viewDimension: "2d", multisampled: false } },
+            { binding: 1, visibility: GPUShaderStage.FRAGMENT, sampler: { type: "filtering" } },
+            // Only read with textureLoad, so it also takes unfilterable formats
+            { binding: 2, visibility: GPUShaderStage.FRAGMENT, texture: { sampleType: "unfilterable-float", viewDimension: "2d", multisampled: false } },
+        ]);
+    });
+
+    it("ignores commented out declarations", () => {
+        expect(reflection.getGroup(2)).toEqual([]);
+        expect(reflection.getBinding("commented_out")).toBeUndefined();
+    });
+
+    it("reflects storage textures and rejects unknown binding types", () => {
+        const storage = new WgslReflection(`
+            @group(0) @binding(0) var output: texture_storage_2d<rgba16float, write>;
+            @compute @workgroup_size(8, 8) fn cs_main() { textureStore(output, vec2<i32>(0, 0), vec4<f32>(0.0)); }
+        `);
+        expect(storage.getBinding("output")?.layout).toEqual({
+            binding: 0,
+            visibility: GPUShaderStage.COMPUTE,
+            storageTexture: { format: "rgba16float", access: "write-only", viewDimension: "2d" },
+        });
+        expect(() => new WgslReflection("@group(0) @binding(0) var data: Custom;")).toThrow(`Unsupported WGSL binding type "Custom"`);
+    });
+});
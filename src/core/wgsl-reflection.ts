@@ -0,0 +1,248 @@
+export type WgslBindingKind = "buffer" | "sampler" | "texture" | "storageTexture" | "externalTexture";
+
+export interface IWgslBinding {
+    name: string;
+    group: number;
+    binding: number;
+    kind: WgslBindingKind;
+    /** The declaration as written, e.g. "var<storage, read> kernel: array<f32>", for error messages. */
+    declaration: string;
+    /** Layout entry derived from the declaration and the stages whose entry points use the variable. */
+    layout: GPUBindGroupLayoutEntry;
+}
+
+export interface IWgslEntryPoint {
+    name: string;
+    stage: GPUShaderStageFlags;
+}
+
+interface IWgslFunction {
+    name: string;
+    stage?: GPUShaderStageFlags;
+    body: string;
+}
+
+const ATTRIBUTES = String.raw`((?:@\w+(?:\s*\([^)]*\))?\s*)*)`;
+const VAR_PATTERN = new RegExp(ATTRIBUTES + String.raw`\bvar\s*(?:<([^>]*)>)?\s*(\w+)\s*:\s*([^;=]+?)\s*;`, "g");
+const FN_PATTERN = new RegExp(ATTRIBUTES + String.raw`\bfn\s+(\w+)`, "g");
+const IDENTIFIER_PATTERN = /\b[A-Za-z_]\w*\b/g;
+
+const VIEW_DIMENSIONS: Record<string, GPUTextureViewDimension> = {
+    "1d": "1d",
+    "2d": "2d",
+    "2d_array": "2d-array",
+    "3d": "3d",
+    "cube": "cube",
+    "cube_array": "cube-array",
+};
+
+const SAMPLE_TYPES: Record<string, GPUTextureSampleType> = {
+    f32: "float",
+    i32: "sint",
+    u32: "uint",
+};
+
+const STORAGE_ACCESS: Record<string, GPUStorageTextureAccess> = {
+    read: "read-only",
+    write: "write-only",
+    read_write: "read-write",
+};
+
+/**
+ * Removes line and (nested) block comments so commented-out declarations aren't reflected.
+ */
+function stripComments(source: string): string {
+    let result = "";
+    let depth = 0;
+    for (let i = 0; i < source.length; i++) {
+        if (depth === 0 && source.startsWith("//", i)) {
+            const end = source.indexOf("\n", i);
+            i = end === -1 ? source.length : end - 1;
+        } else if (source.startsWith("/*", i)) {
+            depth++;
+            i++;
+        } else if (depth > 0 && source.startsWith("*/", i)) {
+            depth--;
+            i++;
+        } else if (depth === 0) {
+            result += source[i];
+        }
+    }
+    return result;
+}
+
+function attributeValue(attributes: string, name: string): number | undefined {
+    const match = new RegExp(String.raw`@${name}\s*\(\s*(\d+)\s*\)`).exec(attributes);
+    return match ? parseInt(match[1]) : undefined;
+}
+
+function entryPointStage(attributes: string): GPUShaderStageFlags | undefined {
+    if (/@vertex\b/.test(attributes)) return GPUShaderStage.VERTEX;
+    if (/@fragment\b/.test(attributes)) return GPUShaderStage.FRAGMENT;
+    if (/@compute\b/.test(attributes)) return GPUShaderStage.COMPUTE;
+    return undefined;
+}
+
+/**
+ * Lightweight reflection of a WGSL module: its @group/@binding variables and the entry points that use them.
+ * This is a pattern matcher rather than a parser, so it only understands declarations written with built-in
+ * types (no aliases), which covers every shader in this repo.
+ */
+export class WgslReflection {
+    private _bindings: IWgslBinding[];
+    private _entryPoints: IWgslEntryPoint[];
+
+    constructor(source: string) {
+        const code = stripComments(source);
+        const functions = this._parseFunctions(code);
+        this._entryPoints = functions
+            .filter(fn => fn.stage !== undefined)
+            .map(fn => ({ name: fn.name, stage: fn.stage! }));
+        const visibility = this._resolveVisibility(functions);
+        const allStages = this._entryPoints.reduce((stages, entryPoint) => stages | entryPoint.stage, 0);
+
+        this._bindings = [];
+        for (const match of code.matchAll(VAR_PATTERN)) {
+            const [, attributes, template, name, type] = match;
+            const group = attributeValue(attributes, "group");
+            const binding = attributeValue(attributes, "binding");
+            if (group === undefined || binding === undefined) {
+                continue;
+            }
+            const declaration = `var${template !== undefined ? `<${template}>` : ""} ${name}: ${type.replace(/\s+/g, " ")}`;
+            // Unused bindings still need a layout entry; give them every stage the module has
+            const stages = visibility.get(name) || allStages;
+            this._bindings.push(this._reflectBinding(code, name, group, binding, template, type.replace(/\s+/g, ""), declaration, stages));
+        }
+        this._bindings.sort((a, b) => a.group - b.group || a.binding - b.binding);
+    }
+
+    public get bindings(): IWgslBinding[] {
+        return this._bindings;
+    }
+
+    public get entryPoints(): IWgslEntryPoint[] {
+        return this._entryPoints;
+    }
+
+    /**
+     * Bindings of one bind group, ordered by @binding.
+     */
+    public getGroup(group: number): IWgslBinding[] {
+        return this._bindings.filter(binding => binding.group === group);
+    }
+
+    public getBinding(name: string): IWgslBinding | undefined {
+        return this._bindings.find(binding => binding.name === name);
+    }
+
+    private _parseFunctions(code: string): IWgslFunction[] {
+        const functions: IWgslFunction[] = [];
+        for (const match of code.matchAll(FN_PATTERN)) {
+            const bodyStart = code.indexOf("{", match.index! + match[0].length);
+            if (bodyStart === -1) {
+                continue;
+            }
+            let depth = 0;
+            let bodyEnd = bodyStart;
+            for (; bodyEnd < code.length; bodyEnd++) {
+                if (code[bodyEnd] === "{") depth++;
+                if (code[bodyEnd] === "}" && --depth === 0) break;
+            }
+            functions.push({ name: match[2], stage: entryPointStage(match[1]), body: code.slice(bodyStart, bodyEnd + 1) });
+        }
+        return functions;
+    }
+
+    /**
+     * Maps every identifier reachable from an entry point, including through helper function calls, to the
+     * stages of the entry points that reach it.
+     */
+    private _resolveVisibility(functions: IWgslFunction[]): Map<string, GPUShaderStageFlags> {
+        const byName = new Map(functions.map(fn => [fn.name, fn]));
+        const visibility = new Map<string, GPUShaderStageFlags>();
+        for (const entryPoint of functions.filter(fn => fn.stage !== undefined)) {
+            const visited = new Set<string>();
+            const pending = [entryPoint];
+            while (pending.length > 0) {
+                const fn = pending.pop()!;
+                for (const [identifier] of fn.body.matchAll(IDENTIFIER_PATTERN)) {
+                    visibility.set(identifier, (visibility.get(identifier) ?? 0) | entryPoint.stage!);
+                    const callee = byName.get(identifier);
+                    if (callee && !visited.has(identifier)) {
+                        visited.add(identifier);
+                        pending.push(callee);
+                    }
+                }
+            }
+        }
+        return visibility;
+    }
+
+    private _reflectBinding(code: string, name: string, group: number, binding: number, template: string | undefined,
+        type: string, declaration: string, visibility: GPUShaderStageFlags): IWgslBinding {
+        const base: Omit<IWgslBinding, "kind" | "layout"> = { name, group, binding, declaration };
+        const layout: GPUBindGroupLayoutEntry = { binding, visibility };
+
+        const addressSpace = template?.split(",").map(part => part.trim());
+        if (addressSpace?.[0] === "uniform") {
+            return { ...base, kind: "buffer", layout: { ...layout, buffer: { type: "uniform" } } };
+        }
+        if (addressSpace?.[0] === "storage") {
+            const access = addressSpace[1] ?? "read";
+            return { ...base, kind: "buffer", layout: { ...layout, buffer: { type: access === "read_write" ? "storage" : "read-only-storage" } } };
+        }
+
+        const typeMatch = /^(\w+)(?:<(.*)>)?$/.exec(type);
+        const typeName = typeMatch?.[1] ?? type;
+        const typeParams = typeMatch?.[2]?.split(",") ?? [];
+
+        if (typeName === "sampler") {
+            return { ...base, kind: "sampler", layout: { ...layout, sampler: { type: "filtering" } } };
+        }
+        if (typeName === "sampler_comparison") {
+            return { ...base, kind: "sampler", layout: { ...layout, sampler: { type: "comparison" } } };
+        }
+        if (typeName === "texture_external") {
+            return { ...base, kind: "externalTexture", layout: { ...layout, externalTexture: {} } };
+        }
+
+        let textureMatch = /^texture_storage_(\w+)$/.exec(typeName);
+        if (textureMatch && VIEW_DIMENSIONS[textureMatch[1]] && typeParams.length === 2) {
+            return {
+                ...base,
+                kind: "storageTexture",
+                layout: { ...layout, storageTexture: { format: typeParams[0] as GPUTextureFormat, access: STORAGE_ACCESS[typeParams[1]], viewDimension: VIEW_DIMENSIONS[textureMatch[1]] } },
+            };
+        }
+
+        textureMatch = /^texture_depth_(multisampled_)?(\w+)$/.exec(typeName);
+        if (textureMatch && VIEW_DIMENSIONS[textureMatch[2]]) {
+            return {
+                ...base,
+                kind: "texture",
+                layout: { ...layout, texture: { sampleType: "depth", viewDimension: VIEW_DIMENSIONS[textureMatch[2]], multisampled: textureMatch[1] !== undefined } },
+            };
+        }
+
+        textureMatch = /^texture_(multisampled_)?(\w+)$/.exec(typeName);
+        if (textureMatch && VIEW_DIMENSIONS[textureMatch[2]] && SAMPLE_TYPES[typeParams[0]]) {
+            let sampleType = SAMPLE_TYPES[typeParams[0]];
+            // Float textures that are only read with textureLoad also accept unfilterable formats like rgba32float
+            if (sampleType === "float" && !this._isFiltered(code, name)) {
+                sampleType = "unfilterable-float";
+            }
+            return {
+                ...base,
+                kind: "texture",
+                layout: { ...layout, texture: { sampleType, viewDimension: VIEW_DIMENSIONS[textureMatch[2]], multisampled: textureMatch[1] !== undefined } },
+            };
+        }
+
+        throw new Error(`Unsupported WGSL binding type "${type}" for "${name}" (@group(${group}) @binding(${binding}))`);
+    }
+
+    private _isFiltered(code: string, name: string): boolean {
+        return new RegExp(String.raw`\btexture(?:Sample\w*|Gather\w*)\s*\(\s*(?:\d+\w*\s*,\s*)?${name}\b`).test(code);
+    }
+}
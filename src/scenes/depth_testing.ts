@@ -1,10 +1,13 @@
 import * as glMatrix from "gl-matrix";
 import type { WebGPUContext } from "../core/webgpu-context";
+import type { ISceneHandle } from "../core/scene";
+import { RenderGraph } from "../core/render-graph";
 import depthTestingWgsl from "../shaders/depth_testing.wgsl?raw";
 
-const renderScene = async (webGpuContext: WebGPUContext) => {
+const renderScene = async (webGpuContext: WebGPUContext): Promise<ISceneHandle> => {
+    const scene = webGpuContext.createScene();
     const transformationMatrix = glMatrix.mat4.lookAt(glMatrix.mat4.create(), glMatrix.vec3.fromValues(300, 300, 300), glMatrix.vec3.fromValues(0, 0, 0), glMatrix.vec3.fromValues(0.0, 0.0, 1.0));
-    const projectionMatrix = glMatrix.mat4.perspective(glMatrix.mat4.create(), 1.4, 640.0 / 480.0, 0.1, 1000.0);
+    const projectionMatrix = glMatrix.mat4.perspective(glMatrix.mat4.create(), 1.4, webGpuContext.canvas.width / webGpuContext.canvas.height, 0.1, 1000.0);
     const positions = new Float32Array([
         -100.0, 100.0, 0.0,
         -100.0, 100.0, 200.0,
@@ -20,7 +23,34 @@ const renderScene = async (webGpuContext: WebGPUContext) => {
         -100.0, 100.0, 0.0,
         -100.0, 100.0, 200.0
     ]);
-    webGpuContext.render_depth_testing(depthTestingWgsl, 10, 1, positions, Float32Array.from(transformationMatrix), Float32Array.from(projectionMatrix));
+
+    const projectionMatrixBuffer = webGpuContext.createGPUBuffer(Float32Array.from(projectionMatrix), GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST);
+    scene.onResize((width, height) => {
+        webGpuContext.device.queue.writeBuffer(projectionMatrixBuffer, 0, Float32Array.from(glMatrix.mat4.perspective(glMatrix.mat4.create(), 1.4, width / height, 0.1, 1000.0)));
+    });
+
+    const { bindGroupLayout: uniformBindGroupLayout, bindGroup: uniformBindGroup } = webGpuContext.createBindGroup(depthTestingWgsl, {
+        transform: webGpuContext.createGPUBuffer(Float32Array.from(transformationMatrix), GPUBufferUsage.UNIFORM),
+        projection: projectionMatrixBuffer,
+    });
+    const { buffer: positionBuffer, layout: positionBufferLayout } = webGpuContext.createSingleAttributeVertexBuffer(positions, { format: "float32x3", offset: 0, shaderLocation: 0 }, 3 * Float32Array.BYTES_PER_ELEMENT);
+
+    const renderGraph = webGpuContext.createRenderGraph()
+        .createTexture("depth", { format: "depth24plus-stencil8" })
+        .addPass({
+            name: "depthTesting",
+            colorAttachments: [{ texture: RenderGraph.BACKBUFFER, clearValue: { r: 1.0, g: 0.0, b: 0.0, a: 1.0 } }],
+            depthStencilAttachment: { texture: "depth", depthClearValue: 1 },
+            execute: (passEncoder) => {
+                passEncoder.setPipeline(webGpuContext.createPipeline(webGpuContext.createShaderModule(depthTestingWgsl), [positionBufferLayout], [uniformBindGroupLayout], [webGpuContext.canvasFormat], undefined, "depth24plus-stencil8"));
+                passEncoder.setVertexBuffer(0, positionBuffer);
+                passEncoder.setBindGroup(0, uniformBindGroup);
+                passEncoder.draw(10, 1);
+            },
+        });
+
+    scene.setFrame(() => renderGraph.execute());
+    return scene;
 };
 
 export default renderScene;
@@ -1,14 +1,22 @@
 import * as glMatrix from "gl-matrix";
 import type { WebGPUContext } from "../core/webgpu-context";
+import type { ISceneHandle } from "../core/scene";
+import { RenderGraph } from "../core/render-graph";
 import vertGaussianBlurWgsl from "../shaders/vert_gaussian_blur.wgsl?raw";
 import horizGaussianBlurWgsl from "../shaders/horiz_gaussian_blur.wgsl?raw";
 
-const renderScene = async (webGpuContext: WebGPUContext) => {
+const renderScene = async (webGpuContext: WebGPUContext): Promise<ISceneHandle> => {
+    const scene = webGpuContext.createScene();
     const transformationMatrix = glMatrix.mat4.lookAt(glMatrix.mat4.create(), 
       glMatrix.vec3.fromValues(0, 0, 10), 
       glMatrix.vec3.fromValues(0,0,0), 
       glMatrix.vec3.fromValues(0.0, 1.0, 0.0));
-    const orthProjMatrix = glMatrix.mat4.ortho(glMatrix.mat4.create(), -320.0, 320.0, 240.0, -240.0, -1000.0, 1000.0);
+    // Keeps the original 480 unit tall view, widened or narrowed to the canvas aspect ratio
+    const orthographic = (width: number, height: number) => {
+      const halfWidth = 240.0 * width / height;
+      return glMatrix.mat4.ortho(glMatrix.mat4.create(), -halfWidth, halfWidth, 240.0, -240.0, -1000.0, 1000.0);
+    };
+    const orthProjMatrix = orthographic(webGpuContext.canvas.width, webGpuContext.canvas.height);
     const positions = new Float32Array([
       100.0, -100.0, 0.0,
       100.0, 100.0, 0.0,
@@ -21,7 +29,75 @@ const renderScene = async (webGpuContext: WebGPUContext) => {
       0.0, 0.0,
       0.0, 1.0
     ]);
-    webGpuContext.render_gaussian_blur(vertGaussianBlurWgsl, horizGaussianBlurWgsl, 4, 1, positions, texCoords, Float32Array.from(transformationMatrix), Float32Array.from(orthProjMatrix), "baboon.png");
+
+    const imageBitmap = await webGpuContext.loadImageBitmap("baboon.png");
+    const texture = webGpuContext.createTextureFromImage(imageBitmap);
+    const sampler = webGpuContext.createSampler();
+
+    const kValues = [];
+    const kernelSize = 8.0;
+    const sigma = 8.0;
+    for (let y = - kernelSize; y <= kernelSize; y += 1.0) {
+      kValues.push(1.0 / Math.sqrt(2.0 * Math.PI * sigma * sigma) * Math.exp(-y * y / (2.0 * sigma * sigma)));
+    }
+
+    const transformationMatrixBuffer = webGpuContext.createGPUBuffer(Float32Array.from(transformationMatrix), GPUBufferUsage.UNIFORM);
+    const projectionMatrixBuffer = webGpuContext.createGPUBuffer(Float32Array.from(orthProjMatrix), GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST);
+    scene.onResize((width, height) => {
+      webGpuContext.device.queue.writeBuffer(projectionMatrixBuffer, 0, Float32Array.from(orthographic(width, height)));
+    });
+    const imgSizeBuffer = webGpuContext.createGPUBuffer(new Float32Array([imageBitmap.width, imageBitmap.height]), GPUBufferUsage.UNIFORM);
+    const kernelBuffer = webGpuContext.createGPUBuffer(new Float32Array(kValues), GPUBufferUsage.STORAGE);
+    const kernelSizeBuffer = webGpuContext.createGPUBuffer(new Float32Array([kernelSize]), GPUBufferUsage.UNIFORM);
+
+    const { bindGroupLayout: uniformBindGroupLayoutPassOne, bindGroup: uniformBindGroupPassOne } = webGpuContext.createBindGroup(vertGaussianBlurWgsl, {
+      img_size: imgSizeBuffer,
+      t_diffuse: texture,
+      s_diffuse: sampler,
+      kernel: kernelBuffer,
+      kernel_size: kernelSizeBuffer,
+    });
+
+    const { buffer: positionBuffer, layout: positionBufferLayout } = webGpuContext.createSingleAttributeVertexBuffer(positions, { format: "float32x3", offset: 0, shaderLocation: 0 }, 3 * Float32Array.BYTES_PER_ELEMENT);
+    const { buffer: texCoordBufferOne, layout: texCoordBufferLayoutOne } = webGpuContext.createSingleAttributeVertexBuffer(texCoords, { format: "float32x2", offset: 0, shaderLocation: 0 }, 2 * Float32Array.BYTES_PER_ELEMENT);
+    const { buffer: texCoordBufferTwo, layout: texCoordBufferLayoutTwo } = webGpuContext.createSingleAttributeVertexBuffer(texCoords, { format: "float32x2", offset: 0, shaderLocation: 1 }, 2 * Float32Array.BYTES_PER_ELEMENT);
+
+    const renderGraph = webGpuContext.createRenderGraph()
+      .createTexture("passOne", { format: "rgba8unorm", size: { width: texture.width, height: texture.height } })
+      .addPass({
+        name: "verticalBlur",
+        colorAttachments: [{ texture: "passOne", clearValue: { r: 0.0, g: 0.0, b: 0.0, a: 0.0 } }],
+        execute: (passEncoder) => {
+          passEncoder.setPipeline(webGpuContext.createPipeline(webGpuContext.createShaderModule(vertGaussianBlurWgsl), [texCoordBufferLayoutOne], [uniformBindGroupLayoutPassOne], ["rgba8unorm"]));
+          passEncoder.setVertexBuffer(0, texCoordBufferOne);
+          passEncoder.setBindGroup(0, uniformBindGroupPassOne);
+          passEncoder.draw(4, 1);
+        },
+      })
+      .addPass({
+        name: "horizontalBlur",
+        inputs: ["passOne"],
+        colorAttachments: [{ texture: RenderGraph.BACKBUFFER, clearValue: { r: 1.0, g: 0.0, b: 0.0, a: 1.0 } }],
+        execute: (passEncoder, resources) => {
+          const { bindGroupLayout: uniformBindGroupLayoutPassTwo, bindGroup: uniformBindGroupPassTwo } = webGpuContext.createBindGroup(horizGaussianBlurWgsl, {
+            transform: transformationMatrixBuffer,
+            projection: projectionMatrixBuffer,
+            img_size: imgSizeBuffer,
+            t_diffuse: resources.getView("passOne"),
+            s_diffuse: sampler,
+            kernel: kernelBuffer,
+            kernel_size: kernelSizeBuffer,
+          });
+          passEncoder.setPipeline(webGpuContext.createPipeline(webGpuContext.createShaderModule(horizGaussianBlurWgsl), [positionBufferLayout, texCoordBufferLayoutTwo], [uniformBindGroupLayoutPassTwo], [webGpuContext.canvasFormat]));
+          passEncoder.setVertexBuffer(0, positionBuffer);
+          passEncoder.setVertexBuffer(1, texCoordBufferTwo);
+          passEncoder.setBindGroup(0, uniformBindGroupPassTwo);
+          passEncoder.draw(4, 1);
+        },
+      });
+
+    scene.setFrame(() => renderGraph.execute());
+    return scene;
 };
 
 export default renderScene;
@@ -0,0 +1,124 @@
+import * as glMatrix from "gl-matrix";
+import type { WebGPUContext } from "../core/webgpu-context";
+import type { ISceneHandle } from "../core/scene";
+import { RenderGraph } from "../core/render-graph";
+import { UniformStructLayout } from "../core/uniform-struct";
+import { Model } from "../utils/model";
+import { Arcball } from "../utils/arcball";
+import { Controls } from "../utils/controls";
+import { InstancedRenderer, instancedShader } from "../utils/instancedRenderer";
+import { buildSceneLayout, type SceneLayout } from "../utils/sceneLayouts";
+import { LineLayer, type ILineLayerOptions } from "../utils/lineLayer";
+import { createTonalArtMapTexture, generateTonalArtMap } from "../utils/tonalArtMap";
+import hatchingSource from "../shaders/hatching.wgsl?raw";
+
+const hatchingWgsl = instancedShader(hatchingSource);
+
+export interface IHatchingOptions {
+    /** Hatch texture repeats across the model's diameter. */
+    density?: number;
+    /** Stroke direction in degrees. */
+    angle?: number;
+}
+
+const DEFAULT_DENSITY = 4;
+const DEFAULT_ANGLE = 45;
+const LIGHT_DIRECTION = glMatrix.vec3.normalize(glMatrix.vec3.create(), [-0.5, 0.5, 0.7]);
+const PAPER_COLOR: [number, number, number] = [0.98, 0.96, 0.9];
+const INK_COLOR: [number, number, number] = [0.08, 0.08, 0.12];
+
+/**
+ * @param lines Draws ink lines over the hatching, in these styles.
+ */
+const renderScene = async (webGpuContext: WebGPUContext, layout: SceneLayout = "single", options: IHatchingOptions = {}, lines?: ILineLayerOptions): Promise<ISceneHandle> => {
+    const scene = webGpuContext.createScene();
+    const canvas = webGpuContext.canvas;
+
+    const model = await Model.load(webGpuContext, webGpuContext.assets.userAsset("model") ?? "teapot.obj", {
+        defaultMaterial: { diffuseColor: [1.0, 1.0, 1.0] },
+        diffuseMap: webGpuContext.assets.userAsset("diffuse"),
+    });
+    const graph = await buildSceneLayout(webGpuContext, model, layout);
+    const renderer = new InstancedRenderer(webGpuContext, ["position", "normal", "uv"]);
+
+    const tonalArtMap = createTonalArtMapTexture(webGpuContext, generateTonalArtMap({ angle: glMatrix.glMatrix.toRadian(options.angle ?? DEFAULT_ANGLE) }));
+    const tonalArtMapSampler = webGpuContext.createSampler("anisotropic-repeat");
+    const tileScale = (options.density ?? DEFAULT_DENSITY) / (2 * model.bounds.radius);
+
+    const materialLayout = new UniformStructLayout({ diffuse: "vec3f" });
+    const sampler = webGpuContext.createSampler("anisotropic-repeat");
+    const materials = graph.batches.flatMap(batch => batch.model.materials);
+    const materialBindGroups = new Map(materials.map(material => {
+        const materialUniforms = materialLayout.createWriter().set("diffuse", material.diffuseColor);
+        return [material, webGpuContext.createBindGroup(hatchingWgsl, {
+            material: webGpuContext.createGPUBuffer(materialUniforms.data, GPUBufferUsage.UNIFORM),
+            t_diffuse: material.diffuseTexture,
+            s_diffuse: sampler,
+        }, 1)];
+    }));
+    const materialBindGroupLayout = [...materialBindGroups.values()][0].bindGroupLayout;
+    const lineLayer = lines ? new LineLayer(webGpuContext, renderer, materials, lines) : undefined;
+
+    let aspect = canvas.width / canvas.height;
+    scene.onResize((width, height) => {
+        aspect = width / height;
+    });
+    const arcBall = new Arcball(5.0);
+    arcBall.frame(graph.bounds, aspect);
+    scene.onFrameObject(() => arcBall.frame(graph.bounds, aspect));
+
+    const uniforms = new UniformStructLayout({
+        view: "mat4x4f",
+        projection: "mat4x4f",
+        normal_to_view: "mat4x4f",
+        light_direction: "vec3f",
+        tile_scale: "f32",
+        paper_color: "vec3f",
+        ink_color: "vec3f",
+    }).createWriter();
+
+    const renderGraph = webGpuContext.createRenderGraph()
+        .createTexture("depth", { format: "depth24plus-stencil8" })
+        .createTexture("hatched", { format: webGpuContext.canvasFormat })
+        .addPass({
+            name: "hatching",
+            colorAttachments: [{ texture: lineLayer ? "hatched" : RenderGraph.BACKBUFFER, clearValue: { r: PAPER_COLOR[0], g: PAPER_COLOR[1], b: PAPER_COLOR[2], a: 1.0 } }],
+            depthStencilAttachment: { texture: "depth", depthClearValue: 1 },
+            multisampled: true,
+            execute: (passEncoder, resources) => {
+                const viewMatrix = arcBall.getMatrices();
+                uniforms
+                    .set("view", viewMatrix)
+                    .set("projection", arcBall.getProjectionMatrix(aspect))
+                    .set("normal_to_view", glMatrix.mat4.transpose(glMatrix.mat4.create(), glMatrix.mat4.invert(glMatrix.mat4.create(), viewMatrix)))
+                    .set("light_direction", LIGHT_DIRECTION)
+                    .set("tile_scale", tileScale)
+                    .set("paper_color", PAPER_COLOR)
+                    .set("ink_color", INK_COLOR);
+                const bindGroup = webGpuContext.createBindGroup(hatchingWgsl, {
+                    uniforms: { ...webGpuContext.uniforms.allocate(uniforms.data), hasDynamicOffset: true },
+                    instances: renderer.instanceBuffer,
+                    t_tam: tonalArtMap,
+                    s_tam: tonalArtMapSampler,
+                });
+                passEncoder.setPipeline(webGpuContext.createPipeline(webGpuContext.createShaderModule(hatchingWgsl), renderer.vertexBufferLayouts, [bindGroup.bindGroupLayout, materialBindGroupLayout], [webGpuContext.canvasFormat], undefined, "depth24plus-stencil8", resources.sampleCount));
+                passEncoder.setBindGroup(0, bindGroup.bindGroup, bindGroup.dynamicOffsets);
+                renderer.draw(passEncoder, material => passEncoder.setBindGroup(1, materialBindGroups.get(material)!.bindGroup));
+            },
+        });
+    if (lineLayer) {
+        lineLayer.addPasses(renderGraph, () => ({ view: arcBall.getMatrices(), projection: arcBall.getProjectionMatrix(aspect) }), "hatched");
+    }
+
+    const controls = new Controls(canvas, arcBall, () => scene.requestFrame(), () => scene.frameObject());
+    scene.onDispose(() => controls.dispose());
+
+    scene.startFrameLoop(() => {
+        webGpuContext.uniforms.beginFrame();
+        renderer.update(graph);
+        renderGraph.execute();
+    });
+    return scene;
+};
+
+export default renderScene;
@@ -1,18 +1,58 @@
-import * as glMatrix from "gl-matrix";
 import type { WebGPUContext } from "../core/webgpu-context";
-import objModelWgsl from "../shaders/obj_model.wgsl?raw"; 
-
-const renderScene = async (webGpuContext: WebGPUContext) => {
-    const modelViewMatrix = glMatrix.mat4.lookAt(glMatrix.mat4.create(), glMatrix.vec3.fromValues(3, 3, 3), 
-        glMatrix.vec3.fromValues(0, 0, 0), glMatrix.vec3.fromValues(0.0, 0.0, 1.0));
-    const projectionMatrix = glMatrix.mat4.perspective(glMatrix.mat4.create(), 1.4, 640.0 / 480.0, 0.1, 1000.0);
-    const modelViewMatrixInverse = glMatrix.mat4.invert(glMatrix.mat4.create(), modelViewMatrix);
-    const normalMatrix = glMatrix.mat4.transpose(glMatrix.mat4.create(), modelViewMatrixInverse);
-    const lightDirection = glMatrix.vec3.fromValues(-1, -1, -1);
-    const viewDirection = glMatrix.vec3.fromValues(-1, -1, -1);
-
-    webGpuContext.render_obj_model(objModelWgsl, "teapot.obj", Float32Array.from(modelViewMatrix), Float32Array.from(projectionMatrix), 
-        Float32Array.from(normalMatrix), Float32Array.from(lightDirection), Float32Array.from(viewDirection));
+import type { ISceneHandle } from "../core/scene";
+import { RenderGraph } from "../core/render-graph";
+import { Model } from "../utils/model";
+import { Arcball } from "../utils/arcball";
+import { Controls } from "../utils/controls";
+import { InstancedRenderer } from "../utils/instancedRenderer";
+import { buildSceneLayout, type SceneLayout } from "../utils/sceneLayouts";
+import { LineLayer, type ILineLayerOptions } from "../utils/lineLayer";
+import { PhongShader } from "../utils/phongShader";
+
+/**
+ * @param lines Draws ink lines over the scene, in these styles.
+ */
+const renderScene = async (webGpuContext: WebGPUContext, layout: SceneLayout = "single", lines?: ILineLayerOptions): Promise<ISceneHandle> => {
+    const scene = webGpuContext.createScene();
+    const canvas = webGpuContext.canvas;
+
+    // The defaults keep the original grey Phong look for models without materials
+    const model = await Model.load(webGpuContext, webGpuContext.assets.userAsset("model") ?? "teapot.obj", {
+        defaultMaterial: { diffuseColor: [0.25, 0.25, 0.25], specularColor: [1.0, 1.0, 1.0], shininess: 20.0 },
+        diffuseMap: webGpuContext.assets.userAsset("diffuse"),
+    });
+    const graph = await buildSceneLayout(webGpuContext, model, layout);
+    const renderer = new InstancedRenderer(webGpuContext, ["position", "normal", "uv", "tangent"]);
+
+    let aspect = canvas.width / canvas.height;
+
+    const materials = graph.batches.flatMap(batch => batch.model.materials);
+    const phong = new PhongShader(webGpuContext, renderer, materials);
+    const lineLayer = lines ? new LineLayer(webGpuContext, renderer, materials, lines) : undefined;
+
+    const arcBall = new Arcball(5.0);
+    arcBall.frame(graph.bounds, aspect);
+    scene.onFrameObject(() => arcBall.frame(graph.bounds, aspect));
+
+    const renderGraph = webGpuContext.createRenderGraph().createTexture("shaded", { format: webGpuContext.canvasFormat });
+    phong.addPass(renderGraph, () => ({ view: arcBall.getMatrices(), projection: arcBall.getProjectionMatrix(aspect), forward: arcBall.forward }), lineLayer ? "shaded" : RenderGraph.BACKBUFFER, { r: 1.0, g: 0.0, b: 0.0, a: 1.0 });
+    if (lineLayer) {
+        lineLayer.addPasses(renderGraph, () => ({ view: arcBall.getMatrices(), projection: arcBall.getProjectionMatrix(aspect) }), "shaded");
+    }
+
+    const controls = new Controls(canvas, arcBall, () => scene.requestFrame(), () => scene.frameObject());
+    scene.onDispose(() => controls.dispose());
+
+    scene.onResize((width, height) => {
+        aspect = width / height;
+    });
+
+    scene.startFrameLoop(() => {
+        webGpuContext.uniforms.beginFrame();
+        renderer.update(graph);
+        renderGraph.execute();
+    });
+    return scene;
 };
 
 export default renderScene;
@@ -0,0 +1,68 @@
+import type { WebGPUContext } from "../core/webgpu-context";
+import type { ISceneHandle } from "../core/scene";
+import { RenderGraph } from "../core/render-graph";
+import { Model } from "../utils/model";
+import { Arcball } from "../utils/arcball";
+import { Controls } from "../utils/controls";
+import { InstancedRenderer } from "../utils/instancedRenderer";
+import { buildSceneLayout, type SceneLayout } from "../utils/sceneLayouts";
+import { OilPaintFilter, type IOilPaintOptions } from "../utils/oilPaintFilter";
+import { PhongShader } from "../utils/phongShader";
+
+export type OilPaintSource = "scene" | "image";
+
+/**
+ * @param source Paints the Phong-shaded scene, or a static image: the dropped "image" asset or baboon.png. The
+ * layout only applies to the scene.
+ */
+const renderScene = async (webGpuContext: WebGPUContext, layout: SceneLayout = "single", options: IOilPaintOptions = {}, source: OilPaintSource = "scene"): Promise<ISceneHandle> => {
+    const scene = webGpuContext.createScene();
+    const canvas = webGpuContext.canvas;
+    const filter = new OilPaintFilter(webGpuContext, options);
+
+    if (source === "image") {
+        const imageBitmap = await webGpuContext.loadImageBitmap(webGpuContext.assets.userAsset("image") ?? "baboon.png");
+        const image = webGpuContext.createTextureFromImage(imageBitmap);
+        const renderGraph = webGpuContext.createRenderGraph().importTexture("image", () => image);
+        filter.addPasses(renderGraph, "image", RenderGraph.BACKBUFFER, { width: image.width, height: image.height });
+        scene.setFrame(() => {
+            webGpuContext.uniforms.beginFrame();
+            renderGraph.execute();
+        });
+        return scene;
+    }
+
+    // Saturated defaults, since a grey model leaves the filter little to paint
+    const model = await Model.load(webGpuContext, webGpuContext.assets.userAsset("model") ?? "teapot.obj", {
+        defaultMaterial: { diffuseColor: [0.75, 0.3, 0.1], specularColor: [1.0, 1.0, 1.0], shininess: 20.0 },
+        diffuseMap: webGpuContext.assets.userAsset("diffuse"),
+    });
+    const graph = await buildSceneLayout(webGpuContext, model, layout);
+    const renderer = new InstancedRenderer(webGpuContext, ["position", "normal", "uv", "tangent"]);
+
+    const phong = new PhongShader(webGpuContext, renderer, graph.batches.flatMap(batch => batch.model.materials));
+
+    let aspect = canvas.width / canvas.height;
+    scene.onResize((width, height) => {
+        aspect = width / height;
+    });
+    const arcBall = new Arcball(5.0);
+    arcBall.frame(graph.bounds, aspect);
+    scene.onFrameObject(() => arcBall.frame(graph.bounds, aspect));
+
+    const renderGraph = webGpuContext.createRenderGraph().createTexture("shaded", { format: webGpuContext.canvasFormat });
+    phong.addPass(renderGraph, () => ({ view: arcBall.getMatrices(), projection: arcBall.getProjectionMatrix(aspect), forward: arcBall.forward }), "shaded", { r: 0.85, g: 0.8, b: 0.7, a: 1.0 });
+    filter.addPasses(renderGraph, "shaded");
+
+    const controls = new Controls(canvas, arcBall, () => scene.requestFrame(), () => scene.frameObject());
+    scene.onDispose(() => controls.dispose());
+
+    scene.startFrameLoop(() => {
+        webGpuContext.uniforms.beginFrame();
+        renderer.update(graph);
+        renderGraph.execute();
+    });
+    return scene;
+};
+
+export default renderScene;
@@ -1,16 +1,93 @@
 import * as glMatrix from "gl-matrix";
 import type { WebGPUContext } from "../core/webgpu-context";
+import type { ISceneHandle } from "../core/scene";
+import { RenderGraph } from "../core/render-graph";
 import textureWgsl from "../shaders/textured_shape.wgsl?raw";
 
-const renderScene = async (webGpuContext: WebGPUContext) => {
+const renderScene = async (webGpuContext: WebGPUContext): Promise<ISceneHandle> => {
+    const scene = webGpuContext.createScene();
     const translateMatrix = glMatrix.mat4.lookAt(glMatrix.mat4.create(),
             glMatrix.vec3.fromValues(0, 0, 500), glMatrix.vec3.fromValues(0, 0, 0), glMatrix.vec3.fromValues(0.0, 1.0, 0.0));
 
-    const projectionMatrix = glMatrix.mat4.perspective(glMatrix.mat4.create(),
-        1.4, 640.0 / 480.0, 0.1, 1000.0);
+    const projectionMatrix = glMatrix.mat4.perspective(glMatrix.mat4.create(), 1.4, webGpuContext.canvas.width / webGpuContext.canvas.height, 0.1, 1000.0);
 
-    webGpuContext.render_text(textureWgsl, Float32Array.from(translateMatrix), Float32Array.from(projectionMatrix), "Hello, World!", 320, 240, 0.5, "bold", "Arial", "white", 32, 28);
+    const text = "Hello, World!";
+    const width = 320;
+    const height = 240;
+    const fontSize = 32;
 
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext("2d")!;
+    ctx.clearRect(0,0, width, height);
+    ctx.globalAlpha = 0.5;
+    ctx.font = `bold ${fontSize}px Arial`;
+    ctx.fillStyle = "white";
+    const textMeasure = ctx.measureText(text);
+
+    ctx.fillText(text, 0, 28);
+
+    const nearestPowerof2 = 1 << (32 - Math.clz32(Math.ceil(textMeasure.width)));
+    const texture = webGpuContext.createTexture(nearestPowerof2, fontSize);
+    webGpuContext.device.queue.copyExternalImageToTexture({ source: canvas, origin: {x: 0, y:0}}, {texture: texture}, {width: nearestPowerof2, height: fontSize});
+
+    const projectionMatrixBuffer = webGpuContext.createGPUBuffer(Float32Array.from(projectionMatrix), GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST);
+    scene.onResize((width, height) => {
+        webGpuContext.device.queue.writeBuffer(projectionMatrixBuffer, 0, Float32Array.from(glMatrix.mat4.perspective(glMatrix.mat4.create(), 1.4, width / height, 0.1, 1000.0)));
+    });
+
+    const { bindGroupLayout: uniformBindGroupLayout, bindGroup: uniformBindGroup } = webGpuContext.createBindGroup(textureWgsl, {
+        transform: webGpuContext.createGPUBuffer(Float32Array.from(translateMatrix), GPUBufferUsage.UNIFORM),
+        projection: projectionMatrixBuffer,
+        t_diffuse: texture,
+        s_diffuse: webGpuContext.createSampler(),
+    });
+
+    const positions = new Float32Array([
+        textMeasure.width *0.5, -16.0, 0.0,
+        textMeasure.width*0.5, 16.0, 0.0,
+        -textMeasure.width*0.5, -16.0, 0.0,
+        -textMeasure.width*0.5, 16.0, 0.0
+    ]);
+
+    const w = textMeasure.width / nearestPowerof2;
+    const texCoords = new Float32Array([
+        w, 1.0,
+        w, 0.0,
+        0.0, 1.0,
+        0.0, 0.0
+    ]);
+
+    const { buffer: positionBuffer, layout: positionBufferLayout } = webGpuContext.createSingleAttributeVertexBuffer(positions, { format: "float32x3", offset: 0, shaderLocation: 0 }, 3 * Float32Array.BYTES_PER_ELEMENT);
+    const { buffer: texCoordBuffer, layout: texCoordBufferLayout } = webGpuContext.createSingleAttributeVertexBuffer(texCoords, { format: "float32x2", offset: 0, shaderLocation: 1 }, 2 * Float32Array.BYTES_PER_ELEMENT);
+
+    const blend: GPUBlendState = {
+        color: {
+            srcFactor: "one",
+            dstFactor: "one-minus-src",
+            operation: "add",
+        },
+        alpha: {
+            srcFactor: "one",
+            dstFactor: "one-minus-src",
+            operation: "add",
+        }
+    }
+
+    const renderGraph = webGpuContext.createRenderGraph()
+        .addPass({
+            name: "text",
+            colorAttachments: [{ texture: RenderGraph.BACKBUFFER, clearValue: { r: 1.0, g: 0.0, b: 0.0, a: 1.0 } }],
+            execute: (passEncoder) => {
+                passEncoder.setPipeline(webGpuContext.createPipeline(webGpuContext.createShaderModule(textureWgsl), [positionBufferLayout, texCoordBufferLayout], [uniformBindGroupLayout], [webGpuContext.canvasFormat], blend));
+                passEncoder.setVertexBuffer(0, positionBuffer);
+                passEncoder.setVertexBuffer(1, texCoordBuffer);
+                passEncoder.setBindGroup(0, uniformBindGroup);
+                passEncoder.draw(4, 1);
+            },
+        });
+
+    scene.setFrame(() => renderGraph.execute());
+    return scene;
 };
 
 export default renderScene;
@@ -1,13 +1,16 @@
 import * as glMatrix from "gl-matrix";
 import type { WebGPUContext } from "../core/webgpu-context";
+import type { ISceneHandle } from "../core/scene";
+import { RenderGraph } from "../core/render-graph";
 import textureWgsl from "../shaders/textured_shape.wgsl?raw";
 
-const renderScene = async (webGpuContext: WebGPUContext) => {
+const renderScene = async (webGpuContext: WebGPUContext): Promise<ISceneHandle> => {
+    const scene = webGpuContext.createScene();
     const transformationMatrix = glMatrix.mat4.lookAt(glMatrix.mat4.create(), 
       glMatrix.vec3.fromValues(100, 100, 100), 
       glMatrix.vec3.fromValues(0,0,0), 
       glMatrix.vec3.fromValues(0.0, 0.0, 1.0));
-    const projectionMatrix = glMatrix.mat4.perspective(glMatrix.mat4.create(), 1.4, 640.0 / 480.0, 0.1, 1000.0);
+    const projectionMatrix = glMatrix.mat4.perspective(glMatrix.mat4.create(), 1.4, webGpuContext.canvas.width / webGpuContext.canvas.height, 0.1, 1000.0);
     const positions = new Float32Array([
       100.0, -100.0, 0.0,
       0.0, 100.0, 0.0,
@@ -18,7 +21,39 @@ const renderScene = async (webGpuContext: WebGPUContext) => {
       0.0, 0.0,
       0.5, 1.0
     ]);
-    webGpuContext.render_textured_shape(textureWgsl, 3, 1, positions, texCoords, Float32Array.from(transformationMatrix), Float32Array.from(projectionMatrix), "baboon.png");
+
+    const imageBitmap = await webGpuContext.loadImageBitmap("baboon.png");
+    const texture = webGpuContext.createTextureFromImage(imageBitmap, { mipmaps: true });
+    const projectionMatrixBuffer = webGpuContext.createGPUBuffer(Float32Array.from(projectionMatrix), GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST);
+    scene.onResize((width, height) => {
+      webGpuContext.device.queue.writeBuffer(projectionMatrixBuffer, 0, Float32Array.from(glMatrix.mat4.perspective(glMatrix.mat4.create(), 1.4, width / height, 0.1, 1000.0)));
+    });
+
+    const { bindGroupLayout: uniformBindGroupLayout, bindGroup: uniformBindGroup } = webGpuContext.createBindGroup(textureWgsl, {
+      transform: webGpuContext.createGPUBuffer(Float32Array.from(transformationMatrix), GPUBufferUsage.UNIFORM),
+      projection: projectionMatrixBuffer,
+      t_diffuse: texture,
+      s_diffuse: webGpuContext.createSampler("anisotropic-repeat"),
+    });
+
+    const { buffer: positionBuffer, layout: positionBufferLayout } = webGpuContext.createSingleAttributeVertexBuffer(positions, { format: "float32x3", offset: 0, shaderLocation: 0 }, 3 * Float32Array.BYTES_PER_ELEMENT);
+    const { buffer: texCoordBuffer, layout: texCoordBufferLayout } = webGpuContext.createSingleAttributeVertexBuffer(texCoords, { format: "float32x2", offset: 0, shaderLocation: 1 }, 2 * Float32Array.BYTES_PER_ELEMENT);
+
+    const renderGraph = webGpuContext.createRenderGraph()
+      .addPass({
+        name: "texturedShape",
+        colorAttachments: [{ texture: RenderGraph.BACKBUFFER, clearValue: { r: 1.0, g: 0.0, b: 0.0, a: 1.0 } }],
+        execute: (passEncoder) => {
+          passEncoder.setPipeline(webGpuContext.createPipeline(webGpuContext.createShaderModule(textureWgsl), [positionBufferLayout, texCoordBufferLayout], [uniformBindGroupLayout], [webGpuContext.canvasFormat]));
+          passEncoder.setVertexBuffer(0, positionBuffer);
+          passEncoder.setVertexBuffer(1, texCoordBuffer);
+          passEncoder.setBindGroup(0, uniformBindGroup);
+          passEncoder.draw(3, 1);
+        },
+      });
+
+    scene.setFrame(() => renderGraph.execute());
+    return scene;
 };
 
-export default renderScene;
\ No newline at end of file
+export default renderScene;
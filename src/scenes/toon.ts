@@ -0,0 +1,170 @@
+import * as glMatrix from "gl-matrix";
+import type { WebGPUContext } from "../core/webgpu-context";
+import type { ISceneHandle } from "../core/scene";
+import { RenderGraph } from "../core/render-graph";
+import { UniformStructLayout } from "../core/uniform-struct";
+import { Model } from "../utils/model";
+import { Arcball } from "../utils/arcball";
+import { Controls } from "../utils/controls";
+import { InstancedRenderer, instancedShader } from "../utils/instancedRenderer";
+import { buildSceneLayout, type SceneLayout } from "../utils/sceneLayouts";
+import sceneSource from "../shaders/toon/scene.wgsl?raw";
+import outlineSource from "../shaders/toon/outline.wgsl?raw";
+
+const sceneWgsl = instancedShader(sceneSource);
+const outlineWgsl = instancedShader(outlineSource);
+
+export interface IToonOptions {
+    /** Light bands when no ramp texture was dropped (the "ramp" user asset). */
+    bands?: number;
+    /** Outline width in pixels, 0 for none. */
+    outlineWidth?: number;
+}
+
+const DEFAULT_BANDS = 3;
+const DEFAULT_OUTLINE_WIDTH = 2;
+// Intensity of the darkest band, so shadows keep some of the base color
+const SHADOW_INTENSITY = 0.35;
+// View space, from the upper left of the camera
+const LIGHT_DIRECTION = glMatrix.vec3.normalize(glMatrix.vec3.create(), [-0.4, 0.6, 0.7]);
+const OUTLINE_COLOR: [number, number, number] = [0.05, 0.05, 0.08];
+const RIM_COLOR: [number, number, number] = [0.35, 0.35, 0.4];
+
+/**
+ * Ramp of `bands` flat steps from the shadow intensity to full light, sampled with a nearest sampler.
+ */
+function createBandRamp(webGpuContext: WebGPUContext, bands: number): GPUTexture {
+    const texture = webGpuContext.createTexture(bands, 1);
+    const texels = new Uint8Array(bands * 4);
+    for (let band = 0; band < bands; band++) {
+        const intensity = bands === 1 ? 1 : SHADOW_INTENSITY + (1 - SHADOW_INTENSITY) * band / (bands - 1);
+        texels.set([intensity * 255, intensity * 255, intensity * 255, 255], band * 4);
+    }
+    webGpuContext.device.queue.writeTexture({ texture }, texels, { bytesPerRow: bands * 4 }, { width: bands, height: 1 });
+    return texture;
+}
+
+const renderScene = async (webGpuContext: WebGPUContext, layout: SceneLayout = "single", options: IToonOptions = {}): Promise<ISceneHandle> => {
+    const scene = webGpuContext.createScene();
+    const canvas = webGpuContext.canvas;
+    const outlineWidth = options.outlineWidth ?? DEFAULT_OUTLINE_WIDTH;
+
+    const model = await Model.load(webGpuContext, webGpuContext.assets.userAsset("model") ?? "teapot.obj", {
+        defaultMaterial: { diffuseColor: [0.9, 0.45, 0.3], specularColor: [1.0, 1.0, 1.0], shininess: 40.0 },
+        diffuseMap: webGpuContext.assets.userAsset("diffuse"),
+    });
+    const graph = await buildSceneLayout(webGpuContext, model, layout);
+    const renderer = new InstancedRenderer(webGpuContext, ["position", "normal", "uv"]);
+
+    // A dropped ramp is a gradient to be read smoothly, generated bands have hard steps
+    const rampUrl = webGpuContext.assets.userAsset("ramp");
+    const rampImage = rampUrl ? await webGpuContext.loadImageBitmap(rampUrl) : undefined;
+    const ramp = rampImage
+        ? webGpuContext.createTextureFromImage(rampImage)
+        : createBandRamp(webGpuContext, Math.max(1, Math.round(options.bands ?? DEFAULT_BANDS)));
+    const rampSampler = webGpuContext.createSampler(rampUrl ? "linear-clamp" : "nearest-clamp");
+
+    const materialLayout = new UniformStructLayout({ diffuse: "vec3f", shininess: "f32", specular: "vec3f" });
+    const sampler = webGpuContext.createSampler("anisotropic-repeat");
+    const materials = graph.batches.flatMap(batch => batch.model.materials);
+    const materialBindGroups = new Map(materials.map(material => {
+        const materialUniforms = materialLayout.createWriter()
+            .set("diffuse", material.diffuseColor)
+            .set("shininess", material.shininess)
+            .set("specular", material.specularColor);
+        return [material, webGpuContext.createBindGroup(sceneWgsl, {
+            material: webGpuContext.createGPUBuffer(materialUniforms.data, GPUBufferUsage.UNIFORM),
+            t_diffuse: material.diffuseTexture,
+            s_diffuse: sampler,
+        }, 1)];
+    }));
+    const materialBindGroupLayout = [...materialBindGroups.values()][0].bindGroupLayout;
+
+    let viewport = [canvas.width, canvas.height];
+    let aspect = canvas.width / canvas.height;
+    scene.onResize((width, height) => {
+        viewport = [width, height];
+        aspect = width / height;
+    });
+    const arcBall = new Arcball(5.0);
+    arcBall.frame(graph.bounds, aspect);
+    scene.onFrameObject(() => arcBall.frame(graph.bounds, aspect));
+
+    const sceneUniforms = new UniformStructLayout({
+        view: "mat4x4f",
+        projection: "mat4x4f",
+        normal_to_view: "mat4x4f",
+        light_direction: "vec3f",
+        rim_strength: "f32",
+        rim_color: "vec3f",
+    }).createWriter();
+    const outlineUniforms = new UniformStructLayout({
+        view: "mat4x4f",
+        projection: "mat4x4f",
+        normal_to_view: "mat4x4f",
+        color: "vec3f",
+        width: "f32",
+        viewport: "vec2f",
+    }).createWriter();
+
+    const renderGraph = webGpuContext.createRenderGraph()
+        .createTexture("depth", { format: "depth24plus-stencil8" })
+        .addPass({
+            name: "toon",
+            colorAttachments: [{ texture: RenderGraph.BACKBUFFER, clearValue: { r: 1.0, g: 1.0, b: 1.0, a: 1.0 } }],
+            depthStencilAttachment: { texture: "depth", depthClearValue: 1 },
+            multisampled: true,
+            execute: (passEncoder, resources) => {
+                const viewMatrix = arcBall.getMatrices();
+                const projectionMatrix = arcBall.getProjectionMatrix(aspect);
+                const normalMatrix = glMatrix.mat4.transpose(glMatrix.mat4.create(), glMatrix.mat4.invert(glMatrix.mat4.create(), viewMatrix));
+
+                sceneUniforms
+                    .set("view", viewMatrix)
+                    .set("projection", projectionMatrix)
+                    .set("normal_to_view", normalMatrix)
+                    .set("light_direction", LIGHT_DIRECTION)
+                    .set("rim_strength", 1.0)
+                    .set("rim_color", RIM_COLOR);
+                const bindGroup = webGpuContext.createBindGroup(sceneWgsl, {
+                    uniforms: { ...webGpuContext.uniforms.allocate(sceneUniforms.data), hasDynamicOffset: true },
+                    instances: renderer.instanceBuffer,
+                    t_ramp: ramp,
+                    s_ramp: rampSampler,
+                });
+                passEncoder.setPipeline(webGpuContext.createPipeline(webGpuContext.createShaderModule(sceneWgsl), renderer.vertexBufferLayouts, [bindGroup.bindGroupLayout, materialBindGroupLayout], [webGpuContext.canvasFormat], undefined, "depth24plus-stencil8", resources.sampleCount));
+                passEncoder.setBindGroup(0, bindGroup.bindGroup, bindGroup.dynamicOffsets);
+                renderer.draw(passEncoder, material => passEncoder.setBindGroup(1, materialBindGroups.get(material)!.bindGroup));
+
+                if (outlineWidth <= 0) {
+                    return;
+                }
+                outlineUniforms
+                    .set("view", viewMatrix)
+                    .set("projection", projectionMatrix)
+                    .set("normal_to_view", normalMatrix)
+                    .set("color", OUTLINE_COLOR)
+                    .set("width", outlineWidth)
+                    .set("viewport", viewport);
+                const outlineBindGroup = webGpuContext.createBindGroup(outlineWgsl, {
+                    uniforms: { ...webGpuContext.uniforms.allocate(outlineUniforms.data), hasDynamicOffset: true },
+                    instances: renderer.instanceBuffer,
+                });
+                passEncoder.setPipeline(webGpuContext.createPipeline(webGpuContext.createShaderModule(outlineWgsl), renderer.vertexBufferLayouts, [outlineBindGroup.bindGroupLayout], [webGpuContext.canvasFormat], undefined, "depth24plus-stencil8", resources.sampleCount, { cullMode: "front" }));
+                passEncoder.setBindGroup(0, outlineBindGroup.bindGroup, outlineBindGroup.dynamicOffsets);
+                renderer.draw(passEncoder, () => {});
+            },
+        });
+
+    const controls = new Controls(canvas, arcBall, () => scene.requestFrame(), () => scene.frameObject());
+    scene.onDispose(() => controls.dispose());
+
+    scene.startFrameLoop(() => {
+        webGpuContext.uniforms.beginFrame();
+        renderer.update(graph);
+        renderGraph.execute();
+    });
+    return scene;
+};
+
+export default renderScene;
@@ -1,17 +1,34 @@
 import type { WebGPUContext } from "../core/webgpu-context";
+import type { ISceneHandle } from "../core/scene";
+import { RenderGraph } from "../core/render-graph";
 import triangleWgsl from "../shaders/triangle.wgsl?raw";
 
-const renderScene = async (webGpuContext: WebGPUContext) => {
-    const offset = new Float32Array([
-    	0.1, 0.1, 0.1
-    ]);
+const renderScene = async (webGpuContext: WebGPUContext): Promise<ISceneHandle> => {
+    const scene = webGpuContext.createScene();
     const positions = new Float32Array([
     	1.0, -1.0, 0.0, -1.0, -1.0, 0.0, 0.0, 1.0, 0.0
     ]);
     const colors = new Float32Array([
     	1.0, 0.0, 0.0, 0.0, 1.0, 0.0, 0.0, 0.0, 1.0
     ]);
-    webGpuContext.render_vertex_color_offset(triangleWgsl, 3, 1, positions, colors, offset);
+
+    const { buffer: positionBuffer, layout: positionBufferLayout } = webGpuContext.createSingleAttributeVertexBuffer(positions, { format: "float32x3", offset: 0, shaderLocation: 0 }, 3 * Float32Array.BYTES_PER_ELEMENT);
+    const { buffer: colorBuffer, layout: colorBufferLayout } = webGpuContext.createSingleAttributeVertexBuffer(colors, { format: "float32x3", offset: 0, shaderLocation: 1 }, 3 * Float32Array.BYTES_PER_ELEMENT);
+
+    const renderGraph = webGpuContext.createRenderGraph()
+        .addPass({
+            name: "triangle",
+            colorAttachments: [{ texture: RenderGraph.BACKBUFFER, clearValue: { r: 1.0, g: 0.0, b: 0.0, a: 1.0 } }],
+            execute: (passEncoder) => {
+                passEncoder.setPipeline(webGpuContext.createPipeline(webGpuContext.createShaderModule(triangleWgsl), [positionBufferLayout, colorBufferLayout], [], [webGpuContext.canvasFormat]));
+                passEncoder.setVertexBuffer(0, positionBuffer);
+                passEncoder.setVertexBuffer(1, colorBuffer);
+                passEncoder.draw(3, 1);
+            },
+        });
+
+    scene.setFrame(() => renderGraph.execute());
+    return scene;
 };
 
-export default renderScene;
\ No newline at end of file
+export default renderScene;
@@ -1,15 +1,66 @@
 import * as glMatrix from "gl-matrix";
 import type { WebGPUContext } from "../core/webgpu-context";
+import type { ISceneHandle } from "../core/scene";
+import { RenderGraph } from "../core/render-graph";
+import { Model } from "../utils/model";
+import { Arcball } from "../utils/arcball";
 import objModelSurfaceNormals from "../shaders/obj_model_surface_normals.wgsl?raw";
 
-const renderScene = async (webGpuContext: WebGPUContext) => {
-    let modelViewMatrix = glMatrix.mat4.lookAt(glMatrix.mat4.create(), glMatrix.vec3.fromValues(Math.cos(0.0) * 5.0, Math.sin(0.0) * 5.0, 5), glMatrix.vec3.fromValues(0, 0, 0), glMatrix.vec3.fromValues(0.0, 0.0, 1.0));
+const renderScene = async (webGpuContext: WebGPUContext): Promise<ISceneHandle> => {
+    const scene = webGpuContext.createScene();
 
-    const projectionMatrix = glMatrix.mat4.perspective(glMatrix.mat4.create(), 1.4, 640.0 / 480.0, 0.1, 1000.0);
-    const modelViewMatrixInverse = glMatrix.mat4.invert(glMatrix.mat4.create(), modelViewMatrix);
-    const normalMatrix = glMatrix.mat4.transpose(glMatrix.mat4.create(), modelViewMatrixInverse);
+    const model = await Model.load(webGpuContext, webGpuContext.assets.userAsset("model") ?? "teapot.obj");
+    const objDataExtractor = model.mesh;
 
-    webGpuContext.render_video_image_render_obj(objModelSurfaceNormals, "teapot.obj", Float32Array.from(modelViewMatrix), Float32Array.from(projectionMatrix), Float32Array.from(normalMatrix));
+    const canvas = webGpuContext.canvas;
+    let aspect = canvas.width / canvas.height;
+    scene.onResize((width, height) => {
+        aspect = width / height;
+    });
+    // Only used for its framing; the camera circles the model on its own
+    const camera = new Arcball(5.0);
+    camera.frame(model.bounds, aspect);
+    scene.onFrameObject(() => camera.frame(model.bounds, aspect));
+    let angle = 0.0;
+
+    const { buffer: positionBuffer, layout: positionBufferLayout } = webGpuContext.createSingleAttributeVertexBuffer(objDataExtractor.vertexPositions, { format: "float32x3", offset: 0, shaderLocation: 0 }, 3 * Float32Array.BYTES_PER_ELEMENT);
+    const { buffer: normalBuffer, layout: normalBufferLayout } = webGpuContext.createSingleAttributeVertexBuffer(objDataExtractor.normals, { format: "float32x3", offset: 0, shaderLocation: 1 }, 3 * Float32Array.BYTES_PER_ELEMENT);
+
+    const renderGraph = webGpuContext.createRenderGraph()
+        .createTexture("depth", { format: "depth24plus-stencil8" })
+        .addPass({
+            name: "surfaceNormals",
+            colorAttachments: [{ texture: RenderGraph.BACKBUFFER, clearValue: { r: 1.0, g: 0.0, b: 0.0, a: 1.0 } }],
+            depthStencilAttachment: { texture: "depth", depthClearValue: 1 },
+            execute: (passEncoder) => {
+                const orbit = glMatrix.vec3.scale(glMatrix.vec3.create(), [Math.cos(angle), Math.sin(angle), 1.0], camera.radius / Math.SQRT2);
+                const modelViewMatrix = glMatrix.mat4.lookAt(glMatrix.mat4.create(),
+                    glMatrix.vec3.add(orbit, orbit, camera.target), camera.target, glMatrix.vec3.fromValues(0.0, 0.0, 1.0));
+                const modelViewMatrixInverse = glMatrix.mat4.invert(glMatrix.mat4.create(), modelViewMatrix);
+                const normalMatrix = glMatrix.mat4.transpose(glMatrix.mat4.create(), modelViewMatrixInverse);
+
+                const uniform = (matrix: glMatrix.mat4) => ({ ...webGpuContext.uniforms.allocate(Float32Array.from(matrix)), hasDynamicOffset: true });
+                const { bindGroupLayout: uniformBindGroupLayout, bindGroup: uniformBindGroup, dynamicOffsets } = webGpuContext.createBindGroup(objModelSurfaceNormals, {
+                    modelView: uniform(modelViewMatrix),
+                    projection: uniform(camera.getProjectionMatrix(aspect)),
+                    normal: uniform(normalMatrix),
+                });
+
+                passEncoder.setPipeline(webGpuContext.createPipeline(webGpuContext.createShaderModule(objModelSurfaceNormals), [positionBufferLayout, normalBufferLayout], [uniformBindGroupLayout], [webGpuContext.canvasFormat], undefined, "depth24plus-stencil8"));
+                passEncoder.setVertexBuffer(0, positionBuffer);
+                passEncoder.setVertexBuffer(1, normalBuffer);
+                passEncoder.setBindGroup(0, uniformBindGroup, dynamicOffsets);
+                // Surface normals don't depend on the material
+                model.draw(passEncoder, () => {});
+            },
+        });
+
+    scene.startFrameLoop(() => {
+        angle += 0.1;
+        webGpuContext.uniforms.beginFrame();
+        renderGraph.execute();
+    });
+    return scene;
 };
 
 export default renderScene;
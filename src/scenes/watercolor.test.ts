@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createMockContext, type IMockContext } from "../testing/mock-context";
+import type { IMockRenderPass } from "../testing/mock-gpu";
+import renderScene from "./watercolor";
+
+describe("watercolor scene", () => {
+    let mock: IMockContext;
+
+    beforeEach(async () => {
+        mock = await createMockContext();
+    });
+
+    afterEach(() => {
+        mock.webGpuContext.destroy();
+    });
+
+    it("renders in five passes into the expected targets", async () => {
+        await mock.webGpuContext.runScene(renderScene);
+        await mock.backend.frameScheduler.step();
+
+        const passes = mock.backend.recorder.lastSubmission!.passes as IMockRenderPass[];
+        expect(passes.map(pass => ({ label: pass.label, colorFormats: pass.colorFormats, depthFormat: pass.depthFormat }))).toEqual([
+            { label: "scene", colorFormats: ["rgba8unorm", "rgba16float", "r16float"], depthFormat: "depth24plus-stencil8" },
+            { label: "surface", colorFormats: ["rgba8unorm"], depthFormat: undefined },
+            { label: "mrtBlurH", colorFormats: ["rgba32float", "rgba32float", "rgba32float"], depthFormat: undefined },
+            { label: "mrtBlurV", colorFormats: ["rgba32float", "rgba32float", "rgba32float"], depthFormat: undefined },
+            { label: "stylize", colorFormats: ["bgra8unorm"], depthFormat: undefined },
+        ]);
+    });
+
+    it.each([
+        ["single", [1]],
+        ["table", [1, 4, 3, 2]],
+        ["instanced", [1000]],
+    ] as const)("draws the %s layout with one instanced draw per model", async (layout, instanceCounts) => {
+        await mock.webGpuContext.runScene(context => renderScene(context, layout));
+        await mock.backend.frameScheduler.step();
+
+        const scenePass = mock.backend.recorder.lastSubmission!.passes[0] as IMockRenderPass;
+        expect(scenePass.draws.map(draw => draw.instanceCount)).toEqual(instanceCounts);
+    });
+
+    it("adds the line layer's passes after stylizing when drawing lines", async () => {
+        await mock.webGpuContext.runScene(context => renderScene(context, "single", {}, {}));
+        await mock.backend.frameScheduler.step();
+
+        expect(mock.backend.recorder.lastSubmission!.passes.map(pass => pass.label)).toEqual(["scene", "surface", "mrtBlurH", "mrtBlurV", "stylize", "lineGBuffer", "lineEdges"]);
+    });
+
+    it("doesn't create buffers or textures per frame", async () => {
+        const { backend, webGpuContext } = mock;
+        await webGpuContext.runScene(renderScene);
+        await backend.frameScheduler.step(2);
+        const counts = webGpuContext.resourceCounts;
+        const created = { buffers: backend.recorder.buffers.length, textures: backend.recorder.textures.length };
+
+        await backend.frameScheduler.step(10);
+        expect(backend.recorder.submissions).toHaveLength(12);
+        expect(webGpuContext.resourceCounts).toEqual(counts);
+        expect({ buffers: backend.recorder.buffers.length, textures: backend.recorder.textures.length }).toEqual(created);
+    });
+});
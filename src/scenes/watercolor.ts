@@ -1,23 +1,216 @@
-import type { WebGPUContext } from "../core/webgpu-context";
-import sceneWgsl from '../shaders/watercolor/scene.wgsl?raw';
+import * as glMatrix from "gl-matrix";
+import type { BindGroupResource, WebGPUContext } from "../core/webgpu-context";
+import type { ISceneHandle } from "../core/scene";
+import { RenderGraph, type RenderGraphResources } from "../core/render-graph";
+import { UniformStructLayout } from "../core/uniform-struct";
+import { Model } from "../utils/model";
+import { Arcball } from "../utils/arcball";
+import { Controls } from "../utils/controls";
+import { InstancedRenderer, instancedShader } from "../utils/instancedRenderer";
+import { buildSceneLayout, type SceneLayout } from "../utils/sceneLayouts";
+import { LineLayer, type ILineLayerOptions } from "../utils/lineLayer";
+import sceneSource from '../shaders/watercolor/scene.wgsl?raw';
 import surfaceWgsl from '../shaders/watercolor/surface.wgsl?raw';
 import mrtBlurHWgsl from '../shaders/watercolor/mrt_blur_h.wgsl?raw';
 import mrtBlurVWgsl from '../shaders/watercolor/mrt_blur_v.wgsl?raw';
 import stylizeWgsl from '../shaders/watercolor/stylize.wgsl?raw';
 
-const renderScene = async (webGpuContext: WebGPUContext) => {
-    webGpuContext.render_watercolor(
-        {
-            scene: sceneWgsl,
-            surface: surfaceWgsl,
-            mrtBlurH: mrtBlurHWgsl,
-            mrtBlurV: mrtBlurVWgsl,
-            stylize: stylizeWgsl
-        },
-        "teapot.obj",
-        "paper.png",
-        "marble.png"
-    );
+const sceneWgsl = instancedShader(sceneSource);
+
+export interface IWatercolorOptions {
+    /** How far colors run into each other in the wet patches, 0 to 1. */
+    bleeding?: number;
+    /** How strongly pigment pools at the edges of painted areas. */
+    edgeDarkening?: number;
+    /** Low frequency variation of the pigment density, 0 to 1. */
+    turbulence?: number;
+    /** Pigment settling in the paper's valleys, 0 to 1. Negative values give dry-brush instead, down to -1. */
+    granulation?: number;
+}
+
+const DEFAULT_OPTIONS: Required<IWatercolorOptions> = { bleeding: 0.8, edgeDarkening: 1.0, turbulence: 0.5, granulation: 0.5 };
+// Wet patches across the model's diameter
+const WET_PATCHES = 3;
+
+/**
+ * @param lines Draws ink lines over the scene, in these styles.
+ */
+const renderScene = async (webGpuContext: WebGPUContext, layout: SceneLayout = "single", options: IWatercolorOptions = {}, lines?: ILineLayerOptions): Promise<ISceneHandle> => {
+    const scene = webGpuContext.createScene();
+    const canvas = webGpuContext.canvas;
+
+    // Load resources
+    // Models without materials get the marble look
+    const model = await Model.load(webGpuContext, webGpuContext.assets.userAsset("model") ?? "teapot.obj", {
+        defaultMaterial: { diffuseColor: [1.0, 1.0, 1.0], diffuseMap: "marble.png" },
+        diffuseMap: webGpuContext.assets.userAsset("diffuse"),
+    });
+    const graph = await buildSceneLayout(webGpuContext, model, layout);
+    const renderer = new InstancedRenderer(webGpuContext, ["position", "normal", "uv", "tangent"]);
+
+    const paperImage = await webGpuContext.loadImageBitmap(webGpuContext.assets.userAsset("paper") ?? "paper.png");
+    const paperTexture = webGpuContext.createTextureFromImage(paperImage, { mipmaps: true });
+    const sampler = webGpuContext.createSampler("anisotropic-repeat");
+
+    const materialLayout = new UniformStructLayout({ diffuse: "vec3f", normalScale: "f32", normalMapped: "u32" });
+    const materials = graph.batches.flatMap(batch => batch.model.materials);
+    const materialBindGroups = new Map(materials.map(material => {
+        const materialUniforms = materialLayout.createWriter()
+            .set("diffuse", material.diffuseColor)
+            .set("normalScale", material.bumpScale)
+            .set("normalMapped", material.normalMapped ? 1 : 0);
+        return [material, webGpuContext.createBindGroup(sceneWgsl, {
+            material: webGpuContext.createGPUBuffer(materialUniforms.data, GPUBufferUsage.UNIFORM),
+            t_diffuse: material.diffuseTexture,
+            s_diffuse: sampler,
+            t_normal: material.normalTexture,
+        }, 1)];
+    }));
+    const materialBindGroupLayout = [...materialBindGroups.values()][0].bindGroupLayout;
+    const lineLayer = lines ? new LineLayer(webGpuContext, renderer, materials, lines) : undefined;
+
+    let aspect = canvas.width / canvas.height;
+    scene.onResize((width, height) => {
+        aspect = width / height;
+    });
+    const arcBall = new Arcball(5.0);
+    arcBall.frame(graph.bounds, aspect);
+    scene.onFrameObject(() => arcBall.frame(graph.bounds, aspect));
+
+    const { bleeding, edgeDarkening, turbulence, granulation } = { ...DEFAULT_OPTIONS, ...options };
+    const sceneUniforms = new UniformStructLayout({
+        world_to_clip: "mat4x4f",
+        world_to_light: "mat4x4f",
+        normal_to_light: "mat3x3f",
+        viewPos: "vec3f",
+        noise_scale: "f32",
+        bleeding: "f32",
+        edge_darkening: "f32",
+        turbulence: "f32",
+        granulation: "f32",
+    }).createWriter()
+        .set("noise_scale", WET_PATCHES / (2 * model.bounds.radius))
+        .set("bleeding", bleeding)
+        .set("edge_darkening", edgeDarkening)
+        .set("turbulence", turbulence)
+        .set("granulation", granulation);
+
+    const blurOutputs = (prefix: string) => ["Blurred", "Bleeded", "Control"].map(name => ({ texture: `${prefix}${name}`, clearValue: { r: 0.0, g: 0.0, b: 0.0, a: 1.0 } }));
+    const fullscreenPass = (shader: string, colorFormats: GPUTextureFormat[], bindings: (resources: RenderGraphResources) => Record<string, BindGroupResource>) => {
+        return (passEncoder: GPURenderPassEncoder, resources: RenderGraphResources) => {
+            const bindGroup = webGpuContext.createBindGroup(shader, bindings(resources));
+            passEncoder.setPipeline(webGpuContext.createPipeline(webGpuContext.createShaderModule(shader), [], [bindGroup.bindGroupLayout], colorFormats));
+            passEncoder.setBindGroup(0, bindGroup.bindGroup);
+            passEncoder.draw(3);
+        };
+    };
+
+    const renderGraph = webGpuContext.createRenderGraph()
+        .createTexture("color", { format: "rgba8unorm" })
+        // rgba32float can't be multisampled, so the scene pass writes control values at half precision
+        .createTexture("control", { format: "rgba16float" })
+        // View space depth for the blur passes, since the multisampled depth buffer can't be read there
+        .createTexture("linearDepth", { format: "r16float" })
+        .createTexture("depth", { format: "depth24plus-stencil8" })
+        .createTexture("surface", { format: "rgba8unorm" })
+        .createTexture("tempBlurred", { format: "rgba32float" })
+        .createTexture("tempBleeded", { format: "rgba32float" })
+        .createTexture("tempControl", { format: "rgba32float" })
+        .createTexture("finalBlurred", { format: "rgba32float" })
+        .createTexture("finalBleeded", { format: "rgba32float" })
+        .createTexture("finalControl", { format: "rgba32float" })
+        .createTexture("stylized", { format: webGpuContext.canvasFormat })
+        // Pass 1: Scene
+        .addPass({
+            name: "scene",
+            colorAttachments: [
+                { texture: "color", clearValue: { r: 1.0, g: 1.0, b: 1.0, a: 1.0 } },
+                { texture: "control", clearValue: { r: 0.0, g: 0.5, b: 0.0, a: 0.0 } },
+                // Far behind everything, so objects bleed and darken over the paper but not the other way around
+                { texture: "linearDepth", clearValue: { r: 10000.0, g: 0.0, b: 0.0, a: 0.0 } },
+            ],
+            depthStencilAttachment: { texture: "depth", depthClearValue: 1 },
+            multisampled: true,
+            execute: (passEncoder, resources) => {
+                const viewMatrix = arcBall.getMatrices();
+                const normalMatrixInput = glMatrix.mat4.transpose(glMatrix.mat4.create(), glMatrix.mat4.invert(glMatrix.mat4.create(), viewMatrix));
+                const worldToClip = glMatrix.mat4.multiply(glMatrix.mat4.create(), arcBall.getProjectionMatrix(aspect), viewMatrix);
+
+                sceneUniforms
+                    .set("world_to_clip", worldToClip)
+                    .set("world_to_light", viewMatrix)
+                    .set("normal_to_light", normalMatrixInput)
+                    .set("viewPos", [0, 0, 5]);
+                const sceneUniformsAllocation = webGpuContext.uniforms.allocate(sceneUniforms.data);
+
+                const bindGroup = webGpuContext.createBindGroup(sceneWgsl, {
+                    uniforms: { ...sceneUniformsAllocation, hasDynamicOffset: true },
+                    instances: renderer.instanceBuffer,
+                });
+
+                const pipeline = webGpuContext.createPipeline(webGpuContext.createShaderModule(sceneWgsl), renderer.vertexBufferLayouts, [bindGroup.bindGroupLayout, materialBindGroupLayout], ["rgba8unorm", "rgba16float", "r16float"], undefined, "depth24plus-stencil8", resources.sampleCount);
+                passEncoder.setPipeline(pipeline);
+                passEncoder.setBindGroup(0, bindGroup.bindGroup, bindGroup.dynamicOffsets);
+                renderer.draw(passEncoder, material => passEncoder.setBindGroup(1, materialBindGroups.get(material)!.bindGroup));
+            },
+        })
+        // Pass 2: Surface
+        .addPass({
+            name: "surface",
+            colorAttachments: [{ texture: "surface", clearValue: { r: 0.0, g: 0.0, b: 0.0, a: 0.0 } }],
+            execute: fullscreenPass(surfaceWgsl, ["rgba8unorm"], () => ({
+                paper_tex: paperTexture,
+                s_paper: sampler,
+            })),
+        })
+        // Pass 3 & 4: Blur
+        .addPass({
+            name: "mrtBlurH",
+            inputs: ["color", "control", "linearDepth"],
+            colorAttachments: blurOutputs("temp"),
+            execute: fullscreenPass(mrtBlurHWgsl, ["rgba32float", "rgba32float", "rgba32float"], (resources) => ({
+                blur_color_tex: resources.getView("color"),
+                control_tex: resources.getView("control"),
+                depth_tex: resources.getView("linearDepth"),
+            })),
+        })
+        .addPass({
+            name: "mrtBlurV",
+            inputs: ["tempBlurred", "tempBleeded", "tempControl", "linearDepth"],
+            colorAttachments: blurOutputs("final"),
+            execute: fullscreenPass(mrtBlurVWgsl, ["rgba32float", "rgba32float", "rgba32float"], (resources) => ({
+                blur_color_tex: resources.getView("tempBlurred"),
+                bleed_color_tex: resources.getView("tempBleeded"),
+                control_tex: resources.getView("tempControl"),
+                depth_tex: resources.getView("linearDepth"),
+            })),
+        })
+        // Pass 5: Stylize
+        .addPass({
+            name: "stylize",
+            inputs: ["color", "finalControl", "finalBlurred", "finalBleeded", "surface"],
+            colorAttachments: [{ texture: lineLayer ? "stylized" : RenderGraph.BACKBUFFER, clearValue: { r: 1.0, g: 1.0, b: 1.0, a: 1.0 } }],
+            execute: fullscreenPass(stylizeWgsl, [webGpuContext.canvasFormat], (resources) => ({
+                color_tex: resources.getView("color"),
+                control_tex: resources.getView("finalControl"),
+                blurred_tex: resources.getView("finalBlurred"),
+                bleeded_tex: resources.getView("finalBleeded"),
+                surface_tex: resources.getView("surface"),
+            })),
+        });
+    if (lineLayer) {
+        lineLayer.addPasses(renderGraph, () => ({ view: arcBall.getMatrices(), projection: arcBall.getProjectionMatrix(aspect) }), "stylized");
+    }
+
+    const controls = new Controls(canvas, arcBall, () => scene.requestFrame(), () => scene.frameObject());
+    scene.onDispose(() => controls.dispose());
+
+    scene.startFrameLoop(() => {
+        webGpuContext.uniforms.beginFrame();
+        renderer.update(graph);
+        renderGraph.execute();
+    });
+    return scene;
 };
 
-export default renderScene;
\ No newline at end of file
+export default renderScene;
@@ -0,0 +1,82 @@
+struct Uniforms {
+    view: mat4x4<f32>,
+    projection: mat4x4<f32>,
+    normal_to_view: mat4x4<f32>,
+    // View space, pointing towards the light
+    light_direction: vec3<f32>,
+    // Hatch texture repeats per object-space unit
+    tile_scale: f32,
+    paper_color: vec3<f32>,
+    ink_color: vec3<f32>,
+};
+
+struct Material {
+    diffuse: vec3<f32>,
+};
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> instances: array<Instance>;
+// Tonal art map: one layer per tone, lightest first, with hand-made mip levels
+@group(0) @binding(2) var t_tam: texture_2d_array<f32>;
+@group(0) @binding(3) var s_tam: sampler;
+@group(1) @binding(0) var<uniform> material: Material;
+@group(1) @binding(1) var t_diffuse: texture_2d<f32>;
+@group(1) @binding(2) var s_diffuse: sampler;
+
+struct VertexInput {
+    @location(0) position: vec3<f32>,
+    @location(1) normal: vec3<f32>,
+    @location(2) texCoord: vec2<f32>,
+    @builtin(instance_index) instanceIndex: u32,
+};
+
+struct VertexOutput {
+    @builtin(position) position: vec4<f32>,
+    @location(0) normal: vec3<f32>,
+    @location(1) texCoord: vec2<f32>,
+    // Object space, so the hatching sticks to the surface as objects and the camera move
+    @location(2) objectPosition: vec3<f32>,
+    @location(3) objectNormal: vec3<f32>,
+};
+
+const AMBIENT: f32 = 0.1;
+
+@vertex
+fn vs_main(in: VertexInput) -> VertexOutput {
+    let instance = instances[in.instanceIndex];
+    var out: VertexOutput;
+    out.position = uniforms.projection * uniforms.view * instance.model * vec4<f32>(in.position, 1.0);
+    out.normal = (uniforms.normal_to_view * instance.normal * vec4<f32>(in.normal, 0.0)).xyz;
+    out.texCoord = in.texCoord;
+    out.objectPosition = in.position;
+    out.objectNormal = in.normal;
+    return out;
+}
+
+// Hatching for a tone between 0 (blank paper) and the number of layers (darkest), blending the two nearest layers
+fn hatch(uv: vec2<f32>, tone: f32) -> f32 {
+    let layers = i32(textureNumLayers(t_tam));
+    let darker = clamp(i32(ceil(tone)), 1, layers);
+    let lighterSample = textureSample(t_tam, s_tam, uv, max(darker - 2, 0)).r;
+    let darkerSample = textureSample(t_tam, s_tam, uv, darker - 1).r;
+    // The tone below the first layer is blank paper
+    let lighter = select(lighterSample, 1.0, darker == 1);
+    return mix(lighter, darkerSample, clamp(tone - f32(darker - 1), 0.0, 1.0));
+}
+
+@fragment
+fn fs_main(in: VertexOutput) -> @location(0) vec4<f32> {
+    let n = normalize(in.normal);
+    let lambert = max(dot(n, normalize(uniforms.light_direction)), 0.0);
+    let albedo = dot(material.diffuse * textureSample(t_diffuse, s_diffuse, in.texCoord).rgb, vec3<f32>(0.2126, 0.7152, 0.0722));
+    let intensity = clamp((AMBIENT + (1.0 - AMBIENT) * lambert) * albedo, 0.0, 1.0);
+    let tone = (1.0 - intensity) * f32(textureNumLayers(t_tam));
+
+    // Triplanar projection, weighted towards the plane the surface faces most
+    let p = in.objectPosition * uniforms.tile_scale;
+    var weights = pow(abs(normalize(in.objectNormal)), vec3<f32>(4.0));
+    weights /= weights.x + weights.y + weights.z;
+    let value = hatch(p.yz, tone) * weights.x + hatch(p.xz, tone) * weights.y + hatch(p.xy, tone) * weights.z;
+
+    return vec4<f32>(mix(uniforms.ink_color, uniforms.paper_color, value), 1.0);
+}
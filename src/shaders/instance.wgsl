@@ -0,0 +1,6 @@
+
+// World transforms of the instances, written by InstancedRenderer
+struct Instance {
+    model: mat4x4<f32>,
+    normal: mat4x4<f32>,
+};
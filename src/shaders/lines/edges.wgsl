@@ -0,0 +1,113 @@
+// Draws ink lines from LineLayer's G-buffer over a color texture. Each kind of line is found with a Roberts cross
+// whose samples are `thickness` pixels apart, so lines come out about that wide.
+struct Lines {
+    silhouette_color: vec3<f32>,
+    // Depth change relative to the nearest sample
+    silhouette_threshold: f32,
+    silhouette_thickness: f32,
+    crease_color: vec3<f32>,
+    // Length of the normal change, 0 to 2
+    crease_threshold: f32,
+    crease_thickness: f32,
+    material_color: vec3<f32>,
+    // Share of the other samples on another material, 0 to 1
+    material_threshold: f32,
+    material_thickness: f32,
+};
+
+@group(0) @binding(0) var<uniform> lines: Lines;
+@group(0) @binding(1) var color_tex: texture_2d<f32>;
+@group(0) @binding(2) var normal_depth_tex: texture_2d<f32>;
+@group(0) @binding(3) var id_tex: texture_2d<u32>;
+
+struct VertexOutput {
+    @builtin(position) position: vec4<f32>,
+};
+
+@vertex
+fn vs_main(@builtin(vertex_index) in_vertex_index: u32) -> VertexOutput {
+    var out: VertexOutput;
+    let x = f32(in_vertex_index & 1u) * 4.0 - 1.0;
+    let y = f32(in_vertex_index & 2u) * 2.0 - 1.0;
+    out.position = vec4<f32>(x, y, 0.0, 1.0);
+    return out;
+}
+
+// The Roberts cross samples: the pixel, its diagonal neighbour, then the two on the other diagonal
+fn crossOffsets(thickness: f32) -> array<vec2<i32>, 4> {
+    let d = max(i32(round(thickness)), 1);
+    return array<vec2<i32>, 4>(vec2<i32>(0, 0), vec2<i32>(d, d), vec2<i32>(d, 0), vec2<i32>(0, d));
+}
+
+fn clampToTexture(pos: vec2<i32>) -> vec2<i32> {
+    return clamp(pos, vec2<i32>(0, 0), vec2<i32>(textureDimensions(id_tex)) - 1);
+}
+
+fn silhouetteStrength(pos: vec2<i32>) -> f32 {
+    let offsets = crossOffsets(lines.silhouette_thickness);
+    var depths: array<f32, 4>;
+    var nearest = 1e30;
+    let objectId = textureLoad(id_tex, clampToTexture(pos), 0).x;
+    for (var i = 0; i < 4; i++) {
+        let p = clampToTexture(pos + offsets[i]);
+        // Where objects meet or end there's always a silhouette
+        if (textureLoad(id_tex, p, 0).x != objectId) {
+            return 1e30;
+        }
+        depths[i] = textureLoad(normal_depth_tex, p, 0).w;
+        nearest = min(nearest, depths[i]);
+    }
+    if (objectId == 0u) {
+        return 0.0;
+    }
+    return length(vec2<f32>(depths[0] - depths[1], depths[2] - depths[3])) / nearest;
+}
+
+fn creaseStrength(pos: vec2<i32>) -> f32 {
+    let offsets = crossOffsets(lines.crease_thickness);
+    var normals: array<vec3<f32>, 4>;
+    let objectId = textureLoad(id_tex, clampToTexture(pos), 0).x;
+    for (var i = 0; i < 4; i++) {
+        let p = clampToTexture(pos + offsets[i]);
+        // Silhouettes aren't creases
+        if (textureLoad(id_tex, p, 0).x != objectId || objectId == 0u) {
+            return 0.0;
+        }
+        normals[i] = textureLoad(normal_depth_tex, p, 0).xyz;
+    }
+    return length(vec2<f32>(length(normals[0] - normals[1]), length(normals[2] - normals[3])));
+}
+
+fn materialStrength(pos: vec2<i32>) -> f32 {
+    let offsets = crossOffsets(lines.material_thickness);
+    let ids = textureLoad(id_tex, clampToTexture(pos), 0).xy;
+    var others = 0.0;
+    for (var i = 1; i < 4; i++) {
+        let sampleIds = textureLoad(id_tex, clampToTexture(pos + offsets[i]), 0).xy;
+        // Material changes between objects are silhouettes
+        if (sampleIds.x != ids.x || ids.x == 0u) {
+            return 0.0;
+        }
+        if (sampleIds.y != ids.y) {
+            others += 1.0;
+        }
+    }
+    return others / 3.0;
+}
+
+@fragment
+fn fs_main(@builtin(position) fragCoord: vec4<f32>) -> @location(0) vec4<f32> {
+    let pos = vec2<i32>(fragCoord.xy);
+    var color = textureLoad(color_tex, pos, 0).rgb;
+    // Drawn from the faintest kind of line to the strongest, so silhouettes win where lines meet
+    if (creaseStrength(pos) > lines.crease_threshold) {
+        color = lines.crease_color;
+    }
+    if (materialStrength(pos) > lines.material_threshold) {
+        color = lines.material_color;
+    }
+    if (silhouetteStrength(pos) > lines.silhouette_threshold) {
+        color = lines.silhouette_color;
+    }
+    return vec4<f32>(color, 1.0);
+}
@@ -0,0 +1,54 @@
+// G-buffer for LineLayer: view-space normal and linear depth, plus the ids of the object and material drawn there.
+// Cleared to zero, so background pixels have depth 0 and object id 0.
+struct Uniforms {
+    view: mat4x4<f32>,
+    projection: mat4x4<f32>,
+    normal_to_view: mat4x4<f32>,
+};
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> instances: array<Instance>;
+@group(1) @binding(0) var<uniform> material_id: u32;
+
+struct VertexInput {
+    @location(0) position: vec3<f32>,
+    @location(1) normal: vec3<f32>,
+    @builtin(instance_index) instanceIndex: u32,
+};
+
+struct VertexOutput {
+    @builtin(position) position: vec4<f32>,
+    @location(0) viewPosition: vec3<f32>,
+    @location(1) normal: vec3<f32>,
+    @location(2) @interpolate(flat) objectId: u32,
+};
+
+struct FragmentOutput {
+    @location(0) normalDepth: vec4<f32>,
+    @location(1) ids: vec2<u32>,
+};
+
+@vertex
+fn vs_main(in: VertexInput) -> VertexOutput {
+    let instance = instances[in.instanceIndex];
+    let viewPosition = uniforms.view * instance.model * vec4<f32>(in.position, 1.0);
+    var out: VertexOutput;
+    out.position = uniforms.projection * viewPosition;
+    out.viewPosition = viewPosition.xyz;
+    out.normal = (uniforms.normal_to_view * instance.normal * vec4<f32>(in.normal, 0.0)).xyz;
+    out.objectId = in.instanceIndex + 1u;
+    return out;
+}
+
+@fragment
+fn fs_main(in: VertexOutput) -> FragmentOutput {
+    var n = normalize(in.normal);
+    // Faces seen from behind would otherwise make creases along every silhouette of an open mesh
+    if (dot(n, in.viewPosition) > 0.0) {
+        n = -n;
+    }
+    var out: FragmentOutput;
+    out.normalDepth = vec4<f32>(n, -in.viewPosition.z);
+    out.ids = vec2<u32>(in.objectId, material_id + 1u);
+    return out;
+}
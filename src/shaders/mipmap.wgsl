@@ -0,0 +1,24 @@
+@group(0) @binding(0) var source: texture_2d<f32>;
+@group(0) @binding(1) var s_source: sampler;
+
+struct VertexOutput {
+    @builtin(position) position: vec4<f32>,
+    @location(0) texCoord: vec2<f32>,
+};
+
+// Fullscreen triangle
+@vertex
+fn vs_main(@builtin(vertex_index) in_vertex_index: u32) -> VertexOutput {
+    var out: VertexOutput;
+    let x = f32(in_vertex_index & 1u) * 4.0 - 1.0;
+    let y = f32(in_vertex_index & 2u) * 2.0 - 1.0;
+    out.position = vec4<f32>(x, y, 0.0, 1.0);
+    out.texCoord = vec2<f32>((x + 1.0) * 0.5, (1.0 - y) * 0.5);
+    return out;
+}
+
+// A bilinear sample halfway between four source texels averages them into one destination texel
+@fragment
+fn fs_main(in: VertexOutput) -> @location(0) vec4<f32> {
+    return textureSample(source, s_source, in.texCoord);
+}
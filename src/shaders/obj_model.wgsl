@@ -1,5 +1,5 @@
 @group(0) @binding(0)
-var<uniform> modelView: mat4x4<f32>;
+var<uniform> viewMatrix: mat4x4<f32>;
 @group(0) @binding(1)
 var<uniform> projection: mat4x4<f32>;
 @group(0) @binding(2)
@@ -9,17 +9,36 @@ var<uniform> lightDirection: vec3<f32>;
 @group(0) @binding(4)
 var<uniform> viewDirection: vec3<f32>;
 
+@group(0) @binding(5)
+var<storage, read> instances: array<Instance>;
+
+struct Material {
+    diffuse: vec3<f32>,
+    shininess: f32,
+    specular: vec3<f32>,
+    normalScale: f32,
+    normalMapped: u32,
+};
+
+@group(1) @binding(0)
+var<uniform> material: Material;
+@group(1) @binding(1)
+var t_diffuse: texture_2d<f32>;
+@group(1) @binding(2)
+var s_diffuse: sampler;
+@group(1) @binding(3)
+var t_normal: texture_2d<f32>;
+
 struct VertexOutput {
     @builtin(position) clip_position: vec4<f32>,
     @location(0) viewDir: vec3<f32>,
     @location(1) lightDir: vec3<f32>,
-    @location(2) normal: vec3<f32>
+    @location(2) normal: vec3<f32>,
+    @location(3) texCoord: vec2<f32>,
+    @location(4) tangent: vec4<f32>
 };
 
 const ambientColor: vec4<f32> = vec4<f32>(0.15, 0.0, 0.0, 1.0);
-const diffuseColor: vec4<f32> = vec4<f32>(0.25, 0.25, 0.25, 1.0);
-const specularColor: vec4<f32> = vec4<f32>(1.0, 1.0, 1.0, 1.0);
-const shininess: f32 = 20.0;
 
 const diffuseConstant:f32 = 1.0;
 const specularConstant:f32 = 1.0;
@@ -35,28 +54,50 @@ fn diffuse(lightDir:vec3<f32>, normal:vec3<f32>,  diffuseColor:vec3<f32>) -> vec
     return max(dot(lightDir, normal), 0.0) * diffuseColor;
 }
 
+// Perturbs the interpolated normal with the material's tangent-space normal map
+fn shadingNormal(normal: vec3<f32>, tangent: vec4<f32>, texCoord: vec2<f32>) -> vec3<f32> {
+    let n = normalize(normal);
+    if (material.normalMapped == 0u) {
+        return n;
+    }
+    let sampled = textureSample(t_normal, s_diffuse, texCoord).xyz * 2.0 - 1.0;
+    let mapped = vec3<f32>(sampled.xy * material.normalScale, sampled.z);
+    let t = normalize(tangent.xyz - n * dot(n, tangent.xyz));
+    let b = cross(n, t) * tangent.w;
+    return normalize(mapped.x * t + mapped.y * b + mapped.z * n);
+}
+
 @vertex
 fn vs_main(
     @location(0) inPos: vec3<f32>,
-    @location(1) inNormal: vec3<f32>
+    @location(1) inNormal: vec3<f32>,
+    @location(2) inTexCoord: vec2<f32>,
+    @location(3) inTangent: vec4<f32>,
+    @builtin(instance_index) instanceIndex: u32
 ) -> VertexOutput {
+    let instance = instances[instanceIndex];
+    let modelView = viewMatrix * instance.model;
     var out: VertexOutput;
     out.viewDir = normalize((normalMatrix * vec4<f32>(-viewDirection, 0.0)).xyz);
     out.lightDir = normalize((normalMatrix * vec4<f32>(-lightDirection, 0.0)).xyz);
-    out.normal = normalize(normalMatrix * vec4<f32>(inNormal, 0.0)).xyz; 
+    out.normal = normalize(normalMatrix * instance.normal * vec4<f32>(inNormal, 0.0)).xyz;
     out.clip_position = projection * modelView * vec4<f32>(inPos, 1.0);
+    out.texCoord = inTexCoord;
+    // Tangents follow the surface, so they take the model-view rather than the normal matrix
+    out.tangent = vec4<f32>((modelView * vec4<f32>(inTangent.xyz, 0.0)).xyz, inTangent.w);
     return out;
 }
 
 @fragment
 fn fs_main(in: VertexOutput) -> @location(0) vec4<f32> {
     var lightDir:vec3<f32> = in.lightDir;
-    var n:vec3<f32> = normalize(in.normal);
+    var n:vec3<f32> = shadingNormal(in.normal, in.tangent, in.texCoord);
     var viewDir: vec3<f32> = in.viewDir;
+    var diffuseColor: vec3<f32> = material.diffuse * textureSample(t_diffuse, s_diffuse, in.texCoord).rgb;
  
     var radiance:vec3<f32>  = ambientColor.rgb * ambientConstant + 
-        diffuse(lightDir, n, diffuseColor.rgb)* diffuseConstant +
-        specular(lightDir, viewDir, n, specularColor.rgb, shininess) * specularConstant;
+        diffuse(lightDir, n, diffuseColor)* diffuseConstant +
+        specular(lightDir, viewDir, n, material.specular, material.shininess) * specularConstant;
       
     return vec4<f32>(radiance ,1.0);
 }
\ No newline at end of file
@@ -0,0 +1,102 @@
+// Anisotropic Kuwahara filter (Kyprianidis et al., "Image and Video Abstraction by Anisotropic Kuwahara
+// Filtering", 2009), with polynomial sector weights instead of a precomputed weighting texture. Each pixel's
+// neighbourhood is an ellipse stretched along the local edge direction, split into sectors; sectors with a low
+// color variance dominate the output, which keeps edges sharp while flattening everything else into strokes.
+struct Params {
+    // Radius of the neighbourhood in pixels, before it's stretched into an ellipse
+    radius: f32,
+    // How strongly the sectors with the lowest variance win over the others
+    sharpness: f32,
+    sectors: u32,
+};
+
+@group(0) @binding(0) var<uniform> params: Params;
+@group(0) @binding(1) var source: texture_2d<f32>;
+@group(0) @binding(2) var tensor: texture_2d<f32>;
+@group(0) @binding(3) var painted: texture_storage_2d<rgba16float, write>;
+
+const PI: f32 = 3.14159265;
+const MAX_SECTORS: u32 = 16u;
+// How much the sector weights overlap, as a multiple of the half-angle at which they would fall to zero
+const SECTOR_OVERLAP: f32 = 1.5;
+// Smaller values stretch the ellipses more where the image is strongly oriented
+const ECCENTRICITY: f32 = 1.0;
+
+@compute @workgroup_size(8, 8)
+fn cs_main(@builtin(global_invocation_id) id: vec3<u32>) {
+    let size = vec2<i32>(textureDimensions(painted));
+    let pos = vec2<i32>(id.xy);
+    if (any(pos >= size)) {
+        return;
+    }
+
+    // Edge direction and anisotropy from the eigenvalues of the smoothed structure tensor
+    let t = textureLoad(tensor, pos, 0).xyz;
+    let root = sqrt((t.x - t.y) * (t.x - t.y) + 4.0 * t.z * t.z);
+    let lambda1 = 0.5 * (t.x + t.y + root);
+    let lambda2 = 0.5 * (t.x + t.y - root);
+    let tangent = vec2<f32>(lambda1 - t.x, -t.z);
+    let direction = select(vec2<f32>(0.0, 1.0), normalize(tangent), length(tangent) > 0.0);
+    let anisotropy = select(0.0, (lambda1 - lambda2) / (lambda1 + lambda2), lambda1 + lambda2 > 0.0);
+
+    let a = params.radius * clamp((ECCENTRICITY + anisotropy) / ECCENTRICITY, 0.1, 2.0);
+    let b = params.radius * clamp(ECCENTRICITY / (ECCENTRICITY + anisotropy), 0.1, 2.0);
+    let c = direction.x;
+    let s = direction.y;
+    // Maps offsets within the ellipse to the unit disc
+    let toDisc = mat2x2<f32>(c / a, -s / b, s / a, c / b);
+    let extent = vec2<i32>(ceil(vec2<f32>(sqrt(a * a * c * c + b * b * s * s), sqrt(a * a * s * s + b * b * c * c))));
+
+    // Sector k's weight is max(0, along + zeta - eta * across^2)^2 in its own frame, which falls to zero at
+    // the overlapping half-angle on the unit circle. Zeta lets the center pixel count towards every sector.
+    let sectors = clamp(params.sectors, 3u, MAX_SECTORS);
+    let halfAngle = PI / f32(sectors);
+    let zeroCrossing = min(halfAngle * SECTOR_OVERLAP, 0.5 * PI);
+    let zeta = 1.0 / params.radius;
+    let eta = (zeta + cos(zeroCrossing)) / (sin(zeroCrossing) * sin(zeroCrossing));
+    var axes: array<vec2<f32>, MAX_SECTORS>;
+    for (var k = 0u; k < sectors; k++) {
+        axes[k] = vec2<f32>(cos(2.0 * halfAngle * f32(k)), sin(2.0 * halfAngle * f32(k)));
+    }
+
+    var weights: array<f32, MAX_SECTORS>;
+    var sums: array<vec3<f32>, MAX_SECTORS>;
+    var squareSums: array<vec3<f32>, MAX_SECTORS>;
+    for (var y = -extent.y; y <= extent.y; y++) {
+        for (var x = -extent.x; x <= extent.x; x++) {
+            let v = toDisc * vec2<f32>(f32(x), f32(y));
+            let r2 = dot(v, v);
+            if (r2 > 1.0) {
+                continue;
+            }
+            let texel = textureLoad(source, clamp(pos + vec2<i32>(x, y), vec2<i32>(0, 0), size - 1), 0).rgb;
+            // Gaussian falloff towards the edge of the ellipse
+            let falloff = exp(-3.125 * r2);
+            for (var k = 0u; k < sectors; k++) {
+                let along = dot(v, axes[k]);
+                let across = dot(v, vec2<f32>(-axes[k].y, axes[k].x));
+                let polynomial = max(0.0, along + zeta - eta * across * across);
+                let weight = polynomial * polynomial * falloff;
+                weights[k] += weight;
+                sums[k] += weight * texel;
+                squareSums[k] += weight * texel * texel;
+            }
+        }
+    }
+
+    var color = vec3<f32>(0.0);
+    var total = 0.0;
+    for (var k = 0u; k < sectors; k++) {
+        if (weights[k] <= 0.0) {
+            continue;
+        }
+        let mean = sums[k] / weights[k];
+        let variance = abs(squareSums[k] / weights[k] - mean * mean);
+        // Standard deviation in 8-bit steps, as in the original formulation, so sharpness works as an exponent
+        let deviation = sqrt(variance.r + variance.g + variance.b) * 255.0;
+        let weight = 1.0 / (1.0 + min(pow(deviation, params.sharpness), 1e30));
+        color += weight * mean;
+        total += weight;
+    }
+    textureStore(painted, pos, vec4<f32>(color / total, 1.0));
+}
@@ -0,0 +1,33 @@
+// Draws the painted image over the whole output, scaled to fit and centered, since storage textures can't be in
+// the canvas format
+
+// The share of the output the image covers along each axis
+@group(0) @binding(0) var<uniform> scale: vec2<f32>;
+@group(0) @binding(1) var painted: texture_2d<f32>;
+@group(0) @binding(2) var s_painted: sampler;
+
+struct VertexOutput {
+    @builtin(position) position: vec4<f32>,
+    @location(0) texCoord: vec2<f32>,
+};
+
+const BACKGROUND: vec3<f32> = vec3<f32>(0.1, 0.1, 0.1);
+
+// Fullscreen triangle
+@vertex
+fn vs_main(@builtin(vertex_index) in_vertex_index: u32) -> VertexOutput {
+    var out: VertexOutput;
+    let x = f32(in_vertex_index & 1u) * 4.0 - 1.0;
+    let y = f32(in_vertex_index & 2u) * 2.0 - 1.0;
+    out.position = vec4<f32>(x, y, 0.0, 1.0);
+    out.texCoord = vec2<f32>((x + 1.0) * 0.5, (1.0 - y) * 0.5);
+    return out;
+}
+
+@fragment
+fn fs_main(in: VertexOutput) -> @location(0) vec4<f32> {
+    let texCoord = (in.texCoord - 0.5) / scale + 0.5;
+    let color = textureSample(painted, s_painted, texCoord).rgb;
+    let inside = all(texCoord >= vec2<f32>(0.0)) && all(texCoord <= vec2<f32>(1.0));
+    return vec4<f32>(select(BACKGROUND, color, inside), 1.0);
+}
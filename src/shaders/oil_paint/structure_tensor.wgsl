@@ -0,0 +1,25 @@
+// First pass of the anisotropic Kuwahara filter: the structure tensor of the source image, from Sobel derivatives
+// summed over the color channels. Stored as (E, G, F) for the tensor [[E, F], [F, G]].
+@group(0) @binding(0) var source: texture_2d<f32>;
+@group(0) @binding(1) var tensor: texture_storage_2d<rgba16float, write>;
+
+fn load(pos: vec2<i32>, offset: vec2<i32>) -> vec3<f32> {
+    return textureLoad(source, clamp(pos + offset, vec2<i32>(0, 0), vec2<i32>(textureDimensions(source)) - 1), 0).rgb;
+}
+
+@compute @workgroup_size(8, 8)
+fn cs_main(@builtin(global_invocation_id) id: vec3<u32>) {
+    if (any(id.xy >= textureDimensions(tensor))) {
+        return;
+    }
+    let pos = vec2<i32>(id.xy);
+    let gx = (
+        -1.0 * load(pos, vec2<i32>(-1, -1)) - 2.0 * load(pos, vec2<i32>(-1, 0)) - 1.0 * load(pos, vec2<i32>(-1, 1))
+        + 1.0 * load(pos, vec2<i32>(1, -1)) + 2.0 * load(pos, vec2<i32>(1, 0)) + 1.0 * load(pos, vec2<i32>(1, 1))
+    ) / 4.0;
+    let gy = (
+        -1.0 * load(pos, vec2<i32>(-1, -1)) - 2.0 * load(pos, vec2<i32>(0, -1)) - 1.0 * load(pos, vec2<i32>(1, -1))
+        + 1.0 * load(pos, vec2<i32>(-1, 1)) + 2.0 * load(pos, vec2<i32>(0, 1)) + 1.0 * load(pos, vec2<i32>(1, 1))
+    ) / 4.0;
+    textureStore(tensor, pos, vec4<f32>(dot(gx, gx), dot(gy, gy), dot(gx, gy), 1.0));
+}
@@ -0,0 +1,26 @@
+// Smooths the structure tensor with one direction of a separable Gaussian, so orientations vary smoothly and
+// noise doesn't break up the brush strokes
+@group(0) @binding(0) var<uniform> direction: vec2<f32>;
+@group(0) @binding(1) var source: texture_2d<f32>;
+@group(0) @binding(2) var blurred: texture_storage_2d<rgba16float, write>;
+
+const SIGMA: f32 = 2.0;
+
+@compute @workgroup_size(8, 8)
+fn cs_main(@builtin(global_invocation_id) id: vec3<u32>) {
+    let size = vec2<i32>(textureDimensions(blurred));
+    let pos = vec2<i32>(id.xy);
+    if (any(pos >= size)) {
+        return;
+    }
+    let stride = vec2<i32>(direction);
+    let extent = i32(ceil(2.0 * SIGMA));
+    var sum = vec3<f32>(0.0);
+    var total = 0.0;
+    for (var i = -extent; i <= extent; i++) {
+        let weight = exp(-f32(i * i) / (2.0 * SIGMA * SIGMA));
+        sum += weight * textureLoad(source, clamp(pos + i * stride, vec2<i32>(0, 0), size - 1), 0).xyz;
+        total += weight;
+    }
+    textureStore(blurred, pos, vec4<f32>(sum / total, 1.0));
+}
@@ -0,0 +1,39 @@
+// Inverted hull: the mesh pushed out along its normals and drawn with front faces culled, so only the hull's back
+// faces show, as a rim around the silhouette and along creases.
+struct Uniforms {
+    view: mat4x4<f32>,
+    projection: mat4x4<f32>,
+    normal_to_view: mat4x4<f32>,
+    color: vec3<f32>,
+    // In pixels, so outlines keep their width at any distance
+    width: f32,
+    viewport: vec2<f32>,
+};
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> instances: array<Instance>;
+
+struct VertexInput {
+    @location(0) position: vec3<f32>,
+    @location(1) normal: vec3<f32>,
+    @builtin(instance_index) instanceIndex: u32,
+};
+
+@vertex
+fn vs_main(in: VertexInput) -> @builtin(position) vec4<f32> {
+    let instance = instances[in.instanceIndex];
+    var position = uniforms.projection * uniforms.view * instance.model * vec4<f32>(in.position, 1.0);
+    let viewNormal = (uniforms.normal_to_view * instance.normal * vec4<f32>(in.normal, 0.0)).xyz;
+    // The normal's direction on screen, in pixels so it isn't skewed by the aspect ratio
+    let screenNormal = (uniforms.projection * vec4<f32>(viewNormal, 0.0)).xy * uniforms.viewport;
+    if (dot(screenNormal, screenNormal) > 1e-12) {
+        // NDC spans 2 units across the viewport, and the offset is scaled by w to undo the perspective divide
+        position = vec4<f32>(position.xy + normalize(screenNormal) * uniforms.width * 2.0 / uniforms.viewport * position.w, position.zw);
+    }
+    return position;
+}
+
+@fragment
+fn fs_main() -> @location(0) vec4<f32> {
+    return vec4<f32>(uniforms.color, 1.0);
+}
@@ -0,0 +1,80 @@
+struct Uniforms {
+    view: mat4x4<f32>,
+    projection: mat4x4<f32>,
+    normal_to_view: mat4x4<f32>,
+    // View space, pointing towards the light
+    light_direction: vec3<f32>,
+    rim_strength: f32,
+    rim_color: vec3<f32>,
+};
+
+struct Material {
+    diffuse: vec3<f32>,
+    shininess: f32,
+    specular: vec3<f32>,
+};
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> instances: array<Instance>;
+// Light intensity by half-Lambert term along u, either the user's ramp or one generated from N bands
+@group(0) @binding(2) var t_ramp: texture_2d<f32>;
+@group(0) @binding(3) var s_ramp: sampler;
+@group(1) @binding(0) var<uniform> material: Material;
+@group(1) @binding(1) var t_diffuse: texture_2d<f32>;
+@group(1) @binding(2) var s_diffuse: sampler;
+
+struct VertexInput {
+    @location(0) position: vec3<f32>,
+    @location(1) normal: vec3<f32>,
+    @location(2) texCoord: vec2<f32>,
+    @builtin(instance_index) instanceIndex: u32,
+};
+
+struct VertexOutput {
+    @builtin(position) position: vec4<f32>,
+    @location(0) viewPosition: vec3<f32>,
+    @location(1) normal: vec3<f32>,
+    @location(2) texCoord: vec2<f32>,
+};
+
+const AMBIENT: f32 = 0.15;
+const SPECULAR_THRESHOLD: f32 = 0.5;
+const RIM_THRESHOLD: f32 = 0.65;
+
+@vertex
+fn vs_main(in: VertexInput) -> VertexOutput {
+    let instance = instances[in.instanceIndex];
+    let viewPosition = uniforms.view * instance.model * vec4<f32>(in.position, 1.0);
+    var out: VertexOutput;
+    out.position = uniforms.projection * viewPosition;
+    out.viewPosition = viewPosition.xyz;
+    out.normal = (uniforms.normal_to_view * instance.normal * vec4<f32>(in.normal, 0.0)).xyz;
+    out.texCoord = in.texCoord;
+    return out;
+}
+
+// Steps `value` at `threshold`, antialiased over about a pixel
+fn hardStep(threshold: f32, value: f32) -> f32 {
+    let width = max(fwidth(value), 1e-4);
+    return smoothstep(threshold - width, threshold + width, value);
+}
+
+@fragment
+fn fs_main(in: VertexOutput) -> @location(0) vec4<f32> {
+    let n = normalize(in.normal);
+    let l = normalize(uniforms.light_direction);
+    let v = normalize(-in.viewPosition);
+    let nDotL = dot(n, l);
+
+    let shade = textureSample(t_ramp, s_ramp, vec2<f32>(nDotL * 0.5 + 0.5, 0.5)).rgb;
+    let baseColor = material.diffuse * textureSample(t_diffuse, s_diffuse, in.texCoord).rgb;
+
+    // Highlights and rim are thresholded into flat shapes rather than falling off smoothly
+    let h = normalize(l + v);
+    let highlight = pow(max(dot(n, h), 0.0), material.shininess) * step(0.0, nDotL);
+    let specular = hardStep(SPECULAR_THRESHOLD, highlight) * material.specular;
+    let rim = hardStep(RIM_THRESHOLD, 1.0 - max(dot(n, v), 0.0)) * hardStep(0.0, nDotL) * uniforms.rim_strength;
+
+    let color = baseColor * (shade + AMBIENT) + specular + rim * uniforms.rim_color;
+    return vec4<f32>(color, 1.0);
+}
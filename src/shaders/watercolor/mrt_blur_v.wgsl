@@ -1,6 +1,9 @@
+// Vertical half of the separable watercolor blur, continuing mrt_blur_h.wgsl's edge blur and bleeding from its
+// outputs. The bleeding spread into the control marks where the stylize pass softens edge darkening.
 @group(0) @binding(0) var blur_color_tex: texture_2d<f32>;
-@group(0) @binding(1) var control_tex: texture_2d<f32>;
-@group(0) @binding(2) var depth_tex: texture_depth_2d;
+@group(0) @binding(1) var bleed_color_tex: texture_2d<f32>;
+@group(0) @binding(2) var control_tex: texture_2d<f32>;
+@group(0) @binding(3) var depth_tex: texture_2d<f32>;
 
 struct VertexOutput {
     @builtin(position) position: vec4<f32>,
@@ -21,26 +24,62 @@ struct FragmentOutput {
     @location(2) control_out: vec4<f32>,
 }
 
+const DIRECTION: vec2<i32> = vec2<i32>(0, 1);
+const EDGE_SIGMA: f32 = 2.0;
+const BLEED_RADIUS: i32 = 12;
+const BLEED_SIGMA: f32 = 6.0;
+// Depth differences below this share of the depth count as the same surface
+const DEPTH_THRESHOLD: f32 = 0.01;
+
+fn gaussian(x: f32, sigma: f32) -> f32 {
+    return exp(-x * x / (2.0 * sigma * sigma));
+}
+
 @fragment
 fn fs_main(@builtin(position) fragCoord: vec4<f32>) -> FragmentOutput {
     let fragPos = vec2<i32>(fragCoord.xy);
-    var out: FragmentOutput;
-    
-    // Simplified Gaussian blur
-    var blurred_sum = vec4<f32>(0.0);
-    let weights = array<f32, 5>(0.227027, 0.1945946, 0.1216216, 0.054054, 0.016216);
-    blurred_sum += textureLoad(blur_color_tex, fragPos, 0) * weights[0];
-    for (var i = 1; i < 5; i = i + 1) {
-        let offset = vec2<i32>(0, i); 
-        blurred_sum += textureLoad(blur_color_tex, fragPos + offset, 0) * weights[i];
-        blurred_sum += textureLoad(blur_color_tex, fragPos - offset, 0) * weights[i];
-    }
-    
-    out.blurred_out = blurred_sum;
+    let maxPos = vec2<i32>(textureDimensions(blur_color_tex)) - 1;
+    let color = textureLoad(blur_color_tex, fragPos, 0);
+    let bleedColor = textureLoad(bleed_color_tex, fragPos, 0);
+    let control = textureLoad(control_tex, fragPos, 0);
+    let depth = textureLoad(depth_tex, fragPos, 0).r;
+    let bias = DEPTH_THRESHOLD * depth;
 
-    // Pass-through for bleed and control for simplicity, as the original logic is complex
-    out.bleeded_out = textureLoad(blur_color_tex, fragPos, 0);
-    out.control_out = textureLoad(control_tex, fragPos, 0);
+    var blurred = vec4<f32>(0.0);
+    var blurredWeight = 0.0;
+    var bleeded = vec4<f32>(0.0);
+    var bleededWeight = 0.0;
+    var bleeding = control.a;
+    for (var i = -BLEED_RADIUS; i <= BLEED_RADIUS; i++) {
+        let samplePos = clamp(fragPos + i * DIRECTION, vec2<i32>(0, 0), maxPos);
+        let sampleColor = textureLoad(blur_color_tex, samplePos, 0);
+        let sampleBleedColor = textureLoad(bleed_color_tex, samplePos, 0);
+        let sampleBleeding = textureLoad(control_tex, samplePos, 0).a;
+        let sampleDepth = textureLoad(depth_tex, samplePos, 0).r;
+        let inFront = sampleDepth < depth - bias;
+        let behind = sampleDepth > depth + bias;
 
+        // Occluders don't darken the edges of what they cover
+        let edgeWeight = gaussian(f32(i), EDGE_SIGMA);
+        blurred += edgeWeight * select(sampleColor, color, inFront);
+        blurredWeight += edgeWeight;
+
+        var amount = 0.0;
+        if (sampleBleeding > 0.0 && !behind) {
+            amount = sampleBleeding;
+            bleeding = max(bleeding, sampleBleeding);
+        }
+        if (control.a > 0.0 && !inFront) {
+            amount = max(amount, control.a);
+        }
+        let bleedWeight = gaussian(f32(i), BLEED_SIGMA);
+        bleeded += bleedWeight * mix(bleedColor, sampleBleedColor, clamp(amount, 0.0, 1.0));
+        bleededWeight += bleedWeight;
+    }
+
+    var out: FragmentOutput;
+    out.blurred_out = blurred / blurredWeight;
+    out.bleeded_out = bleeded / bleededWeight;
+    out.control_out = vec4<f32>(control.rgb, bleeding);
     return out;
-}
\ No newline at end of file
+}
@@ -1,44 +1,102 @@
 struct Uniforms {
-    object_to_clip: mat4x4<f32>,
-    object_to_light: mat4x4<f32>,
+    world_to_clip: mat4x4<f32>,
+    world_to_light: mat4x4<f32>,
     normal_to_light: mat3x3<f32>,
     viewPos: vec3<f32>,
+    // Scales object space positions for the noise that places wet patches
+    noise_scale: f32,
+    // Art direction written to the control target, see fs_main
+    bleeding: f32,
+    edge_darkening: f32,
+    turbulence: f32,
+    granulation: f32,
+};
+
+struct Material {
+    diffuse: vec3<f32>,
+    normalScale: f32,
+    normalMapped: u32,
 };
 
 @group(0) @binding(0) var<uniform> uniforms: Uniforms;
-@group(0) @binding(1) var t_diffuse: texture_2d<f32>;
-@group(0) @binding(2) var s_diffuse: sampler;
+@group(0) @binding(1) var<storage, read> instances: array<Instance>;
+@group(1) @binding(0) var<uniform> material: Material;
+@group(1) @binding(1) var t_diffuse: texture_2d<f32>;
+@group(1) @binding(2) var s_diffuse: sampler;
+@group(1) @binding(3) var t_normal: texture_2d<f32>;
 
 struct VertexInput {
     @location(0) position: vec4<f32>,
     @location(1) normal: vec3<f32>,
     @location(2) texCoord: vec2<f32>,
+    @location(3) tangent: vec4<f32>,
+    @builtin(instance_index) instanceIndex: u32,
 };
 
 struct VertexOutput {
     @builtin(position) position: vec4<f32>,
     @location(0) shadingNormal: vec3<f32>,
     @location(1) texCoord: vec2<f32>,
+    @location(2) tangent: vec4<f32>,
+    @location(3) objectPosition: vec3<f32>,
+    @location(4) viewDepth: f32,
 };
 
 @vertex
 fn vs_main(in: VertexInput) -> VertexOutput {
+    let instance = instances[in.instanceIndex];
     var out: VertexOutput;
-    out.position = uniforms.object_to_clip * in.position;
+    out.position = uniforms.world_to_clip * instance.model * in.position;
     let normal_mat4 = mat4x4<f32>(
         vec4<f32>(uniforms.normal_to_light[0], 0.0),
         vec4<f32>(uniforms.normal_to_light[1], 0.0),
         vec4<f32>(uniforms.normal_to_light[2], 0.0),
         vec4<f32>(0.0, 0.0, 0.0, 1.0)
     );
-    out.shadingNormal = (normal_mat4 * vec4<f32>(in.normal, 0.0)).xyz;
+    out.shadingNormal = (normal_mat4 * instance.normal * vec4<f32>(in.normal, 0.0)).xyz;
     out.texCoord = in.texCoord;
+    out.tangent = vec4<f32>((uniforms.world_to_light * instance.model * vec4<f32>(in.tangent.xyz, 0.0)).xyz, in.tangent.w);
+    out.objectPosition = in.position.xyz;
+    out.viewDepth = -(uniforms.world_to_light * instance.model * in.position).z;
     return out;
 }
 
+// Perturbs the interpolated normal with the material's tangent-space normal map
+fn shadingNormal(normal: vec3<f32>, tangent: vec4<f32>, texCoord: vec2<f32>) -> vec3<f32> {
+    let n = normalize(normal);
+    if (material.normalMapped == 0u) {
+        return n;
+    }
+    let sampled = textureSample(t_normal, s_diffuse, texCoord).xyz * 2.0 - 1.0;
+    let mapped = vec3<f32>(sampled.xy * material.normalScale, sampled.z);
+    let t = normalize(tangent.xyz - n * dot(n, tangent.xyz));
+    let b = cross(n, t) * tangent.w;
+    return normalize(mapped.x * t + mapped.y * b + mapped.z * n);
+}
+
+fn hash(p: vec3<f32>) -> f32 {
+    return fract(sin(dot(p, vec3<f32>(127.1, 311.7, 74.7))) * 43758.5453);
+}
+
+// Smooth 3D value noise in 0..1
+fn valueNoise(p: vec3<f32>) -> f32 {
+    let i = floor(p);
+    let f = fract(p);
+    let u = f * f * (3.0 - 2.0 * f);
+    return mix(
+        mix(mix(hash(i), hash(i + vec3<f32>(1.0, 0.0, 0.0)), u.x),
+            mix(hash(i + vec3<f32>(0.0, 1.0, 0.0)), hash(i + vec3<f32>(1.0, 1.0, 0.0)), u.x), u.y),
+        mix(mix(hash(i + vec3<f32>(0.0, 0.0, 1.0)), hash(i + vec3<f32>(1.0, 0.0, 1.0)), u.x),
+            mix(hash(i + vec3<f32>(0.0, 1.0, 1.0)), hash(i + vec3<f32>(1.0, 1.0, 1.0)), u.x), u.y),
+        u.z);
+}
+
 struct FragmentOutput {
     @location(0) color: vec4<f32>,
+    // r: pigment turbulence, g: granulation (negative for dry-brush), b: edge darkening, a: bleeding
     @location(1) control: vec4<f32>,
+    // View space depth, so the blur passes only bleed and darken across edges the depth order permits
+    @location(2) depth: f32,
 }
 
 @fragment
@@ -50,7 +108,7 @@ fn fs_main(in: VertexOutput) -> FragmentOutput {
     let sky_direction = vec3<f32>(0.0, 0.0, 1.0);
 
     var total_light = vec3<f32>(0.0, 0.0, 0.0);
-    let n = normalize(in.shadingNormal);
+    let n = shadingNormal(in.shadingNormal, in.tangent, in.texCoord);
 
     let nl_sky = 0.5 + 0.5 * dot(n, sky_direction);
     total_light += nl_sky * sky_color;
@@ -58,9 +116,12 @@ fn fs_main(in: VertexOutput) -> FragmentOutput {
     let nl_sun = max(0.0, dot(n, sun_direction));
     total_light += nl_sun * sun_color;
 
-    out.color = textureSample(t_diffuse, s_diffuse, in.texCoord) * vec4<f32>(total_light, 1.0);
+    out.color = textureSample(t_diffuse, s_diffuse, in.texCoord) * vec4<f32>(material.diffuse * total_light, 1.0);
     out.color.a = 1.0;
-    out.control = vec4<f32>(0.0, 0.5, 0.0, 0.0);
+    // Bleeding only in wet patches that stick to the surface, fading in at their borders
+    let wet = smoothstep(0.5, 0.65, valueNoise(in.objectPosition * uniforms.noise_scale));
+    out.control = vec4<f32>(uniforms.turbulence, uniforms.granulation, uniforms.edge_darkening, uniforms.bleeding * wet);
+    out.depth = in.viewDepth;
     
     return out;
 }
\ No newline at end of file
@@ -1,3 +1,5 @@
+// Final watercolor pass: starts from the bled color and applies, by the control map, pigment turbulence, edge
+// darkening where the edge blur differs from the color, and granulation or dry-brush on the paper.
 @group(0) @binding(0) var color_tex: texture_2d<f32>;
 @group(0) @binding(1) var control_tex: texture_2d<f32>;
 @group(0) @binding(2) var blurred_tex: texture_2d<f32>;
@@ -17,6 +19,14 @@ fn vs_main(@builtin(vertex_index) in_vertex_index: u32) -> VertexOutput {
     return out;
 }
 
+// Pixels per cell of the pigment turbulence noise, and how far it moves the pigment density
+const TURBULENCE_SCALE: f32 = 96.0;
+const TURBULENCE_STRENGTH: f32 = 0.6;
+const EDGE_STRENGTH: f32 = 5.0;
+const GRANULATION_DENSITY: f32 = 2.0;
+// Softness of the threshold above which dry-brush leaves the paper's peaks unpainted
+const DRY_BRUSH_SOFTNESS: f32 = 0.05;
+
 fn pow_col(base: vec4<f32>, exp: f32) -> vec4<f32> {
     return vec4<f32>(pow(base.r, exp), pow(base.g, exp), pow(base.b, exp), 1.0);
 }
@@ -25,40 +35,65 @@ fn max_col(col: vec4<f32>) -> f32 {
     return max(0.0, max(col.r, max(col.g, col.b)));
 }
 
+fn hash(p: vec2<f32>) -> f32 {
+    return fract(sin(dot(p, vec2<f32>(127.1, 311.7))) * 43758.5453);
+}
+
+// Two octaves of smooth value noise in 0..1
+fn turbulenceNoise(p: vec2<f32>) -> f32 {
+    var value = 0.0;
+    var amplitude = 0.5;
+    var q = p;
+    for (var octave = 0; octave < 2; octave++) {
+        let i = floor(q);
+        let f = fract(q);
+        let u = f * f * (3.0 - 2.0 * f);
+        value += amplitude * mix(mix(hash(i), hash(i + vec2<f32>(1.0, 0.0)), u.x),
+            mix(hash(i + vec2<f32>(0.0, 1.0)), hash(i + vec2<f32>(1.0, 1.0)), u.x), u.y);
+        amplitude *= 0.5;
+        q *= 2.0;
+    }
+    return value / 0.75;
+}
+
 @fragment
 fn fs_main(@builtin(position) fragCoord: vec4<f32>) -> @location(0) vec4<f32> {
     let fragPos = vec2<i32>(fragCoord.xy);
     let surfaceColor = textureLoad(surface_tex, fragPos, 0);
-    
+
     // Paper distortion
     let shift_amt = surfaceColor.gb * 10.0; // Scaled for effect
-    let shiftedCoord = vec2<i32>(fragCoord.xy + shift_amt);
+    let shiftedCoord = clamp(vec2<i32>(fragCoord.xy + shift_amt), vec2<i32>(0, 0), vec2<i32>(textureDimensions(color_tex)) - 1);
 
     let controlColor = textureLoad(control_tex, shiftedCoord, 0);
     let colorColor = textureLoad(color_tex, shiftedCoord, 0);
     let blurredColor = textureLoad(blurred_tex, shiftedCoord, 0);
     let bleededColor = textureLoad(bleeded_tex, shiftedCoord, 0);
 
-    // Color bleeding
-    let colorBleed = controlColor.b * (bleededColor - colorColor) + colorColor;
-    
-    // Edge darkening
+    // Pigment turbulence: low frequency variation of the pigment density, darker where it's denser
+    let turbulence = controlColor.r * TURBULENCE_STRENGTH * (2.0 * turbulenceNoise(fragCoord.xy / TURBULENCE_SCALE) - 1.0);
+    let pigment = pow_col(bleededColor, 1.0 + turbulence);
+
+    // Edge darkening, where the edge blur pulled in lighter colors. Wet areas bleed instead of pooling at edges.
     let blurDif = blurredColor - colorColor;
     let maxVal = max_col(blurDif);
-    let exp = 1.0 + (1.0 - controlColor.b) * maxVal * 5.0; 
-    let edgeDarkening = pow_col(colorBleed, exp);
+    let exp = 1.0 + controlColor.b * (1.0 - controlColor.a) * maxVal * EDGE_STRENGTH;
+    let edgeDarkening = pow_col(pigment, exp);
 
-    // Paper granulation
+    // Paper granulation: pigment settles in the paper's valleys
     let saturation = edgeDarkening;
     let paperHeight = surfaceColor.r;
     let tint = surfaceColor.a;
     let Piv = 0.5 * (1.0 - paperHeight);
-    let ctrl_g = textureLoad(control_tex, shiftedCoord, 0).g;
-    let density_amount = 2.0;
+    let ctrl_g = max(controlColor.g, 0.0);
+
+    let granulated = saturation * (saturation - ctrl_g * GRANULATION_DENSITY * Piv) + (1.0 - saturation) * pow_col(saturation, 1.0 + (ctrl_g * GRANULATION_DENSITY * Piv));
 
-    let granulated = saturation * (saturation - ctrl_g * density_amount * Piv) + (1.0 - saturation) * pow_col(saturation, 1.0 + (ctrl_g * density_amount * Piv));
-    var final_out = granulated * tint;
+    // Dry-brush, for negative control: the brush skips the paper's peaks, more of them the stronger it is
+    let dryBrush = max(-controlColor.g, 0.0);
+    let unpainted = select(0.0, smoothstep(1.0 - dryBrush - DRY_BRUSH_SOFTNESS, 1.0 - dryBrush + DRY_BRUSH_SOFTNESS, paperHeight), dryBrush > 0.0);
+    var final_out = mix(granulated, vec4<f32>(1.0), unpainted) * tint;
     final_out.a = 1.0;
-    
+
     return final_out;
-}
\ No newline at end of file
+}
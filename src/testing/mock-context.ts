@@ -0,0 +1,39 @@
+import { WebGPUContext } from "../core/webgpu-context";
+import { createMockBackend, installWebGPUGlobals, type IMockBackend, type IMockBackendOptions } from "./mock-gpu";
+
+/**
+ * One triangle with UVs and a normal, served as teapot.obj so scenes load fast.
+ */
+export const TRIANGLE_OBJ = `
+v 0 0 0
+v 1 0 0
+v 0 1 0
+vt 0 0
+vt 1 0
+vt 0 1
+vn 0 0 1
+f 1/1/1 2/2/1 3/3/1
+`;
+
+export interface IMockContextOptions extends IMockBackendOptions {
+    msaa?: number;
+}
+
+export interface IMockContext {
+    backend: IMockBackend;
+    webGpuContext: WebGPUContext;
+}
+
+/**
+ * A WebGPUContext on a new mock backend, for tests. Destroy the context afterwards, since create() hands out the
+ * existing one until then.
+ */
+export async function createMockContext(options: IMockContextOptions = {}): Promise<IMockContext> {
+    installWebGPUGlobals();
+    const backend = createMockBackend({ ...options, assets: { "teapot.obj": TRIANGLE_OBJ, ...options.assets } });
+    const { instance, error } = await WebGPUContext.create({ ...backend.contextOptions, primitiveState: { topology: "triangle-list" }, msaa: options.msaa });
+    if (!instance) {
+        throw new Error(error);
+    }
+    return { backend, webGpuContext: instance };
+}
@@ -0,0 +1,664 @@
+import type { IWebGPUContextOptions } from "../core/webgpu-context";
+import type { IAssetFetcher, IFrameScheduler } from "../core/platform";
+
+/**
+ * Recording stand-in for WebGPU, so the core can run headless (e.g. under Node) without a GPU. Objects only
+ * implement what this repo calls, and everything that matters for assertions is logged on a MockGpuRecorder:
+ * created and destroyed resources, pipelines, and per submission the passes in encoding order: render passes with
+ * their targets and draws, compute passes with their dispatches.
+ *
+ *     installWebGPUGlobals();
+ *     const backend = createMockBackend({ assets: { "teapot.obj": objText } });
+ *     const { instance } = await WebGPUContext.create({ ...backend.contextOptions, primitiveState });
+ *     await instance!.runScene(renderWatercolorScene);
+ *     await backend.frameScheduler.step();
+ *     backend.recorder.lastSubmission!.passes.map(pass => pass.type === "render" ? pass.colorFormats : pass.label);
+ */
+
+export interface IMockDrawCall {
+    pipeline: string;
+    indexed: boolean;
+    count: number;
+    instanceCount: number;
+}
+
+export interface IMockRenderPass {
+    type: "render";
+    label: string;
+    colorFormats: GPUTextureFormat[];
+    resolveFormats: (GPUTextureFormat | undefined)[];
+    depthFormat?: GPUTextureFormat;
+    sampleCount: number;
+    draws: IMockDrawCall[];
+}
+
+export interface IMockDispatch {
+    pipeline: string;
+    workgroups: [number, number, number];
+}
+
+export interface IMockComputePass {
+    type: "compute";
+    label: string;
+    dispatches: IMockDispatch[];
+}
+
+export type MockPass = IMockRenderPass | IMockComputePass;
+
+export interface IMockSubmission {
+    /** Render and compute passes of every submitted command buffer, in the order they were encoded. */
+    passes: MockPass[];
+}
+
+export class MockGpuRecorder {
+    public buffers: MockGPUBuffer[] = [];
+    public textures: MockGPUTexture[] = [];
+    public pipelines: GPURenderPipelineDescriptor[] = [];
+    public computePipelines: GPUComputePipelineDescriptor[] = [];
+    public shaderModules: GPUShaderModuleDescriptor[] = [];
+    public bindGroupCount = 0;
+    public submissions: IMockSubmission[] = [];
+
+    public get liveBuffers(): MockGPUBuffer[] {
+        return this.buffers.filter(buffer => !buffer.destroyed);
+    }
+
+    public get liveTextures(): MockGPUTexture[] {
+        return this.textures.filter(texture => !texture.destroyed);
+    }
+
+    public get lastSubmission(): IMockSubmission | undefined {
+        return this.submissions[this.submissions.length - 1];
+    }
+
+    /**
+     * Forgets submissions so far, e.g. after warming up a scene, while keeping the resource log.
+     */
+    public clearSubmissions() {
+        this.submissions = [];
+    }
+}
+
+abstract class MockGPUObject {
+    public label: string;
+
+    constructor(label?: string) {
+        this.label = label ?? "";
+    }
+
+    // Lets the core tell object types apart the same way it does for real GPU objects
+    public abstract get [Symbol.toStringTag](): string;
+}
+
+export class MockGPUBuffer extends MockGPUObject {
+    public size: number;
+    public usage: number;
+    public mapState: GPUBufferMapState;
+    public destroyed = false;
+    private _data: ArrayBuffer;
+
+    constructor(descriptor: GPUBufferDescriptor) {
+        super(descriptor.label);
+        this.size = descriptor.size;
+        this.usage = descriptor.usage;
+        this.mapState = descriptor.mappedAtCreation ? "mapped" : "unmapped";
+        this._data = new ArrayBuffer(descriptor.size);
+    }
+
+    public get [Symbol.toStringTag]() {
+        return "GPUBuffer";
+    }
+
+    public get data(): ArrayBuffer {
+        return this._data;
+    }
+
+    // Real buffers hand out a view of their memory; returning a slice would drop writes made through it
+    public getMappedRange(): ArrayBuffer {
+        return this._data;
+    }
+
+    public async mapAsync() {
+        this.mapState = "mapped";
+    }
+
+    public unmap() {
+        this.mapState = "unmapped";
+    }
+
+    public destroy() {
+        this.destroyed = true;
+    }
+}
+
+export class MockGPUTexture extends MockGPUObject {
+    public width: number;
+    public height: number;
+    public depthOrArrayLayers: number;
+    public format: GPUTextureFormat;
+    public sampleCount: number;
+    public mipLevelCount: number;
+    public dimension: GPUTextureDimension;
+    public usage: number;
+    public destroyed = false;
+
+    constructor(descriptor: GPUTextureDescriptor) {
+        super(descriptor.label);
+        const size = descriptor.size as GPUExtent3DDict | number[];
+        this.width = Array.isArray(size) ? size[0] : size.width;
+        this.height = Array.isArray(size) ? size[1] ?? 1 : size.height ?? 1;
+        this.depthOrArrayLayers = Array.isArray(size) ? size[2] ?? 1 : size.depthOrArrayLayers ?? 1;
+        this.format = descriptor.format;
+        this.sampleCount = descriptor.sampleCount ?? 1;
+        this.mipLevelCount = descriptor.mipLevelCount ?? 1;
+        this.dimension = descriptor.dimension ?? "2d";
+        this.usage = descriptor.usage;
+    }
+
+    public get [Symbol.toStringTag]() {
+        return "GPUTexture";
+    }
+
+    public createView(descriptor?: GPUTextureViewDescriptor): MockGPUTextureView {
+        return new MockGPUTextureView(this, descriptor);
+    }
+
+    public destroy() {
+        this.destroyed = true;
+    }
+}
+
+export class MockGPUTextureView extends MockGPUObject {
+    public texture: MockGPUTexture;
+    public descriptor?: GPUTextureViewDescriptor;
+
+    constructor(texture: MockGPUTexture, descriptor?: GPUTextureViewDescriptor) {
+        super(descriptor?.label);
+        this.texture = texture;
+        this.descriptor = descriptor;
+    }
+
+    public get [Symbol.toStringTag]() {
+        return "GPUTextureView";
+    }
+}
+
+class MockGPUSampler extends MockGPUObject {
+    public get [Symbol.toStringTag]() {
+        return "GPUSampler";
+    }
+}
+
+class MockGPUBindGroupLayout extends MockGPUObject {
+    public get [Symbol.toStringTag]() {
+        return "GPUBindGroupLayout";
+    }
+}
+
+class MockGPUPipelineLayout extends MockGPUObject {
+    public get [Symbol.toStringTag]() {
+        return "GPUPipelineLayout";
+    }
+}
+
+class MockGPUBindGroup extends MockGPUObject {
+    public get [Symbol.toStringTag]() {
+        return "GPUBindGroup";
+    }
+}
+
+class MockGPUShaderModule extends MockGPUObject {
+    public get [Symbol.toStringTag]() {
+        return "GPUShaderModule";
+    }
+
+    public async getCompilationInfo(): Promise<GPUCompilationInfo> {
+        return { messages: [] } as unknown as GPUCompilationInfo;
+    }
+}
+
+class MockGPURenderPipeline extends MockGPUObject {
+    public get [Symbol.toStringTag]() {
+        return "GPURenderPipeline";
+    }
+}
+
+class MockGPUComputePipeline extends MockGPUObject {
+    public get [Symbol.toStringTag]() {
+        return "GPUComputePipeline";
+    }
+}
+
+class MockGPURenderPassEncoder extends MockGPUObject {
+    private _pass: IMockRenderPass;
+    private _pipeline = "";
+
+    constructor(pass: IMockRenderPass) {
+        super(pass.label);
+        this._pass = pass;
+    }
+
+    public get [Symbol.toStringTag]() {
+        return "GPURenderPassEncoder";
+    }
+
+    public setPipeline(pipeline: MockGPURenderPipeline) {
+        this._pipeline = pipeline.label;
+    }
+
+    public draw(vertexCount: number, instanceCount: number = 1) {
+        this._pass.draws.push({ pipeline: this._pipeline, indexed: false, count: vertexCount, instanceCount });
+    }
+
+    public drawIndexed(indexCount: number, instanceCount: number = 1) {
+        this._pass.draws.push({ pipeline: this._pipeline, indexed: true, count: indexCount, instanceCount });
+    }
+
+    public setBindGroup() {}
+    public setVertexBuffer() {}
+    public setIndexBuffer() {}
+    public setViewport() {}
+    public setScissorRect() {}
+    public setBlendConstant() {}
+    public setStencilReference() {}
+    public end() {}
+}
+
+class MockGPUComputePassEncoder extends MockGPUObject {
+    private _pass: IMockComputePass;
+    private _pipeline = "";
+
+    constructor(pass: IMockComputePass) {
+        super(pass.label);
+        this._pass = pass;
+    }
+
+    public get [Symbol.toStringTag]() {
+        return "GPUComputePassEncoder";
+    }
+
+    public setPipeline(pipeline: MockGPUComputePipeline) {
+        this._pipeline = pipeline.label;
+    }
+
+    public dispatchWorkgroups(x: number, y: number = 1, z: number = 1) {
+        this._pass.dispatches.push({ pipeline: this._pipeline, workgroups: [x, y, z] });
+    }
+
+    public setBindGroup() {}
+    public end() {}
+}
+
+class MockGPUCommandBuffer extends MockGPUObject {
+    public passes: MockPass[];
+
+    constructor(passes: MockPass[]) {
+        super();
+        this.passes = passes;
+    }
+
+    public get [Symbol.toStringTag]() {
+        return "GPUCommandBuffer";
+    }
+}
+
+class MockGPUCommandEncoder extends MockGPUObject {
+    private _passes: MockPass[] = [];
+
+    public get [Symbol.toStringTag]() {
+        return "GPUCommandEncoder";
+    }
+
+    public beginRenderPass(descriptor: GPURenderPassDescriptor): MockGPURenderPassEncoder {
+        const colorAttachments = [...descriptor.colorAttachments].filter(attachment => attachment !== null && attachment !== undefined);
+        const views = colorAttachments.map(attachment => attachment.view as unknown as MockGPUTextureView);
+        const depthView = descriptor.depthStencilAttachment?.view as unknown as MockGPUTextureView | undefined;
+        const pass: IMockRenderPass = {
+            type: "render",
+            label: descriptor.label ?? "",
+            colorFormats: views.map(view => view.texture.format),
+            resolveFormats: colorAttachments.map(attachment => (attachment.resolveTarget as unknown as MockGPUTextureView | undefined)?.texture.format),
+            depthFormat: depthView?.texture.format,
+            sampleCount: (views[0] ?? depthView)?.texture.sampleCount ?? 1,
+            draws: [],
+        };
+        this._passes.push(pass);
+        return new MockGPURenderPassEncoder(pass);
+    }
+
+    public beginComputePass(descriptor?: GPUComputePassDescriptor): MockGPUComputePassEncoder {
+        const pass: IMockComputePass = { type: "compute", label: descriptor?.label ?? "", dispatches: [] };
+        this._passes.push(pass);
+        return new MockGPUComputePassEncoder(pass);
+    }
+
+    public copyTextureToBuffer() {}
+    public copyBufferToBuffer() {}
+
+    public finish(): MockGPUCommandBuffer {
+        return new MockGPUCommandBuffer(this._passes);
+    }
+}
+
+class MockGPUQueue extends MockGPUObject {
+    private _recorder: MockGpuRecorder;
+
+    constructor(recorder: MockGpuRecorder) {
+        super();
+        this._recorder = recorder;
+    }
+
+    public get [Symbol.toStringTag]() {
+        return "GPUQueue";
+    }
+
+    public submit(commandBuffers: MockGPUCommandBuffer[]) {
+        this._recorder.submissions.push({
+            passes: commandBuffers.flatMap(commandBuffer => commandBuffer.passes),
+        });
+    }
+
+    public writeBuffer(buffer: MockGPUBuffer, bufferOffset: number, data: ArrayBuffer | ArrayBufferView, dataOffset: number = 0, size?: number) {
+        const bytes = ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(data);
+        const source = bytes.subarray(dataOffset, size === undefined ? undefined : dataOffset + size);
+        if (bufferOffset + source.byteLength > buffer.size) {
+            throw new Error(`writeBuffer of ${source.byteLength} bytes at offset ${bufferOffset} overflows "${buffer.label}" (${buffer.size} bytes)`);
+        }
+        new Uint8Array(buffer.data).set(source, bufferOffset);
+    }
+
+    public writeTexture() {}
+
+    public copyExternalImageToTexture() {}
+
+    public async onSubmittedWorkDone() {}
+}
+
+export class MockGPUDevice extends MockGPUObject {
+    public queue: MockGPUQueue;
+    public limits: Partial<GPUSupportedLimits>;
+    public features: Set<string>;
+    public lost: Promise<GPUDeviceLostInfo>;
+    public onuncapturederror: ((event: GPUUncapturedErrorEvent) => void) | null = null;
+    private _recorder: MockGpuRecorder;
+    private _resolveLost!: (info: GPUDeviceLostInfo) => void;
+
+    constructor(recorder: MockGpuRecorder) {
+        super("mock device");
+        this._recorder = recorder;
+        this.queue = new MockGPUQueue(recorder);
+        this.limits = {
+            minUniformBufferOffsetAlignment: 256,
+            minStorageBufferOffsetAlignment: 256,
+            maxTextureDimension2D: 8192,
+            maxColorAttachmentBytesPerSample: 128,
+        };
+        this.features = new Set();
+        this.lost = new Promise(resolve => this._resolveLost = resolve);
+    }
+
+    public get [Symbol.toStringTag]() {
+        return "GPUDevice";
+    }
+
+    /**
+     * Simulates a driver reset, which makes WebGPUContext request a replacement device.
+     */
+    public lose(message: string = "mock device lost") {
+        this._resolveLost({ reason: "unknown", message } as GPUDeviceLostInfo);
+    }
+
+    public destroy() {
+        this._resolveLost({ reason: "destroyed", message: "" } as GPUDeviceLostInfo);
+    }
+
+    public createBuffer(descriptor: GPUBufferDescriptor): MockGPUBuffer {
+        const buffer = new MockGPUBuffer(descriptor);
+        this._recorder.buffers.push(buffer);
+        return buffer;
+    }
+
+    public createTexture(descriptor: GPUTextureDescriptor): MockGPUTexture {
+        const texture = new MockGPUTexture(descriptor);
+        this._recorder.textures.push(texture);
+        return texture;
+    }
+
+    public createSampler(descriptor?: GPUSamplerDescriptor): MockGPUSampler {
+        return new MockGPUSampler(descriptor?.label);
+    }
+
+    public createShaderModule(descriptor: GPUShaderModuleDescriptor): MockGPUShaderModule {
+        this._recorder.shaderModules.push(descriptor);
+        return new MockGPUShaderModule(descriptor.label);
+    }
+
+    public createBindGroupLayout(descriptor: GPUBindGroupLayoutDescriptor): MockGPUBindGroupLayout {
+        return new MockGPUBindGroupLayout(descriptor.label);
+    }
+
+    public createPipelineLayout(descriptor: GPUPipelineLayoutDescriptor): MockGPUPipelineLayout {
+        return new MockGPUPipelineLayout(descriptor.label);
+    }
+
+    public createBindGroup(descriptor: GPUBindGroupDescriptor): MockGPUBindGroup {
+        this._recorder.bindGroupCount++;
+        return new MockGPUBindGroup(descriptor.label);
+    }
+
+    public createRenderPipeline(descriptor: GPURenderPipelineDescriptor): MockGPURenderPipeline {
+        this._recorder.pipelines.push(descriptor);
+        return new MockGPURenderPipeline(descriptor.label);
+    }
+
+    public createComputePipeline(descriptor: GPUComputePipelineDescriptor): MockGPUComputePipeline {
+        this._recorder.computePipelines.push(descriptor);
+        return new MockGPUComputePipeline(descriptor.label);
+    }
+
+    public createCommandEncoder(descriptor?: GPUCommandEncoderDescriptor): MockGPUCommandEncoder {
+        return new MockGPUCommandEncoder(descriptor?.label);
+    }
+
+    public pushErrorScope() {}
+
+    public async popErrorScope(): Promise<GPUError | null> {
+        return null;
+    }
+}
+
+export class MockGPUCanvasContext extends MockGPUObject {
+    public configuration?: GPUCanvasConfiguration;
+    private _canvas: { width: number, height: number };
+
+    constructor(canvas: { width: number, height: number }) {
+        super();
+        this._canvas = canvas;
+    }
+
+    public get [Symbol.toStringTag]() {
+        return "GPUCanvasContext";
+    }
+
+    public configure(configuration: GPUCanvasConfiguration) {
+        this.configuration = configuration;
+    }
+
+    public unconfigure() {
+        this.configuration = undefined;
+    }
+
+    // Swap chain textures aren't logged on the recorder, so they never count as leaks
+    public getCurrentTexture(): MockGPUTexture {
+        if (!this.configuration) {
+            throw new Error("getCurrentTexture() called on an unconfigured canvas context");
+        }
+        return new MockGPUTexture({
+            label: "canvas texture",
+            size: { width: this._canvas.width, height: this._canvas.height },
+            format: this.configuration.format,
+            usage: this.configuration.usage ?? GPUTextureUsage.RENDER_ATTACHMENT,
+        });
+    }
+}
+
+/**
+ * Runs animation frames only when step() is called.
+ */
+export class ManualFrameScheduler implements IFrameScheduler {
+    private _callbacks: Map<number, () => void> = new Map();
+    private _nextHandle = 1;
+
+    public get pendingFrames(): number {
+        return this._callbacks.size;
+    }
+
+    public requestFrame(callback: () => void): number {
+        const handle = this._nextHandle++;
+        this._callbacks.set(handle, callback);
+        return handle;
+    }
+
+    public cancelFrame(handle: number) {
+        this._callbacks.delete(handle);
+    }
+
+    /**
+     * Runs `count` frames, letting async frame callbacks settle in between.
+     */
+    public async step(count: number = 1) {
+        for (let i = 0; i < count; i++) {
+            const callbacks = [...this._callbacks.values()];
+            this._callbacks.clear();
+            for (const callback of callbacks) {
+                callback();
+            }
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+    }
+}
+
+/**
+ * Serves text and binary assets from memory. Images are stand-ins of the given size.
+ */
+export class MockAssetFetcher implements IAssetFetcher {
+    private _text: Record<string, string>;
+    private _images: Record<string, { width: number, height: number }>;
+    private _binary: Record<string, ArrayBuffer>;
+
+    constructor(text: Record<string, string> = {}, images: Record<string, { width: number, height: number }> = {}, binary: Record<string, ArrayBuffer> = {}) {
+        this._text = text;
+        this._images = images;
+        this._binary = binary;
+    }
+
+    public async fetchText(url: string): Promise<string> {
+        if (!(url in this._text)) {
+            throw new Error(`No mock asset "${url}"`);
+        }
+        return this._text[url];
+    }
+
+    public async fetchArrayBuffer(url: string): Promise<ArrayBuffer> {
+        if (url in this._binary) {
+            return this._binary[url];
+        }
+        return new TextEncoder().encode(await this.fetchText(url)).buffer as ArrayBuffer;
+    }
+
+    public async fetchImageBitmap(url: string): Promise<ImageBitmap> {
+        const { width, height } = this._images[url] ?? { width: 1, height: 1 };
+        return { width, height, close: () => {} } as ImageBitmap;
+    }
+}
+
+export interface IMockBackendOptions {
+    width?: number;
+    height?: number;
+    canvasFormat?: GPUTextureFormat;
+    assets?: Record<string, string>;
+    images?: Record<string, { width: number, height: number }>;
+    binaryAssets?: Record<string, ArrayBuffer>;
+}
+
+export interface IMockBackend {
+    recorder: MockGpuRecorder;
+    /** The current device. A new one replaces it each time WebGPUContext requests a device, e.g. after lose(). */
+    device: MockGPUDevice;
+    context: MockGPUCanvasContext;
+    frameScheduler: ManualFrameScheduler;
+    assets: MockAssetFetcher;
+    /** Spread into WebGPUContext.create() together with a primitiveState. */
+    contextOptions: Omit<IWebGPUContextOptions, "primitiveState">;
+}
+
+export function createMockBackend(options: IMockBackendOptions = {}): IMockBackend {
+    const width = options.width ?? 640;
+    const height = options.height ?? 480;
+    const recorder = new MockGpuRecorder();
+    const canvas = {
+        width,
+        height,
+        clientWidth: width,
+        clientHeight: height,
+        addEventListener: () => {},
+        removeEventListener: () => {},
+        getContext: () => context,
+    };
+    const context = new MockGPUCanvasContext(canvas);
+    const frameScheduler = new ManualFrameScheduler();
+    const assets = new MockAssetFetcher(options.assets, options.images, options.binaryAssets);
+
+    const backend: IMockBackend = {
+        recorder,
+        device: new MockGPUDevice(recorder),
+        context,
+        frameScheduler,
+        assets,
+        contextOptions: {
+            canvas: canvas as unknown as HTMLCanvasElement,
+            context: context as unknown as GPUCanvasContext,
+            canvasFormat: options.canvasFormat ?? "bgra8unorm",
+            frameScheduler,
+            assetFetcher: assets,
+        },
+    };
+    let requested = 0;
+    backend.contextOptions.requestDevice = async () => {
+        // The first request gets the device created above, later ones (device loss) get a fresh one
+        if (requested++ > 0) {
+            backend.device = new MockGPUDevice(recorder);
+        }
+        return backend.device as unknown as GPUDevice;
+    };
+    return backend;
+}
+
+/**
+ * Defines the WebGPU constants and error classes the core references as globals, for environments without
+ * WebGPU. Existing globals are left alone.
+ */
+export function installWebGPUGlobals() {
+    const globals = globalThis as Record<string, unknown>;
+    const define = (name: string, value: unknown) => {
+        if (globals[name] === undefined) {
+            globals[name] = value;
+        }
+    };
+    define("GPUBufferUsage", { MAP_READ: 0x1, MAP_WRITE: 0x2, COPY_SRC: 0x4, COPY_DST: 0x8, INDEX: 0x10, VERTEX: 0x20, UNIFORM: 0x40, STORAGE: 0x80, INDIRECT: 0x100, QUERY_RESOLVE: 0x200 });
+    define("GPUTextureUsage", { COPY_SRC: 0x1, COPY_DST: 0x2, TEXTURE_BINDING: 0x4, STORAGE_BINDING: 0x8, RENDER_ATTACHMENT: 0x10 });
+    define("GPUShaderStage", { VERTEX: 0x1, FRAGMENT: 0x2, COMPUTE: 0x4 });
+    define("GPUMapMode", { READ: 0x1, WRITE: 0x2 });
+    define("GPUColorWrite", { RED: 0x1, GREEN: 0x2, BLUE: 0x4, ALPHA: 0x8, ALL: 0xF });
+
+    class GPUError {
+        public message: string;
+        constructor(message: string) {
+            this.message = message;
+        }
+    }
+    define("GPUError", GPUError);
+    define("GPUValidationError", class GPUValidationError extends GPUError {});
+    define("GPUOutOfMemoryError", class GPUOutOfMemoryError extends GPUError {});
+    define("GPUInternalError", class GPUInternalError extends GPUError {});
+}
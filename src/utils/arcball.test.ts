@@ -0,0 +1,26 @@
+import * as glMatrix from "gl-matrix";
+import { describe, expect, it } from "vitest";
+import { Arcball } from "./arcball";
+
+describe("Arcball", () => {
+    it.each([1, 0.5, 2])("frames a bounding sphere at aspect %d", aspect => {
+        const arcball = new Arcball(5);
+        const bounds = { center: glMatrix.vec3.fromValues(1, 2, 3), radius: 2 };
+        arcball.frame(bounds, aspect);
+
+        expect(Array.from(arcball.target)).toEqual([1, 2, 3]);
+        expect(glMatrix.vec4.length(arcball.forward)).toBeCloseTo(arcball.radius);
+        expect(arcball.near).toBeLessThan(arcball.radius - bounds.radius);
+        expect(arcball.far).toBeGreaterThan(arcball.radius + bounds.radius);
+
+        // The sphere's center is straight ahead, and its silhouette inside both fields of view
+        const center = glMatrix.vec3.transformMat4(glMatrix.vec3.create(), bounds.center, arcball.getMatrices());
+        expect(center[0]).toBeCloseTo(0);
+        expect(center[1]).toBeCloseTo(0);
+        expect(center[2]).toBeCloseTo(-arcball.radius);
+        const projection = arcball.getProjectionMatrix(aspect);
+        const silhouette = Math.tan(Math.asin(bounds.radius / arcball.radius));
+        expect(silhouette * projection[0]).toBeLessThan(1);
+        expect(silhouette * projection[5]).toBeLessThan(1);
+    });
+});
@@ -1,22 +1,77 @@
 import * as glMatrix from "gl-matrix";
 
+/** Vertical field of view of the projection, in radians. */
+const FIELD_OF_VIEW = 1.4;
+// Framed objects fill this fraction of the view, so they don't touch the edges
+const FRAME_FILL = 0.9;
+
+export interface IBoundingSphere {
+    center: glMatrix.ReadonlyVec3;
+    radius: number;
+}
+
 export class Arcball {
     private _radius: number;
+    private _target: glMatrix.vec3;
+    private _near: number;
+    private _far: number;
     private _forward: glMatrix.vec4;
     private _up: glMatrix.vec4;
     private _currentRotation: glMatrix.mat4;
 
     constructor(radius: number) {
         this._radius = radius;
+        this._target = glMatrix.vec3.create();
+        this._near = 0.1;
+        this._far = 1000.0;
         this._forward = glMatrix.vec4.fromValues(this._radius, 0, 0, 0);
         this._up = glMatrix.vec4.fromValues(0, 0, 1, 0);
         this._currentRotation = glMatrix.mat4.create();
     }
 
+    /**
+     * Offset of the eye from the target, `radius` long.
+     */
     get forward() {
         return this._forward;
     }
 
+    get radius() {
+        return this._radius;
+    }
+
+    get target(): glMatrix.ReadonlyVec3 {
+        return this._target;
+    }
+
+    get near() {
+        return this._near;
+    }
+
+    get far() {
+        return this._far;
+    }
+
+    /**
+     * Moves the target to the center of `bounds` and the eye back along the current view direction until the whole
+     * sphere is in view, and fits the near and far planes tightly around it for depth precision. The sphere stays
+     * between the planes while orbiting, since that doesn't change the distance to the target.
+     */
+    public frame(bounds: IBoundingSphere, aspect: number) {
+        // The narrower of the two fields of view decides how far back the eye has to be
+        const halfFov = Math.min(FIELD_OF_VIEW / 2, Math.atan(Math.tan(FIELD_OF_VIEW / 2) * aspect));
+        const boundsRadius = Math.max(bounds.radius, 1e-3);
+        this._radius = boundsRadius / (Math.sin(halfFov) * FRAME_FILL);
+        this._near = Math.max(this._radius - boundsRadius, this._radius * 1e-3) * 0.9;
+        this._far = (this._radius + boundsRadius) * 1.1;
+        glMatrix.vec3.copy(this._target, bounds.center);
+        glMatrix.vec4.scale(this._forward, this._forward, this._radius / glMatrix.vec4.length(this._forward));
+    }
+
+    public getProjectionMatrix(aspect: number) {
+        return glMatrix.mat4.perspective(glMatrix.mat4.create(), FIELD_OF_VIEW, aspect, this._near, this._far);
+    }
+
     public yawPith(originalX: number, originalY: number, newX: number, newY: number): void {
         const originalPoint = glMatrix.vec3.fromValues(1.0, originalX, originalY);
         const newPoint = glMatrix.vec3.fromValues(1.0, newX, newY);
@@ -53,8 +108,8 @@ export class Arcball {
 
     public getMatrices() {
         const modelViewMatrix = glMatrix.mat4.lookAt(glMatrix.mat4.create(), 
-        glMatrix.vec3.fromValues(this._forward[0], this._forward[1], this._forward[2]), 
-        glMatrix.vec3.fromValues(0, 0, 0), 
+        glMatrix.vec3.add(glMatrix.vec3.create(), this._target, [this._forward[0], this._forward[1], this._forward[2]]), 
+        this._target, 
         glMatrix.vec3.fromValues(this._up[0], this._up[1], this._up[2]));
         
         return modelViewMatrix;
@@ -8,88 +8,119 @@ enum DragType {
 
 export class Controls {
     private _canvas: HTMLCanvasElement;
+    private _keyTarget?: GlobalEventHandlers;
     private _prevX: number;
     private _prevY: number;
     private _draggingType: DragType;
     private _arcball: Arcball;
-    private _render: () => void;
-
-    constructor(canvas: HTMLCanvasElement, arcBall: Arcball, render: () => void) {
+    private _requestRender: () => void;
+    private _frameObject?: () => void;
+
+    /**
+     * @param frameObject Called when F is pressed, e.g. Scene.frameObject().
+     * @param keyTarget Receives the key events, by default the canvas's window. The canvas can't take focus, so
+     * keys are handled for the whole window. Headless canvases have no window and get no key handling.
+     */
+    constructor(canvas: HTMLCanvasElement, arcBall: Arcball, requestRender: () => void, frameObject?: () => void, keyTarget: GlobalEventHandlers | undefined = canvas.ownerDocument?.defaultView ?? undefined) {
         this._arcball = arcBall;
         this._canvas = canvas;
         this._prevX = 0;
         this._prevY = 0;
         this._draggingType = DragType.NONE;
-        this._render = render;
-
-        this._canvas.onmousedown = (event: MouseEvent) => {
-            const rect = this._canvas.getBoundingClientRect();
-            const x = event.clientX - rect.left;
-            const y = event.clientY - rect.top;
-
-            const width = rect.right - rect.left;
-            const height = rect.bottom - rect.top;
-            let radius = width;
-
-            if (height < radius) {
-                radius = height;
-            }
-
-            radius *= 0.5;
-            const originX = width * 0.5;
-            const originY = height * 0.5;
-
-            this._prevX = (x - originX) / radius;
-            this._prevY = (originY - y) / radius;
-            if ((this._prevX * this._prevX + this._prevY * this._prevY) <= 0.64) {
-                this._draggingType = DragType.YAW_PITCH;
-            } else {
-                this._draggingType = DragType.ROLL;
-            }
-        }
+        this._requestRender = requestRender;
+        this._frameObject = frameObject;
+        this._keyTarget = keyTarget;
+
+        this._canvas.addEventListener("mousedown", this._onMouseDown);
+        this._canvas.addEventListener("mousemove", this._onMouseMove);
+        this._canvas.addEventListener("mouseup", this._onMouseUp);
+        this._keyTarget?.addEventListener("keydown", this._onKeyDown);
+    }
+
+    get arcball() {
+        return this._arcball;
+    }
 
-        this._canvas.onmousemove = (event: MouseEvent) => {
-            const rect = this._canvas.getBoundingClientRect();
-            const x = event.clientX - rect.left;
-            const y = event.clientY - rect.top;
+    public getMatrices() {
+        return this._arcball.getMatrices();
+    }
 
-            const width = rect.right - rect.left;
-            const height = rect.bottom - rect.top;
-            let radius = width;
+    public dispose() {
+        this._canvas.removeEventListener("mousedown", this._onMouseDown);
+        this._canvas.removeEventListener("mousemove", this._onMouseMove);
+        this._canvas.removeEventListener("mouseup", this._onMouseUp);
+        this._keyTarget?.removeEventListener("keydown", this._onKeyDown);
+    }
 
-            if (height < radius) {
-                radius = height;
-            }
+    private _onMouseDown = (event: MouseEvent) => {
+        const rect = this._canvas.getBoundingClientRect();
+        const x = event.clientX - rect.left;
+        const y = event.clientY - rect.top;
 
-            radius *= 0.5;
-            const originX = width * 0.5;
-            const originY = height * 0.5;
+        const width = rect.right - rect.left;
+        const height = rect.bottom - rect.top;
+        let radius = width;
 
-            const currentX = (x - originX) / radius;
-            const currentY = (originY - y) / radius;
+        if (height < radius) {
+            radius = height;
+        }
 
-            if (this._draggingType == DragType.YAW_PITCH) {
-                this._arcball.yawPith(this._prevX, this._prevY, currentX, currentY);
-            } else if (this._draggingType == DragType.ROLL) {
-                this._arcball.roll(this._prevX, this._prevY, currentX, currentY);
-            }
+        radius *= 0.5;
+        const originX = width * 0.5;
+        const originY = height * 0.5;
 
-            this._prevX = currentX;
-            this._prevY = currentY;
-            
-            requestAnimationFrame(this._render);
+        this._prevX = (x - originX) / radius;
+        this._prevY = (originY - y) / radius;
+        if ((this._prevX * this._prevX + this._prevY * this._prevY) <= 0.64) {
+            this._draggingType = DragType.YAW_PITCH;
+        } else {
+            this._draggingType = DragType.ROLL;
         }
+    }
+
+    private _onMouseMove = (event: MouseEvent) => {
+        const rect = this._canvas.getBoundingClientRect();
+        const x = event.clientX - rect.left;
+        const y = event.clientY - rect.top;
 
-        canvas.onmouseup = (_event: MouseEvent) => {
-            this._draggingType = DragType.NONE;
+        const width = rect.right - rect.left;
+        const height = rect.bottom - rect.top;
+        let radius = width;
+
+        if (height < radius) {
+            radius = height;
         }
+
+        radius *= 0.5;
+        const originX = width * 0.5;
+        const originY = height * 0.5;
+
+        const currentX = (x - originX) / radius;
+        const currentY = (originY - y) / radius;
+
+        if (this._draggingType == DragType.YAW_PITCH) {
+            this._arcball.yawPith(this._prevX, this._prevY, currentX, currentY);
+        } else if (this._draggingType == DragType.ROLL) {
+            this._arcball.roll(this._prevX, this._prevY, currentX, currentY);
+        }
+
+        this._prevX = currentX;
+        this._prevY = currentY;
+        
+        this._requestRender();
     }
 
-    get arcball() {
-        return this._arcball;
+    private _onMouseUp = () => {
+        this._draggingType = DragType.NONE;
     }
 
-    public getMatrices() {
-        return this._arcball.getMatrices();
+    private _onKeyDown = (event: KeyboardEvent) => {
+        const target = event.target;
+        if (event.ctrlKey || event.metaKey || event.altKey || target instanceof HTMLInputElement || target instanceof HTMLSelectElement || target instanceof HTMLTextAreaElement) {
+            return;
+        }
+        if (event.key === "f" || event.key === "F") {
+            this._frameObject?.();
+        }
     }
 }
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { MockAssetFetcher } from "../testing/mock-gpu";
+import { GltfDataExtractor } from "./gltfDataExtractor";
+
+// One triangle in the xy plane: three float positions followed by three uint16 indices
+const TRIANGLE_BIN = (() => {
+    const buffer = new ArrayBuffer(44);
+    new Float32Array(buffer, 0, 9).set([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+    new Uint16Array(buffer, 36, 3).set([0, 1, 2]);
+    return buffer;
+})();
+
+function createGltf(overrides: Record<string, unknown> = {}) {
+    return {
+        asset: { version: "2.0" },
+        nodes: [{ mesh: 0 }],
+        meshes: [{ primitives: [{ attributes: { POSITION: 0 }, indices: 1, material: 0 }] }],
+        accessors: [
+            { bufferView: 0, componentType: 5126, count: 3, type: "VEC3" },
+            { bufferView: 1, componentType: 5123, count: 3, type: "SCALAR" },
+        ],
+        bufferViews: [{ buffer: 0, byteLength: 36 }, { buffer: 0, byteOffset: 36, byteLength: 6 }],
+        buffers: [{ uri: "triangle.bin", byteLength: 44 }],
+        materials: [{}],
+        ...overrides,
+    };
+}
+
+function load(gltf: object) {
+    const assets = new MockAssetFetcher({ "models/triangle.gltf": JSON.stringify(gltf) }, {}, { "models/triangle.bin": TRIANGLE_BIN });
+    return GltfDataExtractor.load(assets, "models/triangle.gltf");
+}
+
+describe("GltfDataExtractor", () => {
+    it.each([
+        ["a dielectric", { baseColorFactor: [1, 0.5, 0, 1], metallicFactor: 0 }, { diffuseColor: [1, 0.5, 0], specularColor: [0.04, 0.04, 0.04], shininess: 1 }],
+        ["a metal", { baseColorFactor: [1, 0.5, 0, 1] }, { diffuseColor: [0, 0, 0], specularColor: [1, 0.5, 0], shininess: 1 }],
+        ["a glossy surface", { metallicFactor: 0, roughnessFactor: 0.5 }, { shininess: 30 }],
+        // The map isn't loaded, and its default factor of 1 would turn the whole material into a metal
+        ["a metallic-roughness map", { baseColorFactor: [1, 0.5, 0, 1], metallicRoughnessTexture: { index: 0 } }, { diffuseColor: [1, 0.5, 0], specularColor: [0.04, 0.04, 0.04] }],
+        ["a metallic-roughness map with a factor", { metallicFactor: 0.5, metallicRoughnessTexture: { index: 0 } }, { diffuseColor: [0.5, 0.5, 0.5], specularColor: [0.52, 0.52, 0.52] }],
+    ])("converts %s to a Phong material", async (_, pbrMetallicRoughness, expected) => {
+        const mesh = await load(createGltf({ materials: [{ pbrMetallicRoughness }] }));
+        const material = mesh.materials.get("0")!;
+        expect(material.name).toBe("material 0");
+        const round = (value: number) => Math.round(value * 1e4) / 1e4;
+        expect({
+            diffuseColor: material.diffuseColor.map(round),
+            specularColor: material.specularColor.map(round),
+            shininess: round(material.shininess),
+        }).toMatchObject(expected);
+    });
+
+    it("resolves texture images against the file and keeps the normal scale", async () => {
+        const mesh = await load(createGltf({
+            materials: [{ name: "painted", pbrMetallicRoughness: { baseColorTexture: { index: 0 } }, normalTexture: { index: 1, scale: 0.5 } }],
+            textures: [{ source: 0 }, { source: 1 }],
+            images: [{ uri: "textures/base.png" }, { uri: "../normal.png" }],
+        }));
+        expect(mesh.materials.get("0")).toMatchObject({
+            name: "painted",
+            diffuseMap: "models/textures/base.png",
+            bumpMap: "normal.png",
+            bumpScale: 0.5,
+        });
+    });
+
+    it("bakes node transforms and generates flat normals", async () => {
+        const mesh = await load(createGltf({ nodes: [{ mesh: 0, translation: [0, 0, 5] }] }));
+        expect(Array.from(mesh.vertexPositions)).toEqual([0, 0, 5, 1, 0, 5, 0, 1, 5]);
+        expect(Array.from(mesh.normals)).toEqual([0, 0, 1, 0, 0, 1, 0, 0, 1]);
+        expect(mesh.submeshes).toEqual([{ material: "0", indexOffset: 0, indexCount: 3 }]);
+    });
+
+    it("reverses the winding of mirrored nodes", async () => {
+        const mesh = await load(createGltf({ nodes: [{ mesh: 0, scale: [-1, 1, 1] }] }));
+        expect(Array.from(mesh.indices)).toEqual([0, 2, 1]);
+    });
+
+    it("rejects other glTF versions", async () => {
+        await expect(load(createGltf({ asset: { version: "1.0" } }))).rejects.toThrow('"models/triangle.gltf" is glTF 1.0, only 2.0 is supported');
+    });
+});
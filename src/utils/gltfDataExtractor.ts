@@ -0,0 +1,404 @@
+import * as glMatrix from "gl-matrix";
+import { resolveRelativePath, type IAssetFetcher } from "../core/platform";
+import { computeTangents, createIndexArray, type IMaterialData, type IMeshData, type IMeshSubmesh, type TextureSource } from "./meshData";
+
+export interface IGltfLoadOptions {
+    /** Provide tangents, from the file where every primitive has them and computed from the UVs otherwise. */
+    computeTangents?: boolean;
+}
+
+interface IGltfTextureInfo {
+    index: number;
+    texCoord?: number;
+    scale?: number;
+}
+
+interface IGltfDocument {
+    asset: { version: string };
+    scene?: number;
+    scenes?: { nodes?: number[] }[];
+    nodes?: {
+        children?: number[];
+        mesh?: number;
+        matrix?: number[];
+        translation?: number[];
+        rotation?: number[];
+        scale?: number[];
+    }[];
+    meshes?: {
+        primitives: {
+            attributes: Record<string, number>;
+            indices?: number;
+            material?: number;
+            mode?: number;
+        }[];
+    }[];
+    accessors?: {
+        bufferView?: number;
+        byteOffset?: number;
+        componentType: number;
+        normalized?: boolean;
+        count: number;
+        type: string;
+        sparse?: {
+            count: number;
+            indices: { bufferView: number, byteOffset?: number, componentType: number };
+            values: { bufferView: number, byteOffset?: number };
+        };
+    }[];
+    bufferViews?: { buffer: number, byteOffset?: number, byteLength: number, byteStride?: number }[];
+    buffers?: { uri?: string, byteLength: number }[];
+    materials?: {
+        name?: string;
+        pbrMetallicRoughness?: {
+            baseColorFactor?: number[];
+            baseColorTexture?: IGltfTextureInfo;
+            metallicFactor?: number;
+            roughnessFactor?: number;
+            metallicRoughnessTexture?: IGltfTextureInfo;
+        };
+        normalTexture?: IGltfTextureInfo;
+    }[];
+    textures?: { source?: number }[];
+    images?: { uri?: string, bufferView?: number, mimeType?: string }[];
+}
+
+interface IComponentType {
+    size: number;
+    read: (view: DataView, offset: number) => number;
+    /** Maps normalized integers to [0, 1] or [-1, 1]. */
+    normalize: (value: number) => number;
+}
+
+const GLB_MAGIC = 0x46546C67;
+const GLB_CHUNK_JSON = 0x4E4F534A;
+const GLB_CHUNK_BIN = 0x004E4942;
+const PRIMITIVE_MODE_TRIANGLES = 4;
+
+const COMPONENT_TYPES: Record<number, IComponentType> = {
+    5120: { size: 1, read: (view, offset) => view.getInt8(offset), normalize: value => Math.max(value / 127, -1) },
+    5121: { size: 1, read: (view, offset) => view.getUint8(offset), normalize: value => value / 255 },
+    5122: { size: 2, read: (view, offset) => view.getInt16(offset, true), normalize: value => Math.max(value / 32767, -1) },
+    5123: { size: 2, read: (view, offset) => view.getUint16(offset, true), normalize: value => value / 65535 },
+    5125: { size: 4, read: (view, offset) => view.getUint32(offset, true), normalize: value => value },
+    5126: { size: 4, read: (view, offset) => view.getFloat32(offset, true), normalize: value => value },
+};
+
+const COMPONENT_COUNTS: Record<string, number> = {
+    SCALAR: 1,
+    VEC2: 2,
+    VEC3: 3,
+    VEC4: 4,
+    MAT2: 4,
+    MAT3: 9,
+    MAT4: 16,
+};
+
+/**
+ * Flattens the default scene of a glTF 2.0 (.gltf or .glb) file into the same indexed vertex streams as
+ * ObjDataExtractor. Node transforms are baked into the vertices, and every triangle primitive becomes a submesh
+ * keyed by its material index. Materials are converted to their closest MTL equivalent: base color as diffuse,
+ * metallic/roughness as a Phong specular color and exponent, and the normal texture as bump map.
+ */
+export class GltfDataExtractor implements IMeshData {
+    private _document: IGltfDocument;
+    private _buffers: ArrayBuffer[];
+    private _url: string;
+    private _positions: number[];
+    private _normalValues: number[];
+    private _uvValues: number[];
+    private _tangentValues: number[] | undefined;
+    private _indexValues: number[];
+    private _vertexPositions: Float32Array;
+    private _normals: Float32Array;
+    private _uvs: Float32Array;
+    private _tangents?: Float32Array;
+    private _indices: Uint16Array | Uint32Array;
+    private _submeshes: IMeshSubmesh[];
+    private _materials: Map<string, IMaterialData>;
+
+    /**
+     * Fetches a .gltf or .glb file and the external buffers it references.
+     */
+    public static async load(assets: IAssetFetcher, url: string, options: IGltfLoadOptions = {}): Promise<GltfDataExtractor> {
+        const data = await assets.fetchArrayBuffer(url);
+        let document: IGltfDocument | undefined;
+        let binaryChunk: ArrayBuffer | undefined;
+
+        const view = new DataView(data);
+        if (data.byteLength >= 12 && view.getUint32(0, true) === GLB_MAGIC) {
+            for (let offset = 12; offset + 8 <= data.byteLength;) {
+                const chunkLength = view.getUint32(offset, true);
+                const chunkType = view.getUint32(offset + 4, true);
+                const chunk = data.slice(offset + 8, offset + 8 + chunkLength);
+                if (chunkType === GLB_CHUNK_JSON) {
+                    document = JSON.parse(new TextDecoder().decode(chunk));
+                } else if (chunkType === GLB_CHUNK_BIN) {
+                    binaryChunk = chunk;
+                }
+                offset += 8 + chunkLength;
+            }
+            if (!document) {
+                throw new Error(`"${url}" has no JSON chunk`);
+            }
+        } else {
+            document = JSON.parse(new TextDecoder().decode(data)) as IGltfDocument;
+        }
+        if (!document.asset?.version?.startsWith("2.")) {
+            throw new Error(`"${url}" is glTF ${document.asset?.version ?? "of unknown version"}, only 2.0 is supported`);
+        }
+
+        // A GLB's binary chunk is the buffer without a uri; data: URIs are fetched like any other
+        const buffers = await Promise.all((document.buffers ?? []).map((buffer, index) => {
+            if (buffer.uri !== undefined) {
+                return assets.fetchArrayBuffer(resolveRelativePath(buffer.uri, url));
+            }
+            if (index === 0 && binaryChunk) {
+                return Promise.resolve(binaryChunk);
+            }
+            throw new Error(`Buffer ${index} of "${url}" has no uri`);
+        }));
+
+        return new GltfDataExtractor(document, buffers, url, options);
+    }
+
+    private constructor(document: IGltfDocument, buffers: ArrayBuffer[], url: string, options: IGltfLoadOptions) {
+        this._document = document;
+        this._buffers = buffers;
+        this._url = url;
+        this._positions = [];
+        this._normalValues = [];
+        this._uvValues = [];
+        this._tangentValues = [];
+        this._indexValues = [];
+        this._submeshes = [];
+
+        const nodes = document.nodes ?? [];
+        const sceneNodes = document.scenes?.[document.scene ?? 0]?.nodes;
+        // Without scenes, every node that isn't another node's child is a root
+        const children = new Set(nodes.flatMap(node => node.children ?? []));
+        const roots = sceneNodes ?? nodes.map((_, index) => index).filter(index => !children.has(index));
+        for (const root of roots) {
+            this._addNode(root, glMatrix.mat4.create());
+        }
+
+        const vertexCount = this._positions.length / 3;
+        this._vertexPositions = new Float32Array(this._positions);
+        this._normals = new Float32Array(this._normalValues);
+        this._uvs = new Float32Array(this._uvValues);
+        this._indices = createIndexArray(this._indexValues, vertexCount);
+        if (options.computeTangents) {
+            this._tangents = this._tangentValues ? new Float32Array(this._tangentValues) : computeTangents(this._vertexPositions, this._normals, this._uvs, this._indices);
+        }
+        this._materials = new Map((document.materials ?? []).map((_, index) => [`${index}`, this._convertMaterial(index)]));
+    }
+
+    public get vertexPositions(): Float32Array {
+        return this._vertexPositions;
+    }
+
+    public get normals(): Float32Array {
+        return this._normals;
+    }
+
+    public get uvs(): Float32Array {
+        return this._uvs;
+    }
+
+    public get tangents(): Float32Array | undefined {
+        return this._tangents;
+    }
+
+    public get indices(): Uint16Array | Uint32Array {
+        return this._indices;
+    }
+
+    public get indexFormat(): GPUIndexFormat {
+        return this._indices instanceof Uint32Array ? "uint32" : "uint16";
+    }
+
+    public get submeshes(): IMeshSubmesh[] {
+        return this._submeshes;
+    }
+
+    /**
+     * Materials by submesh material key, i.e. their index in the file. Primitives without a material use "".
+     */
+    public get materials(): Map<string, IMaterialData> {
+        return this._materials;
+    }
+
+    private _addNode(nodeIndex: number, parentTransform: glMatrix.mat4) {
+        const node = this._document.nodes![nodeIndex];
+        const localTransform = node.matrix
+            ? glMatrix.mat4.clone(node.matrix as glMatrix.mat4)
+            : glMatrix.mat4.fromRotationTranslationScale(glMatrix.mat4.create(),
+                (node.rotation ?? [0, 0, 0, 1]) as glMatrix.quat, (node.translation ?? [0, 0, 0]) as glMatrix.vec3, (node.scale ?? [1, 1, 1]) as glMatrix.vec3);
+        const transform = glMatrix.mat4.multiply(glMatrix.mat4.create(), parentTransform, localTransform);
+
+        if (node.mesh !== undefined) {
+            for (const primitive of this._document.meshes![node.mesh].primitives) {
+                this._addPrimitive(primitive, transform);
+            }
+        }
+        for (const child of node.children ?? []) {
+            this._addNode(child, transform);
+        }
+    }
+
+    private _addPrimitive(primitive: NonNullable<IGltfDocument["meshes"]>[number]["primitives"][number], transform: glMatrix.mat4) {
+        if ((primitive.mode ?? PRIMITIVE_MODE_TRIANGLES) !== PRIMITIVE_MODE_TRIANGLES) {
+            console.warn(`Skipping a primitive of "${this._url}" with mode ${primitive.mode}; only triangle lists are supported`);
+            return;
+        }
+        if (primitive.attributes.POSITION === undefined) {
+            return;
+        }
+
+        let positions = this._readAccessor(primitive.attributes.POSITION);
+        let indices = primitive.indices !== undefined ? Array.from(this._readAccessor(primitive.indices)) : Array.from({ length: positions.length / 3 }, (_, i) => i);
+        let uvs = primitive.attributes.TEXCOORD_0 !== undefined ? this._readAccessor(primitive.attributes.TEXCOORD_0) : new Float64Array(positions.length / 3 * 2);
+        let normals: Float64Array;
+        let tangents = primitive.attributes.TANGENT !== undefined ? this._readAccessor(primitive.attributes.TANGENT) : undefined;
+        if (primitive.attributes.NORMAL !== undefined) {
+            normals = this._readAccessor(primitive.attributes.NORMAL);
+        } else {
+            // The spec asks for flat normals, so every triangle gets its own vertices
+            const unindexed = (values: Float64Array, size: number) => Float64Array.from(indices.flatMap(index => Array.from(values.subarray(index * size, index * size + size))));
+            positions = unindexed(positions, 3);
+            uvs = unindexed(uvs, 2);
+            tangents = tangents && unindexed(tangents, 4);
+            indices = indices.map((_, i) => i);
+            normals = new Float64Array(positions.length);
+            for (let i = 0; i < positions.length; i += 9) {
+                const [a, b, c] = [0, 3, 6].map(offset => glMatrix.vec3.fromValues(positions[i + offset], positions[i + offset + 1], positions[i + offset + 2]));
+                const normal = glMatrix.vec3.cross(glMatrix.vec3.create(), glMatrix.vec3.subtract(glMatrix.vec3.create(), b, a), glMatrix.vec3.subtract(glMatrix.vec3.create(), c, a));
+                glMatrix.vec3.normalize(normal, normal);
+                normals.set([...normal, ...normal, ...normal], i);
+            }
+        }
+
+        const baseVertex = this._positions.length / 3;
+        const normalMatrix = glMatrix.mat3.normalFromMat4(glMatrix.mat3.create(), transform) ?? glMatrix.mat3.create();
+        const linear = glMatrix.mat3.fromMat4(glMatrix.mat3.create(), transform);
+        // Mirroring transforms flip the winding order and the tangent frame's handedness
+        const mirrored = glMatrix.mat3.determinant(linear) < 0;
+        const vertexCount = positions.length / 3;
+        for (let i = 0; i < vertexCount; i++) {
+            const position = glMatrix.vec3.transformMat4(glMatrix.vec3.create(), [positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]], transform);
+            const normal = glMatrix.vec3.transformMat3(glMatrix.vec3.create(), [normals[i * 3], normals[i * 3 + 1], normals[i * 3 + 2]], normalMatrix);
+            glMatrix.vec3.normalize(normal, normal);
+            this._positions.push(...position);
+            this._normalValues.push(...normal);
+            this._uvValues.push(uvs[i * 2], uvs[i * 2 + 1]);
+            if (tangents && this._tangentValues) {
+                const tangent = glMatrix.vec3.transformMat3(glMatrix.vec3.create(), [tangents[i * 4], tangents[i * 4 + 1], tangents[i * 4 + 2]], linear);
+                glMatrix.vec3.normalize(tangent, tangent);
+                this._tangentValues.push(...tangent, mirrored ? -tangents[i * 4 + 3] : tangents[i * 4 + 3]);
+            }
+        }
+        if (!tangents) {
+            // Tangents are all or nothing, so one primitive without them means computing them for the whole mesh
+            this._tangentValues = undefined;
+        }
+
+        const indexOffset = this._indexValues.length;
+        for (let i = 0; i + 2 < indices.length; i += 3) {
+            const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]].map(index => index + baseVertex);
+            this._indexValues.push(...(mirrored ? [a, c, b] : [a, b, c]));
+        }
+        this._submeshes.push({
+            material: primitive.material !== undefined ? `${primitive.material}` : "",
+            indexOffset,
+            indexCount: this._indexValues.length - indexOffset,
+        });
+    }
+
+    /**
+     * Reads an accessor into a flat array, applying byte strides, normalization and sparse substitution.
+     */
+    private _readAccessor(accessorIndex: number): Float64Array {
+        const accessor = this._document.accessors![accessorIndex];
+        const componentType = COMPONENT_TYPES[accessor.componentType];
+        const components = COMPONENT_COUNTS[accessor.type];
+        if (!componentType || !components) {
+            throw new Error(`Accessor ${accessorIndex} of "${this._url}" has unsupported type ${accessor.type}/${accessor.componentType}`);
+        }
+        const normalize = accessor.normalized ? componentType.normalize : (value: number) => value;
+        const values = new Float64Array(accessor.count * components);
+
+        // Accessors without a buffer view are all zeros, apart from any sparse values
+        if (accessor.bufferView !== undefined) {
+            const { view, stride } = this._bufferView(accessor.bufferView, accessor.byteOffset ?? 0, components * componentType.size);
+            for (let i = 0; i < accessor.count; i++) {
+                for (let component = 0; component < components; component++) {
+                    values[i * components + component] = normalize(componentType.read(view, i * stride + component * componentType.size));
+                }
+            }
+        }
+
+        if (accessor.sparse) {
+            const { indices, values: sparseValues, count } = accessor.sparse;
+            const indexType = COMPONENT_TYPES[indices.componentType];
+            const indexView = this._bufferView(indices.bufferView, indices.byteOffset ?? 0, indexType.size).view;
+            const valueView = this._bufferView(sparseValues.bufferView, sparseValues.byteOffset ?? 0, components * componentType.size).view;
+            for (let i = 0; i < count; i++) {
+                const target = indexType.read(indexView, i * indexType.size);
+                for (let component = 0; component < components; component++) {
+                    values[target * components + component] = normalize(componentType.read(valueView, (i * components + component) * componentType.size));
+                }
+            }
+        }
+        return values;
+    }
+
+    private _bufferView(bufferViewIndex: number, byteOffset: number, elementSize: number): { view: DataView, stride: number } {
+        const bufferView = this._document.bufferViews![bufferViewIndex];
+        const buffer = this._buffers[bufferView.buffer];
+        const view = new DataView(buffer, (bufferView.byteOffset ?? 0) + byteOffset, bufferView.byteLength - byteOffset);
+        return { view, stride: bufferView.byteStride ?? elementSize };
+    }
+
+    private _convertMaterial(materialIndex: number): IMaterialData {
+        const material = this._document.materials![materialIndex];
+        const pbr = material.pbrMetallicRoughness ?? {};
+        const baseColor = (pbr.baseColorFactor ?? [1, 1, 1, 1]).slice(0, 3);
+        // The factor scales a metallic map that isn't loaded, and is usually left at 1 so the map alone decides.
+        // Taken as is it would make the whole material a metal with no diffuse color, so such materials are
+        // treated as dielectrics.
+        const metallic = pbr.metallicRoughnessTexture && (pbr.metallicFactor ?? 1) === 1 ? 0 : pbr.metallicFactor ?? 1;
+        const roughness = pbr.roughnessFactor ?? 1;
+        // Dielectrics reflect about 4% in their specular highlight, metals reflect their base color.
+        // The exponent is the Blinn-Phong equivalent of a GGX lobe with alpha = roughness^2.
+        const alpha = Math.max(roughness * roughness, 0.05);
+        return {
+            name: material.name ?? `material ${materialIndex}`,
+            diffuseColor: baseColor.map(value => value * (1 - metallic)) as [number, number, number],
+            specularColor: baseColor.map(value => 0.04 + (value - 0.04) * metallic) as [number, number, number],
+            shininess: Math.max(2 / (alpha * alpha) - 2, 1),
+            diffuseMap: this._textureSource(pbr.baseColorTexture),
+            bumpMap: this._textureSource(material.normalTexture),
+            bumpScale: material.normalTexture?.scale ?? 1,
+        };
+    }
+
+    private _textureSource(textureInfo: IGltfTextureInfo | undefined): TextureSource | undefined {
+        if (!textureInfo) {
+            return undefined;
+        }
+        if ((textureInfo.texCoord ?? 0) !== 0) {
+            console.warn(`"${this._url}" uses TEXCOORD_${textureInfo.texCoord}, only TEXCOORD_0 is loaded`);
+        }
+        const imageIndex = this._document.textures?.[textureInfo.index]?.source;
+        const image = imageIndex !== undefined ? this._document.images?.[imageIndex] : undefined;
+        if (!image) {
+            return undefined;
+        }
+        if (image.uri !== undefined) {
+            return resolveRelativePath(image.uri, this._url);
+        }
+        const bufferView = this._document.bufferViews![image.bufferView!];
+        const bytes = new Uint8Array(this._buffers[bufferView.buffer], bufferView.byteOffset ?? 0, bufferView.byteLength);
+        return new Blob([bytes], { type: image.mimeType });
+    }
+}
@@ -0,0 +1,130 @@
+import * as glMatrix from "gl-matrix";
+import type { WebGPUContext } from "../core/webgpu-context";
+import type { IModelMaterial, Model } from "./model";
+import type { SceneGraph } from "./sceneGraph";
+import instanceWgsl from "../shaders/instance.wgsl?raw";
+
+/**
+ * Vertex attributes a shader reads, in shader location order.
+ */
+export type VertexAttribute = "position" | "normal" | "uv" | "tangent";
+
+const ATTRIBUTE_FORMATS: Record<VertexAttribute, { format: GPUVertexFormat, components: number }> = {
+    position: { format: "float32x3", components: 3 },
+    normal: { format: "float32x3", components: 3 },
+    uv: { format: "float32x2", components: 2 },
+    tangent: { format: "float32x4", components: 4 },
+};
+
+// Per instance: the model matrix and its inverse transpose for normals, matching `struct Instance` in instance.wgsl
+const INSTANCE_FLOATS = 32;
+
+/**
+ * Appends the declaration of `struct Instance` to a shader's source. Module-scope declarations can come in any
+ * order in WGSL, and appending keeps the shader's own line numbers for compilation messages.
+ */
+export function instancedShader(source: string): string {
+    return source + instanceWgsl;
+}
+
+/**
+ * Draws the batches of a SceneGraph with one instanced draw per model and submesh. World transforms go to a
+ * storage buffer, which the shader indexes with instance_index after declaring it with instancedShader():
+ *
+ *     var<storage, read> instances: array<Instance>;
+ */
+export class InstancedRenderer {
+    private _webGpuContext: WebGPUContext;
+    private _attributes: VertexAttribute[];
+    private _vertexBuffers: Map<Model, GPUBuffer[]>;
+    private _instanceBuffer?: GPUBuffer;
+    private _instanceData: Float32Array;
+    private _draws: { model: Model, instanceCount: number, firstInstance: number }[];
+
+    constructor(webGpuContext: WebGPUContext, attributes: VertexAttribute[]) {
+        this._webGpuContext = webGpuContext;
+        this._attributes = attributes;
+        this._vertexBuffers = new Map();
+        this._instanceData = new Float32Array(0);
+        this._draws = [];
+    }
+
+    public get vertexBufferLayouts(): GPUVertexBufferLayout[] {
+        return this._attributes.map((attribute, shaderLocation) => {
+            const { format, components } = ATTRIBUTE_FORMATS[attribute];
+            return { arrayStride: components * Float32Array.BYTES_PER_ELEMENT, attributes: [{ format, offset: 0, shaderLocation }] };
+        });
+    }
+
+    /**
+     * The instance storage buffer as of the last update(). It's replaced when the instance count grows, so bind
+     * groups using it should be created per frame.
+     */
+    public get instanceBuffer(): GPUBuffer {
+        if (!this._instanceBuffer) {
+            throw new Error("Call update() before using the instance buffer");
+        }
+        return this._instanceBuffer;
+    }
+
+    /**
+     * Updates the graph and uploads its world transforms.
+     */
+    public update(graph: SceneGraph) {
+        const batches = graph.update();
+        const instanceCount = batches.reduce((count, batch) => count + batch.nodes.length, 0);
+        // Storage bindings can't be empty
+        const floatCount = Math.max(instanceCount, 1) * INSTANCE_FLOATS;
+        if (this._instanceData.length < floatCount) {
+            this._instanceData = new Float32Array(floatCount);
+            if (this._instanceBuffer) {
+                this._webGpuContext.destroyResource(this._instanceBuffer);
+            }
+            this._instanceBuffer = this._webGpuContext.createBuffer(this._instanceData.byteLength, GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST, "instances");
+        }
+
+        const normalMatrix = glMatrix.mat4.create();
+        let firstInstance = 0;
+        this._draws = batches.map(({ model, nodes }) => {
+            nodes.forEach((node, index) => {
+                const offset = (firstInstance + index) * INSTANCE_FLOATS;
+                this._instanceData.set(node.worldMatrix, offset);
+                glMatrix.mat4.transpose(normalMatrix, glMatrix.mat4.invert(normalMatrix, node.worldMatrix) ?? glMatrix.mat4.identity(normalMatrix));
+                this._instanceData.set(normalMatrix, offset + 16);
+            });
+            const draw = { model, instanceCount: nodes.length, firstInstance };
+            firstInstance += nodes.length;
+            return draw;
+        });
+        this._webGpuContext.device.queue.writeBuffer(this._instanceBuffer!, 0, this._instanceData, 0, floatCount);
+    }
+
+    /**
+     * Draws what the last update() uploaded. The pipeline and the bind group holding the instance buffer have to be
+     * set already; `bindMaterial` is called before each submesh as in Model.draw().
+     */
+    public draw(passEncoder: GPURenderPassEncoder, bindMaterial: (material: IModelMaterial) => void) {
+        for (const { model, instanceCount, firstInstance } of this._draws) {
+            this._modelVertexBuffers(model).forEach((buffer, slot) => passEncoder.setVertexBuffer(slot, buffer));
+            model.draw(passEncoder, bindMaterial, instanceCount, firstInstance);
+        }
+    }
+
+    private _modelVertexBuffers(model: Model): GPUBuffer[] {
+        let buffers = this._vertexBuffers.get(model);
+        if (!buffers) {
+            buffers = this._attributes.map(attribute => this._webGpuContext.createGPUBuffer(this._attributeData(model, attribute), GPUBufferUsage.VERTEX));
+            this._vertexBuffers.set(model, buffers);
+        }
+        return buffers;
+    }
+
+    private _attributeData(model: Model, attribute: VertexAttribute): Float32Array {
+        switch (attribute) {
+            case "position": return model.mesh.vertexPositions;
+            case "normal": return model.mesh.normals;
+            case "uv": return model.mesh.uvs;
+            case "tangent": return model.tangents;
+        }
+    }
+}
@@ -0,0 +1,29 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createMockContext, type IMockContext } from "../testing/mock-context";
+import { InstancedRenderer } from "./instancedRenderer";
+import { LineLayer } from "./lineLayer";
+import renderObjModelScene from "../scenes/obj_model";
+
+describe("LineLayer", () => {
+    let mock: IMockContext;
+
+    beforeEach(async () => {
+        mock = await createMockContext();
+    });
+
+    afterEach(() => {
+        mock.webGpuContext.destroy();
+    });
+
+    it("rejects an empty material list", () => {
+        const renderer = new InstancedRenderer(mock.webGpuContext, ["position", "normal"]);
+        expect(() => new LineLayer(mock.webGpuContext, renderer, [])).toThrow("Lines need at least one material");
+    });
+
+    it("draws the lines over what the scene drew", async () => {
+        await mock.webGpuContext.runScene(context => renderObjModelScene(context, "single", {}));
+        await mock.backend.frameScheduler.step();
+
+        expect(mock.backend.recorder.lastSubmission!.passes.map(pass => pass.label)).toEqual(["phong", "lineGBuffer", "lineEdges"]);
+    });
+});
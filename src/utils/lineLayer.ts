@@ -0,0 +1,144 @@
+import * as glMatrix from "gl-matrix";
+import type { IShaderBindGroup, WebGPUContext } from "../core/webgpu-context";
+import { RenderGraph } from "../core/render-graph";
+import { UniformStructLayout } from "../core/uniform-struct";
+import { instancedShader, type InstancedRenderer } from "./instancedRenderer";
+import type { IModelMaterial } from "./model";
+import type { RgbColor } from "./meshData";
+import gbufferSource from "../shaders/lines/gbuffer.wgsl?raw";
+import edgesWgsl from "../shaders/lines/edges.wgsl?raw";
+
+const gbufferWgsl = instancedShader(gbufferSource);
+
+export type LineKind = "silhouette" | "crease" | "material";
+
+export interface ILineStyle {
+    /**
+     * How strong an edge has to be to get a line: the depth change relative to the depth for silhouettes, the
+     * change of the unit normal (0 to 2) for creases, and the share of neighbours on another material (0 to 1) for
+     * material boundaries. Silhouettes where objects meet or end are always drawn.
+     */
+    threshold: number;
+    /** Line width in pixels. */
+    thickness: number;
+    color: RgbColor;
+}
+
+export interface ILineLayerOptions {
+    silhouette?: Partial<ILineStyle>;
+    crease?: Partial<ILineStyle>;
+    material?: Partial<ILineStyle>;
+}
+
+export interface ILineCamera {
+    view: glMatrix.ReadonlyMat4;
+    projection: glMatrix.ReadonlyMat4;
+}
+
+const DEFAULT_STYLES: Record<LineKind, ILineStyle> = {
+    silhouette: { threshold: 0.15, thickness: 2, color: [0.05, 0.05, 0.05] },
+    crease: { threshold: 0.6, thickness: 1, color: [0.2, 0.2, 0.2] },
+    material: { threshold: 0.3, thickness: 1, color: [0.35, 0.35, 0.35] },
+};
+const LINE_KINDS: LineKind[] = ["silhouette", "crease", "material"];
+
+const NORMAL_DEPTH_FORMAT: GPUTextureFormat = "rgba16float";
+const ID_FORMAT: GPUTextureFormat = "rg32uint";
+const DEPTH_FORMAT: GPUTextureFormat = "depth24plus";
+
+/**
+ * Ink lines over any scene drawn with an InstancedRenderer. The scene graph is drawn again into a G-buffer of
+ * view-space normals, linear depth and object and material ids, and an edge pass draws silhouettes, creases and
+ * material boundaries over the scene's color, e.g. its Phong or watercolor output.
+ */
+export class LineLayer {
+    private _webGpuContext: WebGPUContext;
+    private _renderer: InstancedRenderer;
+    private _styles: Record<LineKind, ILineStyle>;
+    private _materialBindGroups: Map<IModelMaterial, IShaderBindGroup>;
+
+    /**
+     * @param materials Every material the renderer draws; each gets its own id, so boundaries between materials
+     * are found across models too.
+     */
+    constructor(webGpuContext: WebGPUContext, renderer: InstancedRenderer, materials: IModelMaterial[], options: ILineLayerOptions = {}) {
+        if (materials.length === 0) {
+            throw new Error("Lines need at least one material");
+        }
+        this._webGpuContext = webGpuContext;
+        this._renderer = renderer;
+        this._styles = {
+            silhouette: { ...DEFAULT_STYLES.silhouette, ...options.silhouette },
+            crease: { ...DEFAULT_STYLES.crease, ...options.crease },
+            material: { ...DEFAULT_STYLES.material, ...options.material },
+        };
+        this._materialBindGroups = new Map([...new Set(materials)].map((material, id) => [material, webGpuContext.createBindGroup(gbufferWgsl, {
+            material_id: webGpuContext.createGPUBuffer(Uint32Array.of(id, 0, 0, 0), GPUBufferUsage.UNIFORM),
+        }, 1)]));
+    }
+
+    /**
+     * Adds the G-buffer and edge passes to `renderGraph`. They read `input`, which the scene draws its color into
+     * instead of the backbuffer, and write `output`. The renderer must have been updated for the frame before the
+     * graph executes. Scenes can declare `input` whether they draw lines or not, since the render graph doesn't
+     * allocate textures no pass uses.
+     */
+    public addPasses(renderGraph: RenderGraph, camera: () => ILineCamera, input: string, output: string = RenderGraph.BACKBUFFER): RenderGraph {
+        const gbufferUniforms = new UniformStructLayout({ view: "mat4x4f", projection: "mat4x4f", normal_to_view: "mat4x4f" }).createWriter();
+        const lineUniforms = new UniformStructLayout(Object.fromEntries(LINE_KINDS.flatMap(kind => [
+            [`${kind}_color`, "vec3f"],
+            [`${kind}_threshold`, "f32"],
+            [`${kind}_thickness`, "f32"],
+        ]))).createWriter();
+        for (const kind of LINE_KINDS) {
+            const { color, threshold, thickness } = this._styles[kind];
+            lineUniforms.set(`${kind}_color`, color).set(`${kind}_threshold`, threshold).set(`${kind}_thickness`, thickness);
+        }
+        const lineUniformBuffer = this._webGpuContext.createGPUBuffer(lineUniforms.data, GPUBufferUsage.UNIFORM);
+
+        return renderGraph
+            .createTexture("lineNormalDepth", { format: NORMAL_DEPTH_FORMAT })
+            .createTexture("lineIds", { format: ID_FORMAT })
+            .createTexture("lineDepth", { format: DEPTH_FORMAT })
+            // Not multisampled: ids can't be resolved, and the edges are found per pixel anyway
+            .addPass({
+                name: "lineGBuffer",
+                colorAttachments: [
+                    { texture: "lineNormalDepth", clearValue: { r: 0, g: 0, b: 0, a: 0 } },
+                    { texture: "lineIds", clearValue: { r: 0, g: 0, b: 0, a: 0 } },
+                ],
+                depthStencilAttachment: { texture: "lineDepth", depthClearValue: 1 },
+                execute: passEncoder => {
+                    const { view, projection } = camera();
+                    gbufferUniforms
+                        .set("view", view)
+                        .set("projection", projection)
+                        .set("normal_to_view", glMatrix.mat4.transpose(glMatrix.mat4.create(), glMatrix.mat4.invert(glMatrix.mat4.create(), view)));
+                    const bindGroup = this._webGpuContext.createBindGroup(gbufferWgsl, {
+                        uniforms: { ...this._webGpuContext.uniforms.allocate(gbufferUniforms.data), hasDynamicOffset: true },
+                        instances: this._renderer.instanceBuffer,
+                    });
+                    const materialBindGroupLayout = [...this._materialBindGroups.values()][0].bindGroupLayout;
+                    passEncoder.setPipeline(this._webGpuContext.createPipeline(this._webGpuContext.createShaderModule(gbufferWgsl), this._renderer.vertexBufferLayouts, [bindGroup.bindGroupLayout, materialBindGroupLayout], [NORMAL_DEPTH_FORMAT, ID_FORMAT], undefined, DEPTH_FORMAT));
+                    passEncoder.setBindGroup(0, bindGroup.bindGroup, bindGroup.dynamicOffsets);
+                    this._renderer.draw(passEncoder, material => passEncoder.setBindGroup(1, this._materialBindGroups.get(material)!.bindGroup));
+                },
+            })
+            .addPass({
+                name: "lineEdges",
+                inputs: [input, "lineNormalDepth", "lineIds"],
+                colorAttachments: [{ texture: output, clearValue: { r: 1.0, g: 1.0, b: 1.0, a: 1.0 } }],
+                execute: (passEncoder, resources) => {
+                    const bindGroup = this._webGpuContext.createBindGroup(edgesWgsl, {
+                        lines: lineUniformBuffer,
+                        color_tex: resources.getView(input),
+                        normal_depth_tex: resources.getView("lineNormalDepth"),
+                        id_tex: resources.getView("lineIds"),
+                    });
+                    passEncoder.setPipeline(this._webGpuContext.createPipeline(this._webGpuContext.createShaderModule(edgesWgsl), [], [bindGroup.bindGroupLayout], [resources.getTexture(output).format]));
+                    passEncoder.setBindGroup(0, bindGroup.bindGroup);
+                    passEncoder.draw(3);
+                },
+            });
+    }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { computeBounds, computeTangents } from "./meshData";
+
+describe("computeBounds", () => {
+    it("centers the sphere on the box and sizes it to the farthest vertex", () => {
+        const bounds = computeBounds(new Float32Array([-1, 0, 2, 3, 4, 2, 1, 2, 2, 1, 0, 2]));
+        expect(Array.from(bounds.min)).toEqual([-1, 0, 2]);
+        expect(Array.from(bounds.max)).toEqual([3, 4, 2]);
+        expect(Array.from(bounds.center)).toEqual([1, 2, 2]);
+        // The corners are the farthest; a midpoint of an edge would be 2 away
+        expect(bounds.radius).toBeCloseTo(Math.sqrt(8));
+    });
+
+    it("gives empty meshes zero-sized bounds at the origin", () => {
+        const bounds = computeBounds(new Float32Array());
+        expect(Array.from(bounds.center)).toEqual([0, 0, 0]);
+        expect(bounds.radius).toBe(0);
+    });
+});
+
+describe("computeTangents", () => {
+    // A unit quad in the xy plane, facing +z
+    const positions = new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]);
+    const normals = new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1]);
+    const indices = [0, 1, 2, 0, 2, 3];
+    const rounded = (tangents: Float32Array) => Array.from(tangents, value => Math.round(value * 1e4) / 1e4 + 0);
+
+    it.each([
+        ["an upright image", [0, 1, 1, 1, 1, 0, 0, 0], [1, 0, 0, 1]],
+        ["a mirrored image", [1, 1, 0, 1, 0, 0, 1, 0], [-1, 0, 0, -1]],
+        ["a rotated image", [0, 0, 0, 1, 1, 1, 1, 0], [0, 1, 0, 1]],
+    ])("follows the UVs of %s", (_, uvs, expected) => {
+        const tangents = computeTangents(positions, normals, new Float32Array(uvs), indices);
+        expect(rounded(tangents)).toEqual([...expected, ...expected, ...expected, ...expected]);
+    });
+
+    it("picks a direction perpendicular to the normal where the UVs are degenerate", () => {
+        const tangents = computeTangents(positions, normals, new Float32Array(8), indices);
+        expect(rounded(tangents.subarray(0, 4))).toEqual([0, -1, 0, 1]);
+    });
+
+});
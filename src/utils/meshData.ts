@@ -0,0 +1,205 @@
+import * as glMatrix from "gl-matrix";
+
+export type RgbColor = [number, number, number];
+
+/** A URL, or the encoded image of a texture embedded in the model file. */
+export type TextureSource = string | Blob;
+
+/**
+ * Material of a loaded model, in the terms of the MTL format, which glTF materials are converted to.
+ */
+export interface IMaterialData {
+    name: string;
+    /** Kd, or glTF baseColorFactor */
+    diffuseColor: RgbColor;
+    /** Ks */
+    specularColor: RgbColor;
+    /** Ns */
+    shininess: number;
+    /** map_Kd, or glTF baseColorTexture */
+    diffuseMap?: TextureSource;
+    /** map_Bump/bump, or glTF normalTexture */
+    bumpMap?: TextureSource;
+    /** The bump map's -bm option, or the glTF normal texture's scale. */
+    bumpScale: number;
+}
+
+export interface IMeshSubmesh {
+    /** Key of the submesh's material, e.g. its usemtl name, or "" for faces without one. */
+    material: string;
+    /** First index of the submesh in indices. */
+    indexOffset: number;
+    indexCount: number;
+}
+
+/**
+ * Indexed triangle mesh with one vertex stream per attribute, as produced by the model loaders.
+ */
+export interface IMeshData {
+    vertexPositions: Float32Array;
+    /** Unit-length vertex normals. */
+    normals: Float32Array;
+    /** With v = 0 at the top of the image, as glTF and WebGPU have it. */
+    uvs: Float32Array;
+    /**
+     * xyz tangent plus the bitangent's handedness in w (bitangent = cross(normal, tangent) * w, pointing up the
+     * image as in glTF), or undefined unless the loader was asked for tangents.
+     */
+    tangents?: Float32Array;
+    indices: Uint16Array | Uint32Array;
+    indexFormat: GPUIndexFormat;
+    submeshes: IMeshSubmesh[];
+}
+
+/**
+ * Axis-aligned bounding box and a bounding sphere around the box's center, in model space.
+ */
+export interface IMeshBounds {
+    min: glMatrix.vec3;
+    max: glMatrix.vec3;
+    center: glMatrix.vec3;
+    radius: number;
+}
+
+// Largest vertex index a uint16 index buffer can address; 0xFFFF is the primitive restart value
+const MAX_UINT16_INDEX = 0xFFFE;
+
+export function createDefaultMaterial(name: string = ""): IMaterialData {
+    // Defaults from the MTL spec, except for shininess which it leaves undefined
+    return { name, diffuseColor: [0.8, 0.8, 0.8], specularColor: [0, 0, 0], shininess: 1, bumpScale: 1 };
+}
+
+/**
+ * 16-bit indices unless there are too many vertices for that.
+ */
+export function createIndexArray(indices: number[], vertexCount: number): Uint16Array | Uint32Array {
+    return vertexCount - 1 > MAX_UINT16_INDEX ? new Uint32Array(indices) : new Uint16Array(indices);
+}
+
+/**
+ * Per-vertex tangents from the UV gradients of the triangles around each vertex, MikkTSpace style: each triangle's
+ * tangent is projected onto the vertex's normal plane and weighted by the triangle's angle at that corner, so the
+ * result doesn't depend on how a surface is triangulated, and the bitangent's handedness is kept in w for mirrored UVs.
+ */
+export function computeTangents(positions: Float32Array, normals: Float32Array, uvs: Float32Array, indices: ArrayLike<number>): Float32Array {
+    const vertexCount = positions.length / 3;
+    const tangentSums = new Float32Array(vertexCount * 3);
+    const bitangentSums = new Float32Array(vertexCount * 3);
+    const position = (i: number) => glMatrix.vec3.fromValues(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
+    const normal = (i: number) => glMatrix.vec3.fromValues(normals[i * 3], normals[i * 3 + 1], normals[i * 3 + 2]);
+    const uv = (i: number) => glMatrix.vec2.fromValues(uvs[i * 2], uvs[i * 2 + 1]);
+    // Component of `direction` perpendicular to `normal`, normalized, or zero if there is none
+    const project = (direction: glMatrix.vec3, normal: glMatrix.vec3) => {
+        const projected = glMatrix.vec3.scaleAndAdd(glMatrix.vec3.create(), direction, normal, -glMatrix.vec3.dot(normal, direction));
+        return glMatrix.vec3.length(projected) > 1e-12 ? glMatrix.vec3.normalize(projected, projected) : projected;
+    };
+
+    for (let i = 0; i < indices.length; i += 3) {
+        const corners = [indices[i], indices[i + 1], indices[i + 2]];
+        const [a, b, c] = corners;
+        const edge1 = glMatrix.vec3.subtract(glMatrix.vec3.create(), position(b), position(a));
+        const edge2 = glMatrix.vec3.subtract(glMatrix.vec3.create(), position(c), position(a));
+        const deltaUv1 = glMatrix.vec2.subtract(glMatrix.vec2.create(), uv(b), uv(a));
+        const deltaUv2 = glMatrix.vec2.subtract(glMatrix.vec2.create(), uv(c), uv(a));
+        const determinant = deltaUv1[0] * deltaUv2[1] - deltaUv2[0] * deltaUv1[1];
+        if (Math.abs(determinant) < 1e-12) {
+            continue;
+        }
+        const r = 1 / determinant;
+        const tangent = glMatrix.vec3.scale(glMatrix.vec3.create(), glMatrix.vec3.subtract(glMatrix.vec3.create(),
+            glMatrix.vec3.scale(glMatrix.vec3.create(), edge1, deltaUv2[1]), glMatrix.vec3.scale(glMatrix.vec3.create(), edge2, deltaUv1[1])), r);
+        // Up the image, towards smaller v, which is where a normal map's green channel points
+        const bitangent = glMatrix.vec3.scale(glMatrix.vec3.create(), glMatrix.vec3.subtract(glMatrix.vec3.create(),
+            glMatrix.vec3.scale(glMatrix.vec3.create(), edge2, deltaUv1[0]), glMatrix.vec3.scale(glMatrix.vec3.create(), edge1, deltaUv2[0])), -r);
+        corners.forEach((vertex, corner) => {
+            const toNext = glMatrix.vec3.subtract(glMatrix.vec3.create(), position(corners[(corner + 1) % 3]), position(vertex));
+            const toPrevious = glMatrix.vec3.subtract(glMatrix.vec3.create(), position(corners[(corner + 2) % 3]), position(vertex));
+            const angle = glMatrix.vec3.angle(toNext, toPrevious);
+            const vertexNormal = normal(vertex);
+            const cornerTangent = project(tangent, vertexNormal);
+            const cornerBitangent = project(bitangent, vertexNormal);
+            for (let axis = 0; axis < 3; axis++) {
+                tangentSums[vertex * 3 + axis] += cornerTangent[axis] * angle;
+                bitangentSums[vertex * 3 + axis] += cornerBitangent[axis] * angle;
+            }
+        });
+    }
+
+    const tangents = new Float32Array(vertexCount * 4);
+    for (let i = 0; i < vertexCount; i++) {
+        const vertexNormal = normal(i);
+        let tangent = glMatrix.vec3.fromValues(tangentSums[i * 3], tangentSums[i * 3 + 1], tangentSums[i * 3 + 2]);
+        // Gram-Schmidt: remove the normal component
+        glMatrix.vec3.scaleAndAdd(tangent, tangent, vertexNormal, -glMatrix.vec3.dot(vertexNormal, tangent));
+        if (glMatrix.vec3.length(tangent) < 1e-8) {
+            // No usable UVs around this vertex; any direction perpendicular to the normal will do
+            const axis = Math.abs(vertexNormal[0]) < 0.9 ? glMatrix.vec3.fromValues(1, 0, 0) : glMatrix.vec3.fromValues(0, 1, 0);
+            tangent = glMatrix.vec3.cross(tangent, axis, vertexNormal);
+        }
+        glMatrix.vec3.normalize(tangent, tangent);
+        const bitangent = glMatrix.vec3.fromValues(bitangentSums[i * 3], bitangentSums[i * 3 + 1], bitangentSums[i * 3 + 2]);
+        const handedness = glMatrix.vec3.dot(glMatrix.vec3.cross(glMatrix.vec3.create(), vertexNormal, tangent), bitangent) < 0 ? -1 : 1;
+        tangents.set([tangent[0], tangent[1], tangent[2], handedness], i * 4);
+    }
+    return tangents;
+}
+
+/**
+ * Bounds of the vertex positions. The sphere is centered on the box and only as large as the farthest vertex, which
+ * is tighter than the box's half diagonal for round models. Empty meshes get zero-sized bounds at the origin.
+ */
+export function computeBounds(positions: Float32Array): IMeshBounds {
+    if (positions.length < 3) {
+        return { min: glMatrix.vec3.create(), max: glMatrix.vec3.create(), center: glMatrix.vec3.create(), radius: 0 };
+    }
+    const min = glMatrix.vec3.fromValues(Infinity, Infinity, Infinity);
+    const max = glMatrix.vec3.fromValues(-Infinity, -Infinity, -Infinity);
+    for (let i = 0; i < positions.length; i += 3) {
+        const position = glMatrix.vec3.fromValues(positions[i], positions[i + 1], positions[i + 2]);
+        glMatrix.vec3.min(min, min, position);
+        glMatrix.vec3.max(max, max, position);
+    }
+    const center = glMatrix.vec3.lerp(glMatrix.vec3.create(), min, max, 0.5);
+    let radiusSquared = 0;
+    for (let i = 0; i < positions.length; i += 3) {
+        radiusSquared = Math.max(radiusSquared, glMatrix.vec3.squaredDistance(center, [positions[i], positions[i + 1], positions[i + 2]]));
+    }
+    return { min, max, center, radius: Math.sqrt(radiusSquared) };
+}
+
+/**
+ * Box centered on the origin, with its own normals and 0..1 UVs on each face, e.g. for building simple props.
+ * Its single submesh has no material, so it gets the model's default material.
+ */
+export function createBoxMesh(width: number = 1, depth: number = 1, height: number = 1): IMeshData {
+    // Each face: its normal axis and sign, then the axes its u and v run along, picked so u x v points outwards
+    const faces: [number, number, number, number][] = [[0, 1, 1, 2], [0, -1, 2, 1], [1, 1, 2, 0], [1, -1, 0, 2], [2, 1, 0, 1], [2, -1, 1, 0]];
+    const halfSize = [width / 2, depth / 2, height / 2];
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const uvs: number[] = [];
+    const indices: number[] = [];
+    for (const [axis, sign, uAxis, vAxis] of faces) {
+        const first = positions.length / 3;
+        for (const [u, v] of [[0, 0], [1, 0], [1, 1], [0, 1]]) {
+            const position = [0, 0, 0];
+            position[axis] = sign * halfSize[axis];
+            position[uAxis] = (u * 2 - 1) * halfSize[uAxis];
+            position[vAxis] = (v * 2 - 1) * halfSize[vAxis];
+            const normal = [0, 0, 0];
+            normal[axis] = sign;
+            positions.push(...position);
+            normals.push(...normal);
+            uvs.push(u, v);
+        }
+        indices.push(first, first + 1, first + 2, first, first + 2, first + 3);
+    }
+    return {
+        vertexPositions: new Float32Array(positions),
+        normals: new Float32Array(normals),
+        uvs: new Float32Array(uvs),
+        indices: new Uint16Array(indices),
+        indexFormat: "uint16",
+        submeshes: [{ material: "", indexOffset: 0, indexCount: indices.length }],
+    };
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createMockContext, TRIANGLE_OBJ, type IMockContext } from "../testing/mock-context";
+import { MockAssetFetcher } from "../testing/mock-gpu";
+import { Model } from "./model";
+
+describe("Model", () => {
+    let mock: IMockContext;
+
+    afterEach(() => {
+        mock.webGpuContext.destroy();
+        vi.restoreAllMocks();
+    });
+
+    async function loadWithErrors(assets: Record<string, string>): Promise<{ model: Model, errors: string[] }> {
+        mock = await createMockContext({ assets });
+        mock.webGpuContext.createScene();
+        const errors: string[] = [];
+        mock.webGpuContext.onError(error => errors.push(error.message));
+        return { model: await Model.load(mock.webGpuContext, "model.obj"), errors };
+    }
+
+    it("reports materials no library defines and draws them with the default material", async () => {
+        const warn = vi.spyOn(console, "warn");
+        const { model, errors } = await loadWithErrors({ "model.obj": `usemtl Red\n${TRIANGLE_OBJ}` });
+
+        expect(errors).toEqual(['Failed to load material "model.obj#Red": No material library defines it']);
+        expect(model.materials).toHaveLength(1);
+        expect(warn).not.toHaveBeenCalled();
+    });
+
+    it("reports textures that fail to load once, and uses a fallback for them", async () => {
+        const warn = vi.spyOn(console, "warn");
+        vi.spyOn(MockAssetFetcher.prototype, "fetchImageBitmap").mockRejectedValue(new Error("Not found"));
+        const { model, errors } = await loadWithErrors({
+            "model.obj": `mtllib model.mtl\nusemtl Wood\n${TRIANGLE_OBJ}`,
+            "model.mtl": "newmtl Wood\nmap_Kd wood.png\n",
+        });
+
+        expect(errors).toEqual(['Failed to load image "wood.png": Not found']);
+        expect(model.materials[0].diffuseTexture).toBeDefined();
+        expect(warn).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,221 @@
+import type { IGPUIndexBuffer, WebGPUContext } from "../core/webgpu-context";
+import { resolveRelativePath } from "../core/platform";
+import { AssetLoadError, textLoader, type IAssetLoader, type IAssetLoaderContext } from "../core/asset-manager";
+import { ObjDataExtractor, type IObjLoadOptions } from "./objDataExtractor";
+import { GltfDataExtractor } from "./gltfDataExtractor";
+import { MtlLibrary } from "./mtlLibrary";
+import { computeBounds, computeTangents, createDefaultMaterial, type IMaterialData, type IMeshBounds, type IMeshData, type TextureSource } from "./meshData";
+
+export interface IModelOptions extends IObjLoadOptions {
+    /** Overrides of the MTL defaults for faces without a material, e.g. every face of an OBJ file without mtllib. */
+    defaultMaterial?: Partial<IMaterialData>;
+    /** Replaces the diffuse map of every material, e.g. with a texture the user dropped. */
+    diffuseMap?: TextureSource;
+}
+
+export interface IModelMaterial extends IMaterialData {
+    /** The diffuse map, or a 1x1 white texture so shaders can always sample it. */
+    diffuseTexture: GPUTexture;
+    /**
+     * The tangent-space normal map (bumpMap), or a 1x1 flat normal. Only materials with a bump map are normal
+     * mapped; shaders should check normalMapped rather than rely on the flat texture.
+     */
+    normalTexture: GPUTexture;
+    normalMapped: boolean;
+}
+
+export interface IModelSubmesh {
+    material: IModelMaterial;
+    indexOffset: number;
+    indexCount: number;
+}
+
+const WHITE = 0xFFFFFF;
+// (0, 0, 1) in tangent space
+const FLAT_NORMAL = 0x8080FF;
+
+interface ILoadedMesh {
+    mesh: IMeshData;
+    materials: Map<string, IMaterialData>;
+}
+
+/**
+ * An OBJ or glTF model with its materials, uploaded for drawing. Vertex attributes are left to the scene (or an
+ * InstancedRenderer), since their shader locations differ per shader; the model owns the index buffer and draws
+ * one submesh per material.
+ */
+export class Model {
+    private _mesh: IMeshData;
+    private _indexBuffer: IGPUIndexBuffer;
+    private _submeshes: IModelSubmesh[];
+    private _bounds: IMeshBounds;
+    private _tangents?: Float32Array;
+
+    /**
+     * Fetches a .obj (with its MTL libraries), .gltf or .glb file and its textures. Paths in the files are resolved
+     * relative to the file naming them. Missing materials and textures fall back to the default material and a
+     * white texture. Meshes and images are cached by the context's AssetManager, so reloading a scene is cheap.
+     */
+    public static async load(webGpuContext: WebGPUContext, url: string, options: IModelOptions = {}): Promise<Model> {
+        const { mesh, materials } = await webGpuContext.assets.load(Model._meshLoader(options), url);
+        return Model._create(webGpuContext, url, mesh, materials, options);
+    }
+
+    /**
+     * Uploads a generated mesh, e.g. a primitive from meshData. Its submeshes get the default material.
+     */
+    public static async fromMesh(webGpuContext: WebGPUContext, mesh: IMeshData, options: IModelOptions = {}): Promise<Model> {
+        return Model._create(webGpuContext, "generated mesh", mesh, new Map(), options);
+    }
+
+    /**
+     * @param modelSource Names the model in reported errors.
+     */
+    private static async _create(webGpuContext: WebGPUContext, modelSource: string, mesh: IMeshData, materials: Map<string, IMaterialData>, options: IModelOptions): Promise<Model> {
+        const defaultMaterial: IMaterialData = { ...createDefaultMaterial(), ...options.defaultMaterial };
+
+        // Materials often share maps, so each texture is only uploaded once
+        const textures = new Map<TextureSource, Promise<GPUTexture>>();
+        const fallbackTextures = new Map<number, GPUTexture>();
+        const fallbackTexture = (color: number) => {
+            let texture = fallbackTextures.get(color);
+            if (!texture) {
+                texture = Model._createSolidTexture(webGpuContext, color);
+                fallbackTextures.set(color, texture);
+            }
+            return texture;
+        };
+        const loadTexture = (source: TextureSource | undefined, fallbackColor: number): Promise<GPUTexture> => {
+            if (!source) {
+                return Promise.resolve(fallbackTexture(fallbackColor));
+            }
+            let texture = textures.get(source);
+            if (!texture) {
+                const imageBitmap = typeof source === "string" ? webGpuContext.loadImageBitmap(source) : webGpuContext.assets.decodeImage(source);
+                texture = imageBitmap
+                    .then(imageBitmap => webGpuContext.createTextureFromImage(imageBitmap, { mipmaps: true }))
+                    .catch(error => {
+                        // The scene was replaced while loading, so nothing needs a fallback
+                        if (error instanceof DOMException && error.name === "AbortError") {
+                            throw error;
+                        }
+                        // Failed loads have been reported already
+                        if (!(error instanceof AssetLoadError)) {
+                            webGpuContext.assets.reportError(new AssetLoadError("texture", typeof source === "string" ? source : modelSource, error));
+                        }
+                        return fallbackTexture(fallbackColor);
+                    });
+                textures.set(source, texture);
+            }
+            return texture;
+        };
+
+        const gpuMaterials = new Map<string, Promise<IModelMaterial>>();
+        const submeshes = await Promise.all(mesh.submeshes.map(async submesh => {
+            let material = gpuMaterials.get(submesh.material);
+            if (!material) {
+                if (submesh.material !== "" && !materials.has(submesh.material)) {
+                    webGpuContext.assets.reportError(new AssetLoadError("material", `${modelSource}#${submesh.material}`, "No material library defines it"));
+                }
+                const materialData = materials.get(submesh.material) ?? defaultMaterial;
+                material = Promise.all([
+                    loadTexture(options.diffuseMap ?? materialData.diffuseMap, WHITE),
+                    loadTexture(materialData.bumpMap, FLAT_NORMAL),
+                ]).then(([diffuseTexture, normalTexture]) => ({ ...materialData, diffuseTexture, normalTexture, normalMapped: materialData.bumpMap !== undefined }));
+                gpuMaterials.set(submesh.material, material);
+            }
+            return { material: await material, indexOffset: submesh.indexOffset, indexCount: submesh.indexCount };
+        }));
+
+        return new Model(mesh, webGpuContext.createIndexBuffer(mesh.indices), submeshes);
+    }
+
+    private static _meshLoader(options: IObjLoadOptions): IAssetLoader<ILoadedMesh> {
+        return {
+            type: "mesh",
+            variant: JSON.stringify([options.creaseAngle, options.generateNormals, options.computeTangents]),
+            load: async (url, assets) => {
+                const extension = url.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+                if (extension === "obj") {
+                    return Model._loadObj(assets, url, options);
+                } else if (extension === "gltf" || extension === "glb") {
+                    const mesh = await GltfDataExtractor.load(assets, url, options);
+                    return { mesh, materials: mesh.materials };
+                }
+                throw new Error(`Unsupported model format, expected .obj, .gltf or .glb`);
+            },
+        };
+    }
+
+    private static async _loadObj(assets: IAssetLoaderContext, url: string, options: IObjLoadOptions): Promise<ILoadedMesh> {
+        const mesh = new ObjDataExtractor(await assets.fetchText(url), options);
+        const materials = new Map<string, IMaterialData>();
+        for (const library of mesh.materialLibraries) {
+            const libraryUrl = resolveRelativePath(library, url);
+            for (const material of new MtlLibrary(await assets.load(textLoader, libraryUrl), libraryUrl).materials) {
+                materials.set(material.name, material);
+            }
+        }
+        return { mesh, materials };
+    }
+
+    /**
+     * 1x1 texture of a 0xRRGGBB color.
+     */
+    private static _createSolidTexture(webGpuContext: WebGPUContext, color: number): GPUTexture {
+        const texture = webGpuContext.createTexture(1, 1);
+        const texel = Uint8Array.of((color >> 16) & 0xFF, (color >> 8) & 0xFF, color & 0xFF, 255);
+        webGpuContext.device.queue.writeTexture({ texture }, texel, { bytesPerRow: 4 }, { width: 1, height: 1 });
+        return texture;
+    }
+
+    constructor(mesh: IMeshData, indexBuffer: IGPUIndexBuffer, submeshes: IModelSubmesh[]) {
+        this._mesh = mesh;
+        this._indexBuffer = indexBuffer;
+        this._submeshes = submeshes;
+        this._bounds = computeBounds(mesh.vertexPositions);
+    }
+
+    public get mesh(): IMeshData {
+        return this._mesh;
+    }
+
+    /**
+     * Model-space bounds of the mesh, e.g. for Arcball.frame().
+     */
+    public get bounds(): IMeshBounds {
+        return this._bounds;
+    }
+
+    /**
+     * The mesh's tangents, or tangents generated from its UVs if the loader wasn't asked for them.
+     */
+    public get tangents(): Float32Array {
+        this._tangents ??= this._mesh.tangents ?? computeTangents(this._mesh.vertexPositions, this._mesh.normals, this._mesh.uvs, this._mesh.indices);
+        return this._tangents;
+    }
+
+    public get submeshes(): IModelSubmesh[] {
+        return this._submeshes;
+    }
+
+    /**
+     * Distinct materials of the submeshes.
+     */
+    public get materials(): IModelMaterial[] {
+        return [...new Set(this._submeshes.map(submesh => submesh.material))];
+    }
+
+    /**
+     * Draws every submesh, calling `bindMaterial` first so the scene can set that material's bind group.
+     * Vertex buffers and the pipeline have to be set already. `firstInstance` offsets the instance_index the
+     * shader sees, e.g. into a per-instance storage buffer shared by several models.
+     */
+    public draw(passEncoder: GPURenderPassEncoder, bindMaterial: (material: IModelMaterial) => void, instanceCount: number = 1, firstInstance: number = 0) {
+        passEncoder.setIndexBuffer(this._indexBuffer.buffer, this._indexBuffer.format);
+        for (const submesh of this._submeshes) {
+            bindMaterial(submesh.material);
+            passEncoder.drawIndexed(submesh.indexCount, instanceCount, submesh.indexOffset, 0, firstInstance);
+        }
+    }
+}
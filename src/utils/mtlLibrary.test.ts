@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultMaterial } from "./meshData";
+import { MtlLibrary } from "./mtlLibrary";
+
+const URL = "assets/models/crate/crate.mtl";
+
+describe("MtlLibrary", () => {
+    it.each([
+        ["colors", "Kd 1 0.5 0\nKs 0.25 0.25 0.25\nNs 32", { diffuseColor: [1, 0.5, 0], specularColor: [0.25, 0.25, 0.25], shininess: 32 }],
+        ["a single value as grey", "Kd 0.5", { diffuseColor: [0.5, 0.5, 0.5] }],
+        ["a diffuse map", "map_Kd textures/wood.png", { diffuseMap: "assets/models/crate/textures/wood.png" }],
+        ["map options", "map_Kd -o 0.5 0.5 -clamp on wood.png", { diffuseMap: "assets/models/crate/wood.png" }],
+        ["file names with spaces", "map_Kd old wood.png", { diffuseMap: "assets/models/crate/old wood.png" }],
+        ["a bump map with its scale", "bump -bm 0.3 normal.png", { bumpMap: "assets/models/crate/normal.png", bumpScale: 0.3 }],
+        ["map_Bump", "map_Bump ../normal.png", { bumpMap: "assets/models/normal.png", bumpScale: 1 }],
+        ["comments", "Kd 1 1 1 # white\n# Kd 0 0 0", { diffuseColor: [1, 1, 1] }],
+    ])("reads %s", (_, statements, expected) => {
+        const library = new MtlLibrary(`newmtl wood\n${statements}\n`, URL);
+        expect(library.get("wood")).toEqual({ ...createDefaultMaterial("wood"), ...expected });
+    });
+
+    it("keeps every material by name and ignores statements before the first newmtl", () => {
+        const library = new MtlLibrary("Kd 1 0 0\nnewmtl a\nKd 0 1 0\nnewmtl b\n", URL);
+        expect(library.materials.map(material => material.name)).toEqual(["a", "b"]);
+        expect(library.get("a")?.diffuseColor).toEqual([0, 1, 0]);
+        expect(library.get("b")?.diffuseColor).toEqual(createDefaultMaterial().diffuseColor);
+        expect(library.get("c")).toBeUndefined();
+    });
+});
@@ -0,0 +1,105 @@
+import { resolveRelativePath } from "../core/platform";
+import { createDefaultMaterial, type IMaterialData, type RgbColor } from "./meshData";
+
+// Number of arguments each texture map option takes (MTL spec, "Options for texture map statements")
+const MAP_OPTION_ARGUMENTS: Record<string, number> = {
+    "-blendu": 1,
+    "-blendv": 1,
+    "-bm": 1,
+    "-boost": 1,
+    "-cc": 1,
+    "-clamp": 1,
+    "-imfchan": 1,
+    "-mm": 2,
+    "-o": 3,
+    "-s": 3,
+    "-t": 3,
+    "-texres": 1,
+};
+
+/**
+ * Materials of a Wavefront MTL file, by name. Only the statements the renderers use are read.
+ */
+export class MtlLibrary {
+    private _materials: Map<string, IMaterialData>;
+
+    /**
+     * @param url The MTL file's URL, which texture paths are relative to.
+     */
+    constructor(mtlText: string, url: string) {
+        this._materials = new Map();
+        let material: IMaterialData | undefined;
+        for (const rawLine of mtlText.split("\n")) {
+            const line = rawLine.replace(/#.*/, "").trim();
+            if (line.length === 0) {
+                continue;
+            }
+            const [statement, ...args] = line.split(/\s+/);
+            if (statement === "newmtl") {
+                material = createDefaultMaterial(args.join(" "));
+                this._materials.set(material.name, material);
+                continue;
+            }
+            if (!material) {
+                continue;
+            }
+            switch (statement.toLowerCase()) {
+                case "kd":
+                    material.diffuseColor = this._parseColor(args);
+                    break;
+                case "ks":
+                    material.specularColor = this._parseColor(args);
+                    break;
+                case "ns":
+                    material.shininess = parseFloat(args[0]);
+                    break;
+                case "map_kd":
+                    material.diffuseMap = resolveRelativePath(this._parseMap(args).path, url);
+                    break;
+                case "map_bump":
+                case "bump": {
+                    const { path, options } = this._parseMap(args);
+                    material.bumpMap = resolveRelativePath(path, url);
+                    material.bumpScale = options.get("-bm")?.[0] ?? 1;
+                    break;
+                }
+            }
+        }
+    }
+
+    public get materials(): IMaterialData[] {
+        return [...this._materials.values()];
+    }
+
+    public get(name: string): IMaterialData | undefined {
+        return this._materials.get(name);
+    }
+
+    private _parseColor(args: string[]): RgbColor {
+        // "Kd r" means grey; spectral and CIE XYZ colors aren't supported
+        const r = parseFloat(args[0]);
+        return [r, args.length > 1 ? parseFloat(args[1]) : r, args.length > 2 ? parseFloat(args[2]) : r];
+    }
+
+    private _parseMap(args: string[]): { path: string, options: Map<string, number[]> } {
+        const options = new Map<string, number[]>();
+        let i = 0;
+        while (i < args.length && MAP_OPTION_ARGUMENTS[args[i]] !== undefined) {
+            const option = args[i++];
+            const values: number[] = [];
+            // Trailing arguments of -o, -s and -t are optional, so stop at the first one that isn't a number
+            for (let j = 0; j < MAP_OPTION_ARGUMENTS[option] && i < args.length - 1; j++) {
+                const value = args[i] === "on" ? 1 : args[i] === "off" ? 0 : parseFloat(args[i]);
+                // -imfchan names a channel (r, g, b, m, l or z) rather than taking a number
+                if (isNaN(value) && option !== "-imfchan") {
+                    break;
+                }
+                values.push(value);
+                i++;
+            }
+            options.set(option, values);
+        }
+        // File names may contain spaces
+        return { path: args.slice(i).join(" "), options };
+    }
+}
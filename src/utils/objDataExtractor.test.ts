@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import { ObjDataExtractor } from "./objDataExtractor";
+
+const QUAD = `
+v 0 0 0
+v 1 0 0
+v 1 1 0
+v 0 1 0
+f 1 2 3 4
+`;
+
+describe("ObjDataExtractor", () => {
+    it("fan-triangulates polygons", () => {
+        const mesh = new ObjDataExtractor(QUAD);
+        expect(Array.from(mesh.indices)).toEqual([0, 1, 2, 0, 2, 3]);
+        expect(mesh.vertexPositions).toHaveLength(4 * 3);
+    });
+
+    it.each([
+        ["1-based", "f 1 2 3 4"],
+        ["negative", "f -4 -3 -2 -1"],
+    ])("resolves %s indices", (_, face) => {
+        const mesh = new ObjDataExtractor(QUAD.replace("f 1 2 3 4", face));
+        expect(Array.from(mesh.vertexPositions)).toEqual([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0]);
+    });
+
+    it("resolves negative indices against the attributes declared before the face", () => {
+        const mesh = new ObjDataExtractor(`
+            o first
+            v 0 0 0
+            v 1 0 0
+            v 0 1 0
+            f -3 -2 -1
+            o second
+            v 0 0 1
+            v 1 0 1
+            v 0 1 1
+            f -3 -2 -1
+            v 5 5 5
+        `);
+        expect(Array.from(mesh.vertexPositions)).toEqual([0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1, 1, 0, 1, 0, 1, 1]);
+        expect(Array.from(mesh.indices)).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+
+    it("emits a vertex per unique position, uv and normal, so seams keep their own values", () => {
+        const mesh = new ObjDataExtractor(`
+            v 0 0 0
+            v 1 0 0
+            v 0 1 0
+            v 1 1 0
+            vt 0 0
+            vt 1 0
+            vt 0 1
+            vt 1 1
+            vt 0.5 0.5
+            f 1/1 2/2 3/3
+            f 2/5 4/4 3/3
+        `);
+        // Position 2 is used with two different uvs, position 3 twice with the same one
+        expect(Array.from(mesh.indices)).toEqual([0, 1, 2, 3, 4, 2]);
+        expect(Array.from(mesh.vertexPositions.subarray(3, 6))).toEqual(Array.from(mesh.vertexPositions.subarray(9, 12)));
+        // With v flipped, as WebGPU samples from the top of the image
+        expect(Array.from(mesh.uvs.subarray(2, 4))).toEqual([1, 1]);
+        expect(Array.from(mesh.uvs.subarray(6, 8))).toEqual([0.5, 0.5]);
+    });
+
+    it("averages the normals of the faces around a position when the file has none", () => {
+        const mesh = new ObjDataExtractor(`
+            v 0 0 0
+            v 1 0 0
+            v 0 1 0
+            v 0 0 1
+            s 1
+            f 1 2 3
+            f 1 4 2
+        `);
+        // The shared corner at the origin is between +z and +y facing faces
+        const normal = Array.from(mesh.normals.subarray(0, 3));
+        expect(normal[0]).toBeCloseTo(0);
+        expect(normal[1]).toBeCloseTo(Math.SQRT1_2);
+        expect(normal[2]).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it("normalizes authored normals and ignores them with generateNormals", () => {
+        const obj = QUAD.replace("f 1 2 3 4", "vn 0 0 2\nvn 1 0 0\nf 1//2 2//1 3//1 4//1");
+        const authored = new ObjDataExtractor(obj);
+        expect(Array.from(authored.normals.subarray(0, 3))).toEqual([1, 0, 0]);
+        expect(Array.from(authored.normals.subarray(3, 6))).toEqual([0, 0, 1]);
+        const generated = new ObjDataExtractor(obj, { generateNormals: true });
+        expect(Array.from(generated.normals.subarray(0, 3))).toEqual([0, 0, 1]);
+    });
+
+    // Two faces meeting at a right angle along the edge between positions 1 and 2
+    it.each([
+        ["one group", ["s 1", ""], {}, 4],
+        ["different groups", ["s 1", "s 2"], {}, 6],
+        ["smoothing off", ["s off", "s 1"], {}, 6],
+        ["no smoothing groups", ["", ""], {}, 6],
+        ["no smoothing groups and a crease angle", ["", ""], { creaseAngle: 100 }, 6],
+        ["a crease angle below the edge angle", ["s 1", ""], { creaseAngle: 60 }, 6],
+        ["a crease angle above the edge angle", ["s 1", ""], { creaseAngle: 100 }, 4],
+    ])("shares the normals of the edge vertices with %s", (_, [first, second], options, vertexCount) => {
+        const mesh = new ObjDataExtractor(`
+            v 0 0 0
+            v 1 0 0
+            v 0 1 0
+            v 0 0 1
+            ${first}
+            f 1 2 3
+            ${second}
+            f 1 4 2
+        `, options);
+        expect(mesh.vertexPositions).toHaveLength(vertexCount * 3);
+    });
+
+    it("computes tangents along the u direction", () => {
+        const mesh = new ObjDataExtractor(`
+            v 0 0 0
+            v 0 1 0
+            v 0 1 1
+            v 0 0 1
+            vt 0 0
+            vt 1 0
+            vt 1 1
+            vt 0 1
+            f 1/1 2/2 3/3 4/4
+        `, { computeTangents: true });
+        expect(new ObjDataExtractor(QUAD).tangents).toBeUndefined();
+        for (let i = 0; i < 4; i++) {
+            const tangent = Array.from(mesh.tangents!.subarray(i * 4, i * 4 + 4));
+            expect(tangent.map(value => Math.round(value))).toEqual([0, 1, 0, 1]);
+        }
+    });
+
+    it("groups triangles into a submesh per material in order of first use", () => {
+        const mesh = new ObjDataExtractor(`
+            mtllib crate.mtl
+            v 0 0 0
+            v 1 0 0
+            v 1 1 0
+            v 0 1 0
+            f 1 2 3
+            usemtl wood
+            f 1 3 4
+            usemtl metal
+            f 1 2 4
+            usemtl wood
+            f 2 3 4
+        `);
+        expect(mesh.materialLibraries).toEqual(["crate.mtl"]);
+        expect(mesh.submeshes).toEqual([
+            { material: "", indexOffset: 0, indexCount: 3 },
+            { material: "wood", indexOffset: 3, indexCount: 6 },
+            { material: "metal", indexOffset: 9, indexCount: 3 },
+        ]);
+    });
+
+    it("uses 32-bit indices once there are too many vertices for 16 bits", () => {
+        const triangles = 21846;
+        const lines: string[] = [];
+        for (let i = 0; i < triangles * 3; i++) {
+            lines.push(`v ${i} 0 0`);
+        }
+        for (let i = 0; i < triangles; i++) {
+            lines.push(`f ${i * 3 + 1} ${i * 3 + 2} ${i * 3 + 3}`);
+        }
+        const mesh = new ObjDataExtractor(lines.join("\n"));
+        expect(mesh.indexFormat).toBe("uint32");
+        expect(new ObjDataExtractor(QUAD).indexFormat).toBe("uint16");
+    });
+
+    it("rejects indices past the defined attributes", () => {
+        expect(() => new ObjDataExtractor(QUAD.replace("f 1 2 3 4", "f 1 2 5"))).toThrow("OBJ face references index 5, but only 4 are defined");
+    });
+});
@@ -1,77 +1,254 @@
 import * as glMatrix from "gl-matrix";
 import ObjFileParser from "obj-file-parser";
+import { computeTangents, createIndexArray, type IMeshData, type IMeshSubmesh } from "./meshData";
+
+export interface IObjLoadOptions {
+	/**
+	 * Generated normals are only averaged between faces of the same smoothing group whose normals are at most
+	 * this many degrees apart, so sharper edges within a group stay hard. Defaults to 180, leaving it to the
+	 * smoothing groups.
+	 */
+	creaseAngle?: number;
+	/** Ignore the file's `vn` normals and generate them from smoothing groups and the crease angle. */
+	generateNormals?: boolean;
+	/** Compute per-vertex tangents from the UVs, for normal mapping. */
+	computeTangents?: boolean;
+}
+
+interface IObjCorner {
+	position: number;
+	uv: number;
+	normal: glMatrix.vec3;
+}
+
+interface IObjFace {
+	corners: { position: number, uv: number, normal: number }[];
+	normal: glMatrix.vec3;
+	smoothingGroup: number;
+	material: string;
+}
+
+/**
+ * Flattens an OBJ file into indexed vertex streams. Faces are fan-triangulated and a vertex is emitted per unique
+ * (position, uv, normal) combination, so UV seams and hard edges keep their own values. Authored normals are used
+ * where the file has them; the rest are generated per smoothing group (`s`). Faces outside of one, after "s off" or
+ * in files without `s` statements, are shaded flat, since smoothing is off by default. Triangles are grouped into
+ * one submesh per usemtl name, in order of first use. Indices are 16-bit unless there are too many vertices for
+ * that, so use indexFormat when binding them.
+ */
+export class ObjDataExtractor implements IMeshData {
+	private static NORMAL_KEY_PRECISION = 5;
 
-export class ObjDataExtractor {
 	private _vertexPositions: Float32Array;
-	private _indices: Uint16Array;
+	private _indices: Uint16Array | Uint32Array;
 	private _normals: Float32Array;
-    private _uvs: Float32Array;
+	private _uvs: Float32Array;
+	private _tangents?: Float32Array;
+	private _submeshes: IMeshSubmesh[];
+	private _materialLibraries: string[];
 
-	constructor(objText: String) {
-		const objFileParser = new ObjFileParser(objText);
-		const objFile = objFileParser.parse();
-		this._vertexPositions = new Float32Array(objFile.models[0].vertices.flatMap(v => [v.x, v.y, v.z]));
+	constructor(objText: string, options: IObjLoadOptions = {}) {
+		const objFile = new ObjFileParser(ObjDataExtractor._absoluteFaceIndices(objText)).parse();
+		// OBJ indices are global across objects, so resolve them against the attributes of every model
+		const positions = objFile.models.flatMap(model => model.vertices);
+		const textureCoords = objFile.models.flatMap(model => model.textureCoords);
+		const vertexNormals = objFile.models.flatMap(model => model.vertexNormals);
 
-		const indices: number[] = [];
-		const normals: number[] = Array(this._vertexPositions.length).fill(0);
-        const uvs: number[] = Array((this._vertexPositions.length / 3) * 2).fill(0);
-
-		for (const face of objFile.models[0].faces) {
-			let points = [];
-			let facet_indices = [];
-			for (const v of face.vertices) {
-				const index = v.vertexIndex - 1;
-				indices.push(index);
+		const objFaces = objFile.models.flatMap(model => model.faces);
+		const faces: IObjFace[] = objFaces.map(face => {
+			const corners = face.vertices.map(v => ({
+				position: this._resolveIndex(v.vertexIndex, positions.length),
+				uv: this._resolveIndex(v.textureCoordsIndex, textureCoords.length),
+				normal: options.generateNormals ? -1 : this._resolveIndex(v.vertexNormalIndex, vertexNormals.length),
+			}));
+			return {
+				corners,
+				normal: this._faceNormal(corners.map(corner => positions[corner.position])),
+				smoothingGroup: face.smoothingGroup,
+				material: face.material ?? "",
+			};
+		});
+		const generatedNormal = this._createNormalGenerator(faces, options.creaseAngle ?? 180);
+
+		const vertexIds = new Map<string, number>();
+		const corners: IObjCorner[] = [];
+		const indicesByMaterial = new Map<string, number[]>();
+		faces.forEach((face, faceIndex) => {
+			const faceIndices = face.corners.map(corner => {
+				let normal: glMatrix.vec3;
+				if (corner.normal >= 0) {
+					const authored = vertexNormals[corner.normal];
+					normal = glMatrix.vec3.normalize(glMatrix.vec3.create(), [authored.x, authored.y, authored.z]);
+				} else {
+					normal = generatedNormal(faceIndex, corner.position);
+				}
 
-				const vertex = glMatrix.vec3.fromValues(
-                    this._vertexPositions[index * 3], 
-                    this._vertexPositions[index * 3 + 1], 
-                    this._vertexPositions[index * 3 + 2]
-                );
-
-				points.push(vertex);
-				facet_indices.push(index);
-
-                // Extract UV coordinates if they exist
-                if (v.textureCoordsIndex !== undefined && objFile.models[0].textureCoords) {
-                    const uvIndex = v.textureCoordsIndex - 1;
-                    if (uvIndex >= 0 && uvIndex < objFile.models[0].textureCoords.length) {
-                        const uv = objFile.models[0].textureCoords[uvIndex];
-                        uvs[index * 2] = uv.u;
-                        uvs[index * 2 + 1] = uv.v;
-                    }
-                }
+				// Generated normals have no index, so corners are told apart by the normal itself
+				const normalKey = Array.from(normal, value => value.toFixed(ObjDataExtractor.NORMAL_KEY_PRECISION)).join(",");
+				const key = `${corner.position}/${corner.uv}/${normalKey}`;
+				let id = vertexIds.get(key);
+				if (id === undefined) {
+					id = corners.length;
+					vertexIds.set(key, id);
+					corners.push({ position: corner.position, uv: corner.uv, normal });
+				}
+				return id;
+			});
+			const indices = indicesByMaterial.get(face.material) ?? [];
+			indicesByMaterial.set(face.material, indices);
+			for (let i = 1; i < faceIndices.length - 1; i++) {
+				indices.push(faceIndices[0], faceIndices[i], faceIndices[i + 1]);
 			}
+		});
 
-			const v1 = glMatrix.vec3.subtract(glMatrix.vec3.create(), points[1], points[0]);
-			const v2 = glMatrix.vec3.subtract(glMatrix.vec3.create(), points[2], points[0]);
-			const cross = glMatrix.vec3.cross(glMatrix.vec3.create(), v1, v2);
-			const normal = glMatrix.vec3.normalize(glMatrix.vec3.create(), cross);
+		const indices: number[] = [];
+		this._submeshes = [];
+		for (const [material, materialIndices] of indicesByMaterial) {
+			this._submeshes.push({ material, indexOffset: indices.length, indexCount: materialIndices.length });
+			for (const index of materialIndices) {
+				indices.push(index);
+			}
+		}
+		this._materialLibraries = objFile.materialLibraries;
 
-			for (let i of facet_indices) {
-				normals[i*3] += normal[0];
-				normals[i*3 + 1] += normal[1];
-				normals[i*3 + 2] += normal[2];
+		this._vertexPositions = new Float32Array(corners.length * 3);
+		this._normals = new Float32Array(corners.length * 3);
+		this._uvs = new Float32Array(corners.length * 2);
+		corners.forEach((corner, i) => {
+			const position = positions[corner.position];
+			this._vertexPositions.set([position.x, position.y, position.z], i * 3);
+			this._normals.set(corner.normal, i * 3);
+			if (corner.uv >= 0) {
+				const uv = textureCoords[corner.uv];
+				// OBJ's v runs up from the bottom of the image, WebGPU samples from the top row down
+				this._uvs.set([uv.u, 1 - uv.v], i * 2);
 			}
+		});
+		this._indices = createIndexArray(indices, corners.length);
+		if (options.computeTangents) {
+			this._tangents = computeTangents(this._vertexPositions, this._normals, this._uvs, this._indices);
 		}
-		this._normals = new Float32Array(normals);
-        this._uvs = new Float32Array(uvs);
-		this._indices = new Uint16Array(indices);
 	}
 
 	public get vertexPositions(): Float32Array {
 		return this._vertexPositions;
 	}
 
-	public get indices(): Uint16Array {
+	public get indices(): Uint16Array | Uint32Array {
 		return this._indices;
 	}
 
+	public get submeshes(): IMeshSubmesh[] {
+		return this._submeshes;
+	}
+
+	/**
+	 * mtllib file names, relative to the OBJ file.
+	 */
+	public get materialLibraries(): string[] {
+		return this._materialLibraries;
+	}
+
+	public get indexFormat(): GPUIndexFormat {
+		return this._indices instanceof Uint32Array ? "uint32" : "uint16";
+	}
+
 	public get normals(): Float32Array {
 		return this._normals;
 	}
 
-    public get uvs(): Float32Array {
-        return this._uvs;
-    }
+	public get uvs(): Float32Array {
+		return this._uvs;
+	}
+
+	public get tangents(): Float32Array | undefined {
+		return this._tangents;
+	}
+
+	/**
+	 * Rewrites negative face indices, which count back from the last attribute declared before the face, as 1-based
+	 * ones. The parser only sees the attributes once all of them are declared (and counts vertices per object).
+	 */
+	private static _absoluteFaceIndices(objText: string): string {
+		// Declared so far of each attribute, in the order a face corner (v/vt/vn) references them
+		const counts = [0, 0, 0];
+		return objText.split("\n").map(line => {
+			const items = line.split("#")[0].trim().split(/\s+/);
+			const keyword = items[0].toLowerCase();
+			const attribute = ["v", "vt", "vn"].indexOf(keyword);
+			if (attribute >= 0) {
+				counts[attribute]++;
+				return line;
+			}
+			if (keyword !== "f") {
+				return line;
+			}
+			const corners = items.slice(1).map(corner => corner.split("/").map((value, i) => {
+				const index = parseInt(value);
+				return index < 0 ? String(counts[i] + index + 1) : value;
+			}).join("/"));
+			return [items[0], ...corners].join(" ");
+		}).join("\n");
+	}
+
+	/**
+	 * Zero-based index of a 1-based OBJ index, or -1 if the attribute is absent.
+	 */
+	private _resolveIndex(index: number | undefined, count: number): number {
+		if (!index) {
+			return -1;
+		}
+		const resolved = index - 1;
+		if (resolved < 0 || resolved >= count) {
+			throw new Error(`OBJ face references index ${index}, but only ${count} are defined`);
+		}
+		return resolved;
+	}
+
+	/**
+	 * Unit normal of a polygon with Newell's method, which also works for n-gons that aren't quite planar.
+	 */
+	private _faceNormal(points: { x: number, y: number, z: number }[]): glMatrix.vec3 {
+		const normal = glMatrix.vec3.create();
+		for (let i = 0; i < points.length; i++) {
+			const current = points[i];
+			const next = points[(i + 1) % points.length];
+			normal[0] += (current.y - next.y) * (current.z + next.z);
+			normal[1] += (current.z - next.z) * (current.x + next.x);
+			normal[2] += (current.x - next.x) * (current.y + next.y);
+		}
+		return glMatrix.vec3.normalize(normal, normal);
+	}
+
+	/**
+	 * Returns the normal of a face's corner: the average of the normals of the faces around that position which are in
+	 * the face's smoothing group and within the crease angle of it, or the face normal in smoothing group 0.
+	 */
+	private _createNormalGenerator(faces: IObjFace[], creaseAngle: number): (faceIndex: number, position: number) => glMatrix.vec3 {
+		const facesByPosition = new Map<number, number[]>();
+		faces.forEach((face, faceIndex) => {
+			for (const corner of face.corners) {
+				const adjacent = facesByPosition.get(corner.position) ?? [];
+				adjacent.push(faceIndex);
+				facesByPosition.set(corner.position, adjacent);
+			}
+		});
+		const minCosine = Math.cos(glMatrix.glMatrix.toRadian(Math.min(creaseAngle, 180)));
+
+		return (faceIndex, position) => {
+			const face = faces[faceIndex];
+			if (face.smoothingGroup === 0) {
+				return face.normal;
+			}
+			const normal = glMatrix.vec3.create();
+			for (const adjacentIndex of new Set(facesByPosition.get(position))) {
+				const adjacent = faces[adjacentIndex];
+				if (adjacent.smoothingGroup === face.smoothingGroup && glMatrix.vec3.dot(adjacent.normal, face.normal) >= minCosine) {
+					glMatrix.vec3.add(normal, normal, adjacent.normal);
+				}
+			}
+			// Opposite faces sharing a position can cancel out
+			return glMatrix.vec3.length(normal) > 0 ? glMatrix.vec3.normalize(normal, normal) : face.normal;
+		};
+	}
 }
@@ -0,0 +1,136 @@
+import type { BindGroupResource, WebGPUContext } from "../core/webgpu-context";
+import { RenderGraph, type RenderGraphTextureSize } from "../core/render-graph";
+import { UniformStructLayout } from "../core/uniform-struct";
+import structureTensorWgsl from "../shaders/oil_paint/structure_tensor.wgsl?raw";
+import tensorBlurWgsl from "../shaders/oil_paint/tensor_blur.wgsl?raw";
+import kuwaharaWgsl from "../shaders/oil_paint/kuwahara.wgsl?raw";
+import presentWgsl from "../shaders/oil_paint/present.wgsl?raw";
+
+export interface IOilPaintOptions {
+    /** Radius of each pixel's neighbourhood in pixels, before it's stretched along the edges. */
+    radius?: number;
+    /** How strongly the most uniform parts of the neighbourhood win; higher values give crisper strokes. */
+    sharpness?: number;
+    /** Number of sectors the neighbourhood is split into. */
+    sectors?: number;
+}
+
+const DEFAULT_RADIUS = 6;
+const DEFAULT_SHARPNESS = 8;
+const DEFAULT_SECTORS = 8;
+// Kept in sync with MAX_SECTORS in kuwahara.wgsl
+export const MIN_SECTORS = 3;
+export const MAX_SECTORS = 16;
+
+// Storage textures can't be 8-bit BGRA like the canvas, so the filter works in half floats throughout
+const STORAGE_FORMAT: GPUTextureFormat = "rgba16float";
+const WORKGROUP_SIZE = 8;
+
+/**
+ * Oil paint look from the anisotropic Kuwahara filter, as compute passes over any render graph texture, e.g. a
+ * scene's shaded output or an imported image: the structure tensor of the input, smoothed with a separable
+ * Gaussian, steers sector-weighted averaging over elliptical neighbourhoods that follow the image's edges.
+ */
+export class OilPaintFilter {
+    private _webGpuContext: WebGPUContext;
+    private _params: GPUBuffer;
+    private _horizontal: GPUBuffer;
+    private _vertical: GPUBuffer;
+
+    constructor(webGpuContext: WebGPUContext, options: IOilPaintOptions = {}) {
+        const radius = options.radius ?? DEFAULT_RADIUS;
+        const sectors = options.sectors ?? DEFAULT_SECTORS;
+        if (!(radius >= 1)) {
+            throw new Error(`Oil paint radius must be at least 1 pixel, got ${radius}`);
+        }
+        if (!Number.isInteger(sectors) || sectors < MIN_SECTORS || sectors > MAX_SECTORS) {
+            throw new Error(`Oil paint sectors must be a whole number from ${MIN_SECTORS} to ${MAX_SECTORS}, got ${sectors}`);
+        }
+        this._webGpuContext = webGpuContext;
+        const params = new UniformStructLayout({ radius: "f32", sharpness: "f32", sectors: "u32" }).createWriter()
+            .set("radius", radius)
+            .set("sharpness", options.sharpness ?? DEFAULT_SHARPNESS)
+            .set("sectors", sectors);
+        this._params = webGpuContext.createGPUBuffer(params.data, GPUBufferUsage.UNIFORM);
+        this._horizontal = webGpuContext.createGPUBuffer(Float32Array.of(1, 0), GPUBufferUsage.UNIFORM);
+        this._vertical = webGpuContext.createGPUBuffer(Float32Array.of(0, 1), GPUBufferUsage.UNIFORM);
+    }
+
+    /**
+     * Adds the filter's passes to `renderGraph`. They paint `input` at `size` and draw the result into `output`,
+     * scaled to fit it. Uses per-frame uniforms, so call uniforms.beginFrame() before the graph executes.
+     */
+    public addPasses(renderGraph: RenderGraph, input: string, output: string = RenderGraph.BACKBUFFER, size: RenderGraphTextureSize = "canvas"): RenderGraph {
+        const sampler = this._webGpuContext.createSampler("linear-clamp");
+        return renderGraph
+            .createTexture("oilTensor", { format: STORAGE_FORMAT, size })
+            .createTexture("oilTensorBlurredH", { format: STORAGE_FORMAT, size })
+            .createTexture("oilTensorBlurred", { format: STORAGE_FORMAT, size })
+            .createTexture("oilPainted", { format: STORAGE_FORMAT, size })
+            .addComputePass({
+                name: "oilStructureTensor",
+                inputs: [input],
+                storageOutputs: ["oilTensor"],
+                execute: (passEncoder, resources) => this._dispatch(passEncoder, structureTensorWgsl, resources.getTexture("oilTensor"), {
+                    source: resources.getView(input),
+                    tensor: resources.getView("oilTensor"),
+                }),
+            })
+            .addComputePass({
+                name: "oilTensorBlurH",
+                inputs: ["oilTensor"],
+                storageOutputs: ["oilTensorBlurredH"],
+                execute: (passEncoder, resources) => this._dispatch(passEncoder, tensorBlurWgsl, resources.getTexture("oilTensorBlurredH"), {
+                    direction: this._horizontal,
+                    source: resources.getView("oilTensor"),
+                    blurred: resources.getView("oilTensorBlurredH"),
+                }),
+            })
+            .addComputePass({
+                name: "oilTensorBlurV",
+                inputs: ["oilTensorBlurredH"],
+                storageOutputs: ["oilTensorBlurred"],
+                execute: (passEncoder, resources) => this._dispatch(passEncoder, tensorBlurWgsl, resources.getTexture("oilTensorBlurred"), {
+                    direction: this._vertical,
+                    source: resources.getView("oilTensorBlurredH"),
+                    blurred: resources.getView("oilTensorBlurred"),
+                }),
+            })
+            .addComputePass({
+                name: "oilKuwahara",
+                inputs: [input, "oilTensorBlurred"],
+                storageOutputs: ["oilPainted"],
+                execute: (passEncoder, resources) => this._dispatch(passEncoder, kuwaharaWgsl, resources.getTexture("oilPainted"), {
+                    params: this._params,
+                    source: resources.getView(input),
+                    tensor: resources.getView("oilTensorBlurred"),
+                    painted: resources.getView("oilPainted"),
+                }),
+            })
+            .addPass({
+                name: "oilPresent",
+                inputs: ["oilPainted"],
+                colorAttachments: [{ texture: output, clearValue: { r: 0.0, g: 0.0, b: 0.0, a: 1.0 } }],
+                execute: (passEncoder, resources) => {
+                    const painted = resources.getTexture("oilPainted");
+                    const target = resources.getTexture(output);
+                    const fit = Math.min(target.width / painted.width, target.height / painted.height);
+                    const bindGroup = this._webGpuContext.createBindGroup(presentWgsl, {
+                        scale: { ...this._webGpuContext.uniforms.allocate(Float32Array.of(painted.width * fit / target.width, painted.height * fit / target.height)), hasDynamicOffset: true },
+                        painted: resources.getView("oilPainted"),
+                        s_painted: sampler,
+                    });
+                    passEncoder.setPipeline(this._webGpuContext.createPipeline(this._webGpuContext.createShaderModule(presentWgsl), [], [bindGroup.bindGroupLayout], [target.format]));
+                    passEncoder.setBindGroup(0, bindGroup.bindGroup, bindGroup.dynamicOffsets);
+                    passEncoder.draw(3);
+                },
+            });
+    }
+
+    private _dispatch(passEncoder: GPUComputePassEncoder, shaderSource: string, target: GPUTexture, resources: Record<string, BindGroupResource>) {
+        const bindGroup = this._webGpuContext.createBindGroup(shaderSource, resources);
+        passEncoder.setPipeline(this._webGpuContext.createComputePipeline(this._webGpuContext.createShaderModule(shaderSource), [bindGroup.bindGroupLayout]));
+        passEncoder.setBindGroup(0, bindGroup.bindGroup);
+        passEncoder.dispatchWorkgroups(Math.ceil(target.width / WORKGROUP_SIZE), Math.ceil(target.height / WORKGROUP_SIZE));
+    }
+}
@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createMockContext, type IMockContext } from "../testing/mock-context";
+import type { IMockRenderPass } from "../testing/mock-gpu";
+import { InstancedRenderer } from "./instancedRenderer";
+import { PhongShader } from "./phongShader";
+import renderObjModelScene from "../scenes/obj_model";
+import renderOilPaintScene from "../scenes/oil_paint";
+
+describe("PhongShader", () => {
+    let mock: IMockContext;
+
+    beforeEach(async () => {
+        mock = await createMockContext({ msaa: 4 });
+    });
+
+    afterEach(() => {
+        mock.webGpuContext.destroy();
+    });
+
+    it("rejects an empty material list", () => {
+        const renderer = new InstancedRenderer(mock.webGpuContext, ["position", "normal", "uv", "tangent"]);
+        expect(() => new PhongShader(mock.webGpuContext, renderer, [])).toThrow("Phong shading needs at least one material");
+    });
+
+    it.each([
+        ["obj_model", renderObjModelScene],
+        ["oil_paint", renderOilPaintScene],
+    ] as const)("shades the %s scene's models in a multisampled pass", async (_, renderScene) => {
+        await mock.webGpuContext.runScene(renderScene);
+        await mock.backend.frameScheduler.step();
+
+        const phongPass = mock.backend.recorder.lastSubmission!.passes[0] as IMockRenderPass;
+        expect(phongPass).toMatchObject({ label: "phong", colorFormats: ["bgra8unorm"], depthFormat: "depth24plus-stencil8", sampleCount: 4 });
+        expect(phongPass.draws.map(draw => draw.instanceCount)).toEqual([1]);
+    });
+});
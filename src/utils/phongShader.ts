@@ -0,0 +1,90 @@
+import * as glMatrix from "gl-matrix";
+import type { IShaderBindGroup, WebGPUContext } from "../core/webgpu-context";
+import type { RenderGraph } from "../core/render-graph";
+import { UniformStructLayout } from "../core/uniform-struct";
+import { instancedShader, type InstancedRenderer } from "./instancedRenderer";
+import type { IModelMaterial } from "./model";
+import objModelSource from "../shaders/obj_model.wgsl?raw";
+
+const objModelWgsl = instancedShader(objModelSource);
+
+export interface IPhongCamera {
+    view: glMatrix.ReadonlyMat4;
+    projection: glMatrix.ReadonlyMat4;
+    /** World-space direction the camera looks in, e.g. Arcball.forward. The light shines along it. */
+    forward: glMatrix.ReadonlyVec3 | glMatrix.ReadonlyVec4;
+}
+
+const DEPTH_FORMAT: GPUTextureFormat = "depth24plus-stencil8";
+
+/**
+ * Phong shading of the models an InstancedRenderer draws, lit from the camera, with each material's colors,
+ * diffuse texture and normal map.
+ */
+export class PhongShader {
+    private _webGpuContext: WebGPUContext;
+    private _renderer: InstancedRenderer;
+    private _materialBindGroups: Map<IModelMaterial, IShaderBindGroup>;
+
+    /**
+     * @param materials Every material the renderer draws.
+     */
+    constructor(webGpuContext: WebGPUContext, renderer: InstancedRenderer, materials: IModelMaterial[]) {
+        if (materials.length === 0) {
+            throw new Error("Phong shading needs at least one material");
+        }
+        this._webGpuContext = webGpuContext;
+        this._renderer = renderer;
+
+        const materialLayout = new UniformStructLayout({ diffuse: "vec3f", shininess: "f32", specular: "vec3f", normalScale: "f32", normalMapped: "u32" });
+        const sampler = webGpuContext.createSampler("anisotropic-repeat");
+        this._materialBindGroups = new Map(materials.map(material => {
+            const materialUniforms = materialLayout.createWriter()
+                .set("diffuse", material.diffuseColor)
+                .set("shininess", material.shininess)
+                .set("specular", material.specularColor)
+                .set("normalScale", material.bumpScale)
+                .set("normalMapped", material.normalMapped ? 1 : 0);
+            return [material, webGpuContext.createBindGroup(objModelWgsl, {
+                material: webGpuContext.createGPUBuffer(materialUniforms.data, GPUBufferUsage.UNIFORM),
+                t_diffuse: material.diffuseTexture,
+                s_diffuse: sampler,
+                t_normal: material.normalTexture,
+            }, 1)];
+        }));
+    }
+
+    /**
+     * Adds a multisampled pass named "phong" to `renderGraph`, which clears `output` to `clearValue` and draws the
+     * models into it. The renderer must have been updated for the frame before the graph executes.
+     */
+    public addPass(renderGraph: RenderGraph, camera: () => IPhongCamera, output: string, clearValue: GPUColor): RenderGraph {
+        const materialBindGroupLayout = [...this._materialBindGroups.values()][0].bindGroupLayout;
+        return renderGraph
+            .createTexture("phongDepth", { format: DEPTH_FORMAT })
+            .addPass({
+                name: "phong",
+                colorAttachments: [{ texture: output, clearValue }],
+                depthStencilAttachment: { texture: "phongDepth", depthClearValue: 1 },
+                multisampled: true,
+                execute: (passEncoder, resources) => {
+                    const { view, projection, forward } = camera();
+                    const normalMatrix = glMatrix.mat4.transpose(glMatrix.mat4.create(), glMatrix.mat4.invert(glMatrix.mat4.create(), view));
+                    const viewDirection = Float32Array.of(-forward[0], -forward[1], -forward[2]);
+
+                    const uniform = (data: Float32Array) => ({ ...this._webGpuContext.uniforms.allocate(data), hasDynamicOffset: true });
+                    const bindGroup = this._webGpuContext.createBindGroup(objModelWgsl, {
+                        viewMatrix: uniform(Float32Array.from(view)),
+                        projection: uniform(Float32Array.from(projection)),
+                        normalMatrix: uniform(Float32Array.from(normalMatrix)),
+                        lightDirection: uniform(viewDirection),
+                        viewDirection: uniform(viewDirection),
+                        instances: this._renderer.instanceBuffer,
+                    });
+                    passEncoder.setPipeline(this._webGpuContext.createPipeline(this._webGpuContext.createShaderModule(objModelWgsl), this._renderer.vertexBufferLayouts, [bindGroup.bindGroupLayout, materialBindGroupLayout], [resources.getTexture(output).format], undefined, DEPTH_FORMAT, resources.sampleCount));
+                    passEncoder.setBindGroup(0, bindGroup.bindGroup, bindGroup.dynamicOffsets);
+                    this._renderer.draw(passEncoder, material => passEncoder.setBindGroup(1, this._materialBindGroups.get(material)!.bindGroup));
+                },
+            });
+    }
+}
@@ -0,0 +1,57 @@
+import * as glMatrix from "gl-matrix";
+import { describe, expect, it } from "vitest";
+import type { Model } from "./model";
+import { SceneGraph, SceneNode } from "./sceneGraph";
+
+// Only bounds are read from the models here
+const createModel = (min: glMatrix.vec3, max: glMatrix.vec3) => ({ bounds: { min, max } }) as unknown as Model;
+
+function transformPoint(matrix: glMatrix.ReadonlyMat4, point: glMatrix.ReadonlyVec3): number[] {
+    return Array.from(glMatrix.vec3.transformMat4(glMatrix.vec3.create(), point, matrix), value => Math.round(value * 1e4) / 1e4 + 0);
+}
+
+describe("SceneGraph", () => {
+    it("scales, then rotates, then translates each node, and applies the parent's transform after the child's", () => {
+        const graph = new SceneGraph();
+        const parent = graph.add(new SceneNode("parent", undefined, {
+            translation: [10, 0, 0],
+            rotation: glMatrix.quat.setAxisAngle(glMatrix.quat.create(), [0, 0, 1], Math.PI / 2),
+        }));
+        const child = parent.addChild(new SceneNode("child", undefined, { translation: [1, 0, 0], scale: [2, 2, 2] }));
+        graph.update();
+
+        expect(transformPoint(child.localMatrix, [1, 0, 0])).toEqual([3, 0, 0]);
+        // (1, 0, 0) is scaled to (2, 0, 0), moved to (3, 0, 0), turned to (0, 3, 0) and moved to (10, 3, 0)
+        expect(transformPoint(child.worldMatrix, [1, 0, 0])).toEqual([10, 3, 0]);
+
+        parent.setTransform({ translation: [0, 0, 5] });
+        graph.update();
+        expect(transformPoint(child.worldMatrix, [1, 0, 0])).toEqual([0, 3, 5]);
+    });
+
+    it("moves nodes between parents and rejects cycles", () => {
+        const graph = new SceneGraph();
+        const first = graph.add(new SceneNode("first"));
+        const second = graph.add(new SceneNode("second"));
+        const child = first.addChild(new SceneNode("child"));
+
+        second.addChild(child);
+        expect(first.children).toEqual([]);
+        expect(child.parent).toBe(second);
+        expect(() => child.addChild(second)).toThrow('Can\'t add "second" below itself');
+    });
+
+    it("batches the nodes of each model in order of first appearance, and bounds them all", () => {
+        const cube = createModel([-1, -1, -1], [1, 1, 1]);
+        const plane = createModel([-1, -1, 0], [1, 1, 0]);
+        const graph = new SceneGraph();
+        const a = graph.add(new SceneNode("a", plane));
+        const b = graph.add(new SceneNode("b", cube, { translation: [4, 0, 0] }));
+        const c = a.addChild(new SceneNode("c", cube, { translation: [-4, 0, 0] }));
+
+        expect(graph.update()).toEqual([{ model: plane, nodes: [a] }, { model: cube, nodes: [c, b] }]);
+        expect(Array.from(graph.bounds.center)).toEqual([0, 0, 0]);
+        expect(graph.bounds.radius).toBeCloseTo(Math.sqrt(5 * 5 + 1 + 1));
+        expect(new SceneGraph().bounds.radius).toBe(0);
+    });
+});
@@ -0,0 +1,198 @@
+import * as glMatrix from "gl-matrix";
+import type { Model } from "./model";
+import type { IBoundingSphere } from "./arcball";
+
+export interface ITransform {
+    translation?: glMatrix.ReadonlyVec3;
+    rotation?: glMatrix.ReadonlyQuat;
+    scale?: glMatrix.ReadonlyVec3;
+}
+
+/**
+ * Nodes drawing the same model, which are drawn together as one instanced draw per submesh.
+ */
+export interface IInstanceBatch {
+    model: Model;
+    nodes: SceneNode[];
+}
+
+/**
+ * A node of a SceneGraph: a translation/rotation/scale relative to its parent, and optionally a model to draw there.
+ */
+export class SceneNode {
+    public name: string;
+    public model?: Model;
+    public translation: glMatrix.vec3;
+    public rotation: glMatrix.quat;
+    public scale: glMatrix.vec3;
+    private _parent?: SceneNode;
+    private _children: SceneNode[];
+    private _worldMatrix: glMatrix.mat4;
+
+    constructor(name: string = "", model?: Model, transform: ITransform = {}) {
+        this.name = name;
+        this.model = model;
+        this.translation = glMatrix.vec3.create();
+        this.rotation = glMatrix.quat.create();
+        this.scale = glMatrix.vec3.fromValues(1, 1, 1);
+        this._children = [];
+        this._worldMatrix = glMatrix.mat4.create();
+        this.setTransform(transform);
+    }
+
+    public get parent(): SceneNode | undefined {
+        return this._parent;
+    }
+
+    public get children(): readonly SceneNode[] {
+        return this._children;
+    }
+
+    /**
+     * Moves `child` under this node, detaching it from its previous parent. Returns the child.
+     */
+    public addChild(child: SceneNode): SceneNode {
+        child.traverse(node => {
+            if (node === this) {
+                throw new Error(`Can't add "${child.name}" below itself`);
+            }
+        });
+        child._parent?.removeChild(child);
+        child._parent = this;
+        this._children.push(child);
+        return child;
+    }
+
+    public removeChild(child: SceneNode) {
+        const index = this._children.indexOf(child);
+        if (index >= 0) {
+            this._children.splice(index, 1);
+            child._parent = undefined;
+        }
+    }
+
+    public setTransform(transform: ITransform): this {
+        if (transform.translation) {
+            glMatrix.vec3.copy(this.translation, transform.translation);
+        }
+        if (transform.rotation) {
+            glMatrix.quat.copy(this.rotation, transform.rotation);
+        }
+        if (transform.scale) {
+            glMatrix.vec3.copy(this.scale, transform.scale);
+        }
+        return this;
+    }
+
+    public get localMatrix(): glMatrix.mat4 {
+        return glMatrix.mat4.fromRotationTranslationScale(glMatrix.mat4.create(), this.rotation, this.translation, this.scale);
+    }
+
+    /**
+     * Node-to-world transform as of the last SceneGraph.update().
+     */
+    public get worldMatrix(): glMatrix.ReadonlyMat4 {
+        return this._worldMatrix;
+    }
+
+    /**
+     * Calls `visit` for this node and then its descendants, depth first.
+     */
+    public traverse(visit: (node: SceneNode) => void) {
+        visit(this);
+        for (const child of this._children) {
+            child.traverse(visit);
+        }
+    }
+
+    /**
+     * Recomputes the world transforms of this node and its descendants, assuming the parent's is up to date.
+     */
+    public updateWorldMatrices() {
+        const localMatrix = this.localMatrix;
+        if (this._parent) {
+            glMatrix.mat4.multiply(this._worldMatrix, this._parent._worldMatrix, localMatrix);
+        } else {
+            glMatrix.mat4.copy(this._worldMatrix, localMatrix);
+        }
+        for (const child of this._children) {
+            child.updateWorldMatrices();
+        }
+    }
+}
+
+/**
+ * A hierarchy of nodes, rendered with an InstancedRenderer. Nodes are plain objects that can be moved at any time;
+ * call update() once per frame to recompute world transforms.
+ */
+export class SceneGraph {
+    private _root: SceneNode;
+    private _batches: IInstanceBatch[];
+
+    constructor() {
+        this._root = new SceneNode("root");
+        this._batches = [];
+    }
+
+    public get root(): SceneNode {
+        return this._root;
+    }
+
+    /**
+     * Adds a node under the root. Returns the node.
+     */
+    public add(node: SceneNode): SceneNode {
+        return this._root.addChild(node);
+    }
+
+    /**
+     * Recomputes world transforms and regroups the nodes with a model by model, in order of first appearance.
+     */
+    public update(): IInstanceBatch[] {
+        this._root.updateWorldMatrices();
+        const batches = new Map<Model, SceneNode[]>();
+        this._root.traverse(node => {
+            if (node.model) {
+                const nodes = batches.get(node.model) ?? [];
+                nodes.push(node);
+                batches.set(node.model, nodes);
+            }
+        });
+        this._batches = [...batches].map(([model, nodes]) => ({ model, nodes }));
+        return this._batches;
+    }
+
+    /**
+     * Batches as of the last update().
+     */
+    public get batches(): IInstanceBatch[] {
+        return this._batches;
+    }
+
+    /**
+     * World-space bounds of every model, as of the last update(): the box around the models' transformed boxes, and
+     * the sphere around that box.
+     */
+    public get bounds(): IBoundingSphere {
+        const min = glMatrix.vec3.fromValues(Infinity, Infinity, Infinity);
+        const max = glMatrix.vec3.fromValues(-Infinity, -Infinity, -Infinity);
+        for (const { model, nodes } of this._batches) {
+            const { min: modelMin, max: modelMax } = model.bounds;
+            for (const node of nodes) {
+                for (let corner = 0; corner < 8; corner++) {
+                    const point = glMatrix.vec3.fromValues(
+                        corner & 1 ? modelMax[0] : modelMin[0],
+                        corner & 2 ? modelMax[1] : modelMin[1],
+                        corner & 4 ? modelMax[2] : modelMin[2]);
+                    glMatrix.vec3.transformMat4(point, point, node.worldMatrix);
+                    glMatrix.vec3.min(min, min, point);
+                    glMatrix.vec3.max(max, max, point);
+                }
+            }
+        }
+        if (min[0] > max[0]) {
+            return { center: glMatrix.vec3.create(), radius: 0 };
+        }
+        return { center: glMatrix.vec3.lerp(glMatrix.vec3.create(), min, max, 0.5), radius: glMatrix.vec3.distance(min, max) / 2 };
+    }
+}
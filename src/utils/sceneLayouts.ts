@@ -0,0 +1,91 @@
+import * as glMatrix from "gl-matrix";
+import type { WebGPUContext } from "../core/webgpu-context";
+import { Model } from "./model";
+import { createBoxMesh } from "./meshData";
+import { SceneGraph, SceneNode } from "./sceneGraph";
+
+/**
+ * How the scenes arrange their model: alone, on a table with props, or as a grid of 1,000 instances.
+ */
+export type SceneLayout = "single" | "table" | "instanced";
+
+export const SCENE_LAYOUTS: SceneLayout[] = ["single", "table", "instanced"];
+
+const WOOD_COLOR: [number, number, number] = [0.55, 0.35, 0.2];
+const GRID_SIZE = 10;
+
+/**
+ * Builds a scene graph around `model`. Layouts are z-up and sized by the model's bounds, so they work for any model.
+ */
+export async function buildSceneLayout(webGpuContext: WebGPUContext, model: Model, layout: SceneLayout): Promise<SceneGraph> {
+    const graph = new SceneGraph();
+    if (layout === "single") {
+        graph.add(new SceneNode("model", model));
+    } else if (layout === "table") {
+        await buildTable(webGpuContext, graph, model);
+    } else {
+        buildGrid(graph, model);
+    }
+    graph.update();
+    return graph;
+}
+
+async function buildTable(webGpuContext: WebGPUContext, graph: SceneGraph, model: Model) {
+    const { min, center, radius } = model.bounds;
+    const height = radius * 1.5;
+    const thickness = radius * 0.1;
+    const width = radius * 3;
+    const depth = radius * 2;
+    const wood = { defaultMaterial: { diffuseColor: WOOD_COLOR, diffuseMap: undefined } };
+
+    const table = graph.add(new SceneNode("table"));
+    const top = await Model.fromMesh(webGpuContext, createBoxMesh(width, depth, thickness), wood);
+    table.addChild(new SceneNode("top", top, { translation: [0, 0, height - thickness / 2] }));
+    const leg = await Model.fromMesh(webGpuContext, createBoxMesh(thickness, thickness, height - thickness), wood);
+    for (const [x, y] of [[-1, -1], [1, -1], [1, 1], [-1, 1]]) {
+        const translation = glMatrix.vec3.fromValues(x * (width - thickness) / 2, y * (depth - thickness) / 2, (height - thickness) / 2);
+        table.addChild(new SceneNode("leg", leg, { translation }));
+    }
+
+    // Everything on the table is a child of its surface, so moving the table moves them too
+    const surface = table.addChild(new SceneNode("surface", undefined, { translation: [0, 0, height] }));
+    surface.addChild(new SceneNode("model", model, { translation: [-center[0], -center[1], -min[2]] }));
+    const propScale = 0.3;
+    for (const [x, y, angle] of [[-1.1, -0.6, 2.4], [1.1, 0.5, -0.8]]) {
+        const rotation = glMatrix.quat.setAxisAngle(glMatrix.quat.create(), [0, 0, 1], angle);
+        // The point of the scaled and rotated model that has to end up at (x, y) on the surface
+        const pivot = glMatrix.vec3.fromValues(center[0] * propScale, center[1] * propScale, min[2] * propScale);
+        glMatrix.vec3.transformQuat(pivot, pivot, rotation);
+        surface.addChild(new SceneNode("prop", model, {
+            translation: [x * radius - pivot[0], y * radius - pivot[1], -pivot[2]],
+            rotation,
+            scale: [propScale, propScale, propScale],
+        }));
+    }
+    const boxSize = radius * 0.35;
+    const box = await Model.fromMesh(webGpuContext, createBoxMesh(boxSize, boxSize, boxSize));
+    const stack = surface.addChild(new SceneNode("boxes", undefined, { translation: [radius * 1.1, -radius * 0.6, 0] }));
+    stack.addChild(new SceneNode("box", box, { translation: [0, 0, boxSize / 2] }));
+    stack.addChild(new SceneNode("box", box, {
+        translation: [0, 0, boxSize * 1.5],
+        rotation: glMatrix.quat.setAxisAngle(glMatrix.quat.create(), [0, 0, 1], 0.5),
+    }));
+}
+
+function buildGrid(graph: SceneGraph, model: Model) {
+    const { center, radius } = model.bounds;
+    const spacing = radius * 2.5;
+    const offset = (GRID_SIZE - 1) / 2;
+    for (let x = 0; x < GRID_SIZE; x++) {
+        for (let y = 0; y < GRID_SIZE; y++) {
+            for (let z = 0; z < GRID_SIZE; z++) {
+                const rotation = glMatrix.quat.setAxisAngle(glMatrix.quat.create(), [0, 0, 1], Math.random() * Math.PI * 2);
+                // Rotate about the model's center rather than its origin
+                const pivot = glMatrix.vec3.transformQuat(glMatrix.vec3.create(), center, rotation);
+                const translation = glMatrix.vec3.fromValues((x - offset) * spacing, (y - offset) * spacing, (z - offset) * spacing);
+                glMatrix.vec3.subtract(translation, translation, pivot);
+                graph.add(new SceneNode(`instance ${x},${y},${z}`, model, { translation, rotation }));
+            }
+        }
+    }
+}
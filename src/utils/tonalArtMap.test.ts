@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { generateTonalArtMap } from "./tonalArtMap";
+
+const mean = (values: Uint8Array) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+describe("generateTonalArtMap", () => {
+    const tonalArtMap = generateTonalArtMap({ size: 32, tones: 4 });
+
+    it("has a mip chain down to 8x8 for every tone", () => {
+        expect(tonalArtMap.size).toBe(32);
+        expect(tonalArtMap.levels).toHaveLength(4);
+        for (const toneLevels of tonalArtMap.levels) {
+            expect(toneLevels.map(level => level.length)).toEqual([32 * 32, 16 * 16, 8 * 8]);
+        }
+    });
+
+    it("keeps every stroke of a tone in the darker tones", () => {
+        for (let tone = 1; tone < tonalArtMap.levels.length; tone++) {
+            tonalArtMap.levels[tone].forEach((level, mipLevel) => {
+                const lighter = tonalArtMap.levels[tone - 1][mipLevel];
+                expect(level.every((intensity, i) => intensity <= lighter[i])).toBe(true);
+                expect(mean(level)).toBeLessThan(mean(lighter));
+            });
+        }
+    });
+
+    it("inks each level up to the tone's coverage", () => {
+        // From 10% ink for the lightest tone to 85% for the darkest
+        expect(1 - mean(tonalArtMap.levels[0][0]) / 255).toBeGreaterThanOrEqual(0.1);
+        expect(1 - mean(tonalArtMap.levels[3][2]) / 255).toBeGreaterThanOrEqual(0.85);
+    });
+
+    it("is the same for the same seed", () => {
+        expect(generateTonalArtMap({ size: 8, tones: 2, seed: 7 })).toEqual(generateTonalArtMap({ size: 8, tones: 2, seed: 7 }));
+        expect(generateTonalArtMap({ size: 8, tones: 2, seed: 7 })).not.toEqual(generateTonalArtMap({ size: 8, tones: 2, seed: 8 }));
+    });
+
+    it.each([4, 48])("rejects size %d", size => {
+        expect(() => generateTonalArtMap({ size })).toThrow(`Tonal art map size must be a power of two of at least 8, got ${size}`);
+    });
+});
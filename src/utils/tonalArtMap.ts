@@ -0,0 +1,162 @@
+import type { WebGPUContext } from "../core/webgpu-context";
+
+export interface ITonalArtMapOptions {
+    /** Size of the finest level, a power of two. */
+    size?: number;
+    /** Number of tones, lightest first. */
+    tones?: number;
+    /** Stroke direction in radians. The darker half of the tones cross-hatches at right angles to it. */
+    angle?: number;
+    /** Stroke width in pixels, the same on every level. */
+    strokeWidth?: number;
+    /** Seeds the stroke placement, so the same options give the same map. */
+    seed?: number;
+}
+
+/**
+ * Hatch textures of increasing darkness, each with its own mip chain. Every stroke of a tone is also in all
+ * darker tones, and every stroke of a mip level is also in all finer levels, so hatching stays coherent when
+ * blending between tones and between levels (Praun et al., "Real-Time Hatching", 2001).
+ */
+export interface ITonalArtMap {
+    size: number;
+    /** Per tone, per mip level from the finest: 8-bit intensities, 255 being blank paper. */
+    levels: Uint8Array[][];
+}
+
+interface IStroke {
+    // Center in 0..1 texture space, which wraps so the map tiles
+    x: number;
+    y: number;
+    // Half-length in texture space and direction
+    halfLength: number;
+    dx: number;
+    dy: number;
+}
+
+const COARSEST_LEVEL_SIZE = 8;
+// Ink coverage of the lightest and the darkest tone
+const LIGHTEST_TONE = 0.1;
+const DARKEST_TONE = 0.85;
+const STROKE_CANDIDATES = 4;
+const ANGLE_JITTER = 0.06;
+const MAX_STROKES_PER_LEVEL = 20000;
+
+/**
+ * Small deterministic random number generator (mulberry32), returning numbers in [0, 1).
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Draws `stroke` into a size x size ink coverage image, or only measures how much ink it would add. Returns the
+ * added coverage summed over the pixels.
+ */
+function rasterizeStroke(ink: Float32Array, size: number, stroke: IStroke, width: number, apply: boolean): number {
+    const x0 = (stroke.x - stroke.dx * stroke.halfLength) * size;
+    const y0 = (stroke.y - stroke.dy * stroke.halfLength) * size;
+    const x1 = (stroke.x + stroke.dx * stroke.halfLength) * size;
+    const y1 = (stroke.y + stroke.dy * stroke.halfLength) * size;
+    // Walk along the major axis, covering the pixels within reach of the line across it
+    const steep = Math.abs(y1 - y0) > Math.abs(x1 - x0);
+    const [a0, b0, a1, b1] = steep ? [y0, x0, y1, x1] : [x0, y0, x1, y1];
+    const [start, end] = a0 < a1 ? [a0, a1] : [a1, a0];
+    const slope = (b1 - b0) / (a1 - a0);
+    // Perpendicular distance = distance along the minor axis * cos(angle to the major axis)
+    const cosine = 1 / Math.sqrt(1 + slope * slope);
+    const reach = width / 2 + 1;
+    let added = 0;
+    for (let a = Math.ceil(start - 0.5); a + 0.5 <= end; a++) {
+        const center = b0 + (a + 0.5 - a0) * slope;
+        for (let b = Math.floor(center - reach / cosine); b <= Math.ceil(center + reach / cosine); b++) {
+            const coverage = Math.min(1, Math.max(0, width / 2 + 0.5 - Math.abs(b + 0.5 - center) * cosine));
+            if (coverage <= 0) {
+                continue;
+            }
+            const column = ((steep ? b : a) % size + size) % size;
+            const row = ((steep ? a : b) % size + size) % size;
+            const index = row * size + column;
+            // Ink doesn't get darker where strokes cross
+            const previous = ink[index];
+            if (coverage > previous) {
+                added += coverage - previous;
+                if (apply) {
+                    ink[index] = coverage;
+                }
+            }
+        }
+    }
+    return added;
+}
+
+/**
+ * Generates a tonal art map: for each tone, strokes are added to the coarsest level until it reaches the tone's
+ * ink coverage, then to the next finer level, and so on. Strokes added for a level are drawn into every finer
+ * level too. Of a few random candidates, the stroke adding the most ink is picked, which spreads strokes evenly.
+ */
+export function generateTonalArtMap(options: ITonalArtMapOptions = {}): ITonalArtMap {
+    const size = options.size ?? 256;
+    const tones = options.tones ?? 6;
+    const angle = options.angle ?? Math.PI / 4;
+    const strokeWidth = options.strokeWidth ?? 1.25;
+    const random = createRandom(options.seed ?? 1);
+    if (size < COARSEST_LEVEL_SIZE || (size & (size - 1)) !== 0) {
+        throw new Error(`Tonal art map size must be a power of two of at least ${COARSEST_LEVEL_SIZE}, got ${size}`);
+    }
+
+    // Finest level first, as the texture's mip levels are
+    const sizes: number[] = [];
+    for (let levelSize = size; levelSize >= COARSEST_LEVEL_SIZE; levelSize /= 2) {
+        sizes.push(levelSize);
+    }
+    const ink = sizes.map(levelSize => new Float32Array(levelSize * levelSize));
+    const inkSums = sizes.map(() => 0);
+
+    const levels: Uint8Array[][] = [];
+    for (let tone = 0; tone < tones; tone++) {
+        const target = tones === 1 ? DARKEST_TONE : LIGHTEST_TONE + (DARKEST_TONE - LIGHTEST_TONE) * tone / (tones - 1);
+        const crossHatched = tone >= Math.ceil(tones / 2);
+        for (let level = sizes.length - 1; level >= 0; level--) {
+            const pixels = sizes[level] * sizes[level];
+            for (let strokes = 0; inkSums[level] / pixels < target && strokes < MAX_STROKES_PER_LEVEL; strokes++) {
+                let best: IStroke | undefined;
+                let bestInk = -1;
+                for (let candidate = 0; candidate < STROKE_CANDIDATES; candidate++) {
+                    const direction = angle + (crossHatched && random() < 0.5 ? Math.PI / 2 : 0) + (random() - 0.5) * 2 * ANGLE_JITTER;
+                    const stroke = { x: random(), y: random(), halfLength: 0.15 + random() * 0.15, dx: Math.cos(direction), dy: Math.sin(direction) };
+                    const added = rasterizeStroke(ink[level], sizes[level], stroke, strokeWidth, false);
+                    if (added > bestInk) {
+                        best = stroke;
+                        bestInk = added;
+                    }
+                }
+                for (let finer = level; finer >= 0; finer--) {
+                    inkSums[finer] += rasterizeStroke(ink[finer], sizes[finer], best!, strokeWidth, true);
+                }
+            }
+        }
+        levels.push(ink.map(levelInk => Uint8Array.from(levelInk, coverage => Math.round((1 - coverage) * 255))));
+    }
+    return { size, levels };
+}
+
+/**
+ * Uploads a tonal art map as an r8unorm texture_2d_array with one layer per tone and the generated mip levels.
+ */
+export function createTonalArtMapTexture(webGpuContext: WebGPUContext, tonalArtMap: ITonalArtMap): GPUTexture {
+    const { size, levels } = tonalArtMap;
+    const texture = webGpuContext.createTexture(size, size, "r8unorm", { layers: levels.length, mipLevelCount: levels[0].length });
+    levels.forEach((toneLevels, layer) => toneLevels.forEach((data, mipLevel) => {
+        const levelSize = size >> mipLevel;
+        webGpuContext.device.queue.writeTexture({ texture, mipLevel, origin: { x: 0, y: 0, z: layer } }, data, { bytesPerRow: levelSize }, { width: levelSize, height: levelSize });
+    }));
+    return texture;
+}
@@ -1,3 +1,5 @@
+import type { IAssetLoader } from "../core/asset-manager";
+
 export class VideoLoader {
     private _videoElement: HTMLVideoElement;
     public static async create(videoUrl: string): Promise<VideoLoader> { 
@@ -5,7 +7,7 @@ export class VideoLoader {
         videoElement.playsInline = true;
         videoElement.muted = true;
         videoElement.loop = true;
-        const videoReadyPromise = new Promise<void>((resolve) => {
+        const videoReadyPromise = new Promise<void>((resolve, reject) => {
             let playing = false;
             let timeUpdated = false;
             videoElement.addEventListener("playing", () => {
@@ -20,9 +22,14 @@ export class VideoLoader {
                     resolve();
                 }
             });
+            videoElement.addEventListener("error", () => {
+                reject(new Error(videoElement.error?.message || `Failed to load video "${videoUrl}"`));
+            });
         });
         videoElement.src = videoUrl;
-        videoElement.play();
+        videoElement.play().catch(() => {
+            // Load errors reject videoReadyPromise through the "error" event
+        });
         await videoReadyPromise;
         return new VideoLoader(videoElement);
     }
@@ -32,4 +39,12 @@ export class VideoLoader {
     get videoElement(): HTMLVideoElement {
         return this._videoElement;
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Loads a video through an AssetManager, which starts it playing. Cached videos may have been paused since.
+ */
+export const videoAssetLoader: IAssetLoader<VideoLoader> = {
+    type: "video",
+    load: url => VideoLoader.create(url),
+};